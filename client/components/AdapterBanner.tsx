@@ -0,0 +1,94 @@
+import React from "react";
+import { StyleSheet, View, Pressable, Linking, Platform } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { AdapterState, isAdapterBlocked } from "@/services/BleService";
+import { SensorColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface AdapterBannerProps {
+  state: AdapterState | null;
+}
+
+const ADAPTER_MESSAGES: Partial<
+  Record<
+    AdapterState,
+    { icon: keyof typeof Feather.glyphMap; title: string; detail: string }
+  >
+> = {
+  PoweredOff: {
+    icon: "bluetooth",
+    title: "Bluetooth is off",
+    detail: "Turn it on to scan. Connected sensors resume automatically.",
+  },
+  Unauthorized: {
+    icon: "lock",
+    title: "Bluetooth not authorized",
+    detail:
+      "Allow Bluetooth access for this app to find and connect to sensors.",
+  },
+  Unsupported: {
+    icon: "slash",
+    title: "Bluetooth unsupported",
+    detail:
+      "This device cannot use Bluetooth Low Energy. Switch to Simulated mode in Settings.",
+  },
+};
+
+export function AdapterBanner({ state }: AdapterBannerProps) {
+  if (!state || !isAdapterBlocked(state)) return null;
+  const message = ADAPTER_MESSAGES[state];
+  if (!message) return null;
+
+  return (
+    <View
+      style={[styles.banner, { backgroundColor: SensorColors.disconnected }]}
+    >
+      <Feather name={message.icon} size={18} color="#FFFFFF" />
+      <View style={styles.body}>
+        <ThemedText style={styles.title}>{message.title}</ThemedText>
+        <ThemedText style={styles.detail}>{message.detail}</ThemedText>
+      </View>
+      {state === "Unauthorized" && Platform.OS !== "web" ? (
+        <Pressable onPress={() => Linking.openSettings()} style={styles.action}>
+          <ThemedText style={styles.actionText}>Settings</ThemedText>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.md,
+  },
+  body: {
+    flex: 1,
+  },
+  title: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  detail: {
+    color: "#FFFFFF",
+    fontSize: 12,
+    opacity: 0.9,
+  },
+  action: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+    borderColor: "#FFFFFF",
+  },
+  actionText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
@@ -3,28 +3,64 @@ import { StyleSheet, View, Pressable } from "react-native";
 import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import { SensorColors, Spacing, BorderRadius } from "@/constants/theme";
+import {
+  ConnectionState,
+  describeConnectionStatus,
+  isReceivingData,
+} from "@/services/ConnectionStateMachine";
 
 interface ConnectionBannerProps {
-  isConnected: boolean;
+  connection: ConnectionState;
   onPress?: () => void;
 }
 
-export function ConnectionBanner({ isConnected, onPress }: ConnectionBannerProps) {
-  const backgroundColor = isConnected
-    ? SensorColors.connected
-    : SensorColors.disconnected;
+export function ConnectionBanner({ connection, onPress }: ConnectionBannerProps) {
+  const { status } = connection;
+
+  const backgroundColor =
+    isReceivingData(status)
+      ? SensorColors.connected
+      : status === "idle" || status === "error"
+      ? SensorColors.disconnected
+      : SensorColors.current;
+
+  const getIcon = (): keyof typeof Feather.glyphMap => {
+    switch (status) {
+      case "subscribed":
+        return "bluetooth";
+      case "listening":
+        return "radio";
+      case "reconnecting":
+        return "refresh-cw";
+      case "error":
+        return "alert-circle";
+      case "idle":
+        return "wifi-off";
+      default:
+        return "loader";
+    }
+  };
+
+  const getMessage = () => {
+    switch (status) {
+      case "subscribed":
+        return "Sensor Connected";
+      case "listening":
+        return "Receiving Beacon Broadcasts";
+      case "idle":
+        return "Sensor Disconnected - Tap to connect";
+      case "error":
+        return `${describeConnectionStatus(connection)} - Tap to retry`;
+      default:
+        return `${describeConnectionStatus(connection)}...`;
+    }
+  };
 
   return (
     <Pressable onPress={onPress}>
       <View style={[styles.banner, { backgroundColor }]}>
-        <Feather
-          name={isConnected ? "bluetooth" : "wifi-off"}
-          size={18}
-          color="#FFFFFF"
-        />
-        <ThemedText style={styles.text}>
-          {isConnected ? "Sensor Connected" : "Sensor Disconnected - Tap to connect"}
-        </ThemedText>
+        <Feather name={getIcon()} size={18} color="#FFFFFF" />
+        <ThemedText style={styles.text}>{getMessage()}</ThemedText>
       </View>
     </Pressable>
   );
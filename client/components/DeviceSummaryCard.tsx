@@ -0,0 +1,151 @@
+import React from "react";
+import { StyleSheet, View, Pressable } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { DeviceSensorData } from "@/hooks/useSensorData";
+import {
+  describeConnectionStatus,
+  isReceivingData,
+} from "@/services/ConnectionStateMachine";
+import { SensorColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface DeviceSummaryCardProps {
+  device: DeviceSensorData;
+  onPress?: () => void;
+}
+
+interface MetricProps {
+  label: string;
+  value: number | undefined;
+  unit: string;
+  color: string;
+}
+
+function Metric({ label, value, unit, color }: MetricProps) {
+  const { theme } = useTheme();
+
+  return (
+    <View style={styles.metric}>
+      <ThemedText style={[styles.metricValue, { color }]}>
+        {value !== undefined && Number.isFinite(value)
+          ? value.toFixed(2)
+          : "--"}
+        <ThemedText style={[styles.metricUnit, { color: theme.textSecondary }]}>
+          {" "}
+          {unit}
+        </ThemedText>
+      </ThemedText>
+      <ThemedText style={[styles.metricLabel, { color: theme.textSecondary }]}>
+        {label}
+      </ThemedText>
+    </View>
+  );
+}
+
+export function DeviceSummaryCard({ device, onPress }: DeviceSummaryCardProps) {
+  const { theme } = useTheme();
+  const reading = device.currentReading;
+  const isSubscribed = isReceivingData(device.connection.status);
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.card,
+        {
+          backgroundColor: pressed
+            ? theme.backgroundSecondary
+            : theme.cardBackground,
+          borderColor: theme.border,
+        },
+      ]}
+    >
+      <View style={styles.header}>
+        <ThemedText style={styles.name} numberOfLines={1}>
+          {device.connection.deviceName || device.deviceId}
+        </ThemedText>
+        <ThemedText
+          style={[
+            styles.status,
+            {
+              color: isSubscribed
+                ? SensorColors.connected
+                : theme.textSecondary,
+            },
+          ]}
+        >
+          {describeConnectionStatus(device.connection)}
+        </ThemedText>
+      </View>
+      <View style={styles.metrics}>
+        <Metric
+          label="Voltage"
+          value={reading?.voltage}
+          unit="V"
+          color={SensorColors.voltage}
+        />
+        <Metric
+          label="Current"
+          value={reading?.current}
+          unit="A"
+          color={SensorColors.current}
+        />
+        <Metric
+          label="Temp"
+          value={reading?.temperature}
+          unit="C"
+          color={SensorColors.temperatureNormal}
+        />
+        <Metric
+          label="pH"
+          value={reading?.ph}
+          unit=""
+          color={SensorColors.phAcidic}
+        />
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    gap: Spacing.md,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: "600",
+    flex: 1,
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: "500",
+  },
+  metrics: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  metric: {
+    alignItems: "flex-start",
+  },
+  metricValue: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  metricUnit: {
+    fontSize: 12,
+    fontWeight: "400",
+  },
+  metricLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
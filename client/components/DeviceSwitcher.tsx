@@ -0,0 +1,115 @@
+import React from "react";
+import { StyleSheet, ScrollView, Pressable, View } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { DeviceSensorData } from "@/hooks/useSensorData";
+import { SensorColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface DeviceSwitcherProps {
+  devices: DeviceSensorData[];
+  selectedDeviceId: string | null;
+  showAll: boolean;
+  onSelect: (deviceId: string) => void;
+  onShowAll: () => void;
+}
+
+function getStatusColor(device: DeviceSensorData): string {
+  switch (device.connection.status) {
+    case "subscribed":
+    case "listening":
+      return SensorColors.connected;
+    case "idle":
+    case "error":
+      return SensorColors.disconnected;
+    default:
+      return SensorColors.current;
+  }
+}
+
+export function DeviceSwitcher({
+  devices,
+  selectedDeviceId,
+  showAll,
+  onSelect,
+  onShowAll,
+}: DeviceSwitcherProps) {
+  const { theme } = useTheme();
+
+  const renderChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void,
+    dotColor?: string,
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: active
+            ? theme.tabIconSelected
+            : theme.cardBackground,
+          borderColor: active ? theme.tabIconSelected : theme.border,
+        },
+      ]}
+    >
+      {dotColor ? (
+        <View style={[styles.dot, { backgroundColor: dotColor }]} />
+      ) : null}
+      <ThemedText
+        style={[styles.chipText, { color: active ? "#FFFFFF" : theme.text }]}
+        numberOfLines={1}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      {devices.length > 1
+        ? renderChip("all", `All (${devices.length})`, showAll, onShowAll)
+        : null}
+      {devices.map((device) =>
+        renderChip(
+          device.deviceId,
+          device.connection.deviceName || device.deviceId,
+          !showAll && device.deviceId === selectedDeviceId,
+          () => onSelect(device.deviceId),
+          getStatusColor(device),
+        ),
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    gap: Spacing.xs,
+    maxWidth: 200,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
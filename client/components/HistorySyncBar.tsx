@@ -0,0 +1,82 @@
+import React from "react";
+import { StyleSheet, View, ActivityIndicator } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { HistorySyncProgress } from "@/services/HistorySync";
+import { SensorColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface HistorySyncBarProps {
+  progress: HistorySyncProgress;
+  deviceName?: string | null;
+}
+
+export function HistorySyncBar({ progress, deviceName }: HistorySyncBarProps) {
+  const { theme } = useTheme();
+  const fraction =
+    progress.total > 0 ? Math.min(progress.received / progress.total, 1) : 0;
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: theme.cardBackground, borderColor: theme.border },
+      ]}
+    >
+      <View style={styles.header}>
+        <ActivityIndicator size="small" color={SensorColors.voltage} />
+        <ThemedText style={styles.title} numberOfLines={1}>
+          {deviceName ? `Syncing ${deviceName} log` : "Syncing logged history"}
+        </ThemedText>
+        <ThemedText style={[styles.count, { color: theme.textSecondary }]}>
+          {progress.total > 0
+            ? `${progress.received} / ${progress.total}`
+            : "Requesting..."}
+        </ThemedText>
+      </View>
+      <View
+        style={[styles.track, { backgroundColor: theme.backgroundTertiary }]}
+      >
+        <View
+          style={[
+            styles.fill,
+            {
+              width: `${fraction * 100}%`,
+              backgroundColor: SensorColors.voltage,
+            },
+          ]}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    gap: Spacing.sm,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  title: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  count: {
+    fontSize: 13,
+    fontVariant: ["tabular-nums"],
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: "hidden",
+  },
+  fill: {
+    height: "100%",
+  },
+});
@@ -0,0 +1,116 @@
+import React from "react";
+import { StyleSheet, View, Pressable, Modal } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useBonds } from "@/hooks/useBonds";
+import { SensorColors, Spacing, BorderRadius } from "@/constants/theme";
+
+// Shown when a sensor refuses access until it is paired. The passkey itself is typed into
+// the system's pairing dialog, which appears once the request is retried.
+export function PairingPrompt() {
+  const { theme } = useTheme();
+  const { pending, respond } = useBonds();
+
+  if (!pending) return null;
+  const name = pending.deviceName || "This sensor";
+
+  return (
+    <Modal
+      visible
+      transparent
+      animationType="fade"
+      onRequestClose={() => respond(pending.deviceId, false)}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[
+            styles.card,
+            {
+              backgroundColor: theme.cardBackground,
+              borderColor: theme.border,
+            },
+          ]}
+        >
+          <View style={styles.header}>
+            <Feather name="lock" size={20} color={theme.tabIconSelected} />
+            <ThemedText style={styles.title}>
+              Pair with {pending.deviceName || "sensor"}
+            </ThemedText>
+          </View>
+          <ThemedText style={[styles.body, { color: theme.textSecondary }]}>
+            {pending.rebond
+              ? `${name} no longer accepts this phone's bond, usually because it was reset. Remove it from the system Bluetooth settings, then pair again.`
+              : `${name} only shares its data with paired devices.`}{" "}
+            When you continue, enter the passkey shown on the sensor or printed
+            on its label in the system pairing dialog.
+          </ThemedText>
+          <View style={styles.actions}>
+            <Pressable
+              onPress={() => respond(pending.deviceId, false)}
+              style={[
+                styles.button,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+            </Pressable>
+            <Pressable
+              onPress={() => respond(pending.deviceId, true)}
+              style={[
+                styles.button,
+                { backgroundColor: SensorColors.connected },
+              ]}
+            >
+              <ThemedText style={[styles.buttonText, { color: "#FFFFFF" }]}>
+                Pair
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    padding: Spacing.xl,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  body: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  button: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.xs,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,184 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Pressable,
+  GestureResponderEvent,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useReplayPlayback } from "@/hooks/useReplayPlayback";
+import { REPLAY_SPEEDS, ReplaySpeed } from "@/services/ReplayTransport";
+import { SensorColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface ReplayBarProps {
+  deviceId: string;
+}
+
+function formatPosition(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+function formatSpeed(speed: ReplaySpeed): string {
+  return speed === "instant" ? "Instant" : `${speed}x`;
+}
+
+export function ReplayBar({ deviceId }: ReplayBarProps) {
+  const { theme } = useTheme();
+  const { playback, isPlaying, togglePause, setSpeed, setLoop, seek } =
+    useReplayPlayback(deviceId);
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  if (!playback) return null;
+
+  const progress =
+    playback.durationMs > 0
+      ? Math.min(playback.positionMs / playback.durationMs, 1)
+      : 1;
+
+  const handleSeek = (event: GestureResponderEvent) => {
+    if (trackWidth <= 0) return;
+    const fraction = Math.min(
+      Math.max(event.nativeEvent.locationX / trackWidth, 0),
+      1,
+    );
+    seek(fraction * playback.durationMs);
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: theme.cardBackground, borderColor: theme.border },
+      ]}
+    >
+      <View style={styles.header}>
+        <Pressable onPress={togglePause} hitSlop={8} style={styles.iconButton}>
+          <Feather
+            name={isPlaying ? "pause" : "play"}
+            size={20}
+            color={theme.text}
+          />
+        </Pressable>
+        <ThemedText style={styles.position}>
+          {formatPosition(playback.positionMs)} /{" "}
+          {formatPosition(playback.durationMs)}
+        </ThemedText>
+        <Pressable
+          onPress={() => setLoop(!playback.loop)}
+          hitSlop={8}
+          style={styles.iconButton}
+        >
+          <Feather
+            name="repeat"
+            size={18}
+            color={playback.loop ? SensorColors.voltage : theme.textSecondary}
+          />
+        </Pressable>
+      </View>
+
+      <Pressable
+        onPress={handleSeek}
+        onLayout={(event) => setTrackWidth(event.nativeEvent.layout.width)}
+        style={styles.trackHitArea}
+      >
+        <View
+          pointerEvents="none"
+          style={[styles.track, { backgroundColor: theme.backgroundTertiary }]}
+        >
+          <View
+            style={[
+              styles.trackFill,
+              {
+                width: `${progress * 100}%`,
+                backgroundColor: SensorColors.voltage,
+              },
+            ]}
+          />
+        </View>
+      </Pressable>
+
+      <View style={styles.speeds}>
+        {REPLAY_SPEEDS.map((speed) => {
+          const selected = playback.speed === speed;
+          return (
+            <Pressable
+              key={speed}
+              onPress={() => setSpeed(speed)}
+              style={[
+                styles.speedChip,
+                {
+                  backgroundColor: selected
+                    ? SensorColors.voltage
+                    : theme.backgroundSecondary,
+                },
+              ]}
+            >
+              <ThemedText
+                style={[
+                  styles.speedText,
+                  { color: selected ? "#FFFFFF" : theme.text },
+                ]}
+              >
+                {formatSpeed(speed)}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    gap: Spacing.sm,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+  position: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    fontVariant: ["tabular-nums"],
+  },
+  trackHitArea: {
+    paddingVertical: Spacing.sm,
+    justifyContent: "center",
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: "hidden",
+  },
+  trackFill: {
+    height: "100%",
+  },
+  speeds: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  speedChip: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+  },
+  speedText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
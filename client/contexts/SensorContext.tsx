@@ -1,15 +1,38 @@
 import React, { createContext, useContext, ReactNode } from "react";
-import { useSensorData, SensorState, ChartDataPoint, SensorReading, ConnectionMode } from "@/hooks/useSensorData";
+import {
+  useSensorData,
+  SensorState,
+  ChartDataPoint,
+  SensorReading,
+  ConnectionMode,
+  DeviceSensorData,
+} from "@/hooks/useSensorData";
+import { ConnectionState } from "@/services/ConnectionStateMachine";
+import { ScanFilter } from "@/services/BleService";
+import { CommandResult, SensorCommand } from "@/services/CommandChannel";
+import { DeviceInfo } from "@/services/DeviceInformation";
+import { SensorTransport } from "@/services/SensorTransport";
 
 interface SensorContextType extends SensorState {
-  startSimulation: (deviceName?: string) => void;
-  stopSimulation: () => void;
+  transport: SensorTransport;
+  deviceList: DeviceSensorData[];
+  connectedCount: number;
+  connection: ConnectionState;
+  deviceInfo: DeviceInfo | null;
+  currentReading: SensorReading | null;
+  voltageHistory: ChartDataPoint[];
+  currentHistory: ChartDataPoint[];
+  startDiscovery: (filter?: ScanFilter) => Promise<void>;
+  stopDiscovery: () => void;
+  connectDevice: (deviceId: string, deviceName?: string) => Promise<boolean>;
+  disconnectDevice: (deviceId: string) => Promise<void>;
+  setBeaconListening: (enabled: boolean, filter?: ScanFilter) => Promise<boolean>;
+  setLivePublishing: (enabled: boolean) => void;
   toggleConnection: () => void;
   clearHistory: () => void;
   setConnectionMode: (mode: ConnectionMode) => void;
-  connectToRealDevice: (deviceName: string) => void;
-  disconnectRealDevice: () => void;
-  updateRealReading: (reading: SensorReading) => void;
+  selectDevice: (deviceId: string) => void;
+  sendCommand: (deviceId: string, command: SensorCommand) => Promise<CommandResult>;
 }
 
 const SensorContext = createContext<SensorContextType | undefined>(undefined);
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  BondedDevice,
+  BondStatus,
+  Bonds,
+  PairingRequest,
+} from "@/services/Bonding";
+
+export function useBonds() {
+  const [bonds, setBonds] = useState<BondedDevice[]>(() => Bonds.list());
+  const [pending, setPending] = useState<PairingRequest | null>(() =>
+    Bonds.getPendingRequest(),
+  );
+
+  useEffect(() => {
+    const update = () => {
+      setBonds(Bonds.list());
+      setPending(Bonds.getPendingRequest());
+    };
+    const unsubscribe = Bonds.subscribe(update);
+    Bonds.load();
+    update();
+    return unsubscribe;
+  }, []);
+
+  const forget = useCallback((deviceId: string) => Bonds.forget(deviceId), []);
+  const respond = useCallback(
+    (deviceId: string, accepted: boolean) => Bonds.respond(deviceId, accepted),
+    [],
+  );
+
+  return {
+    bonds,
+    pending,
+    forget,
+    respond,
+  };
+}
+
+export function useBondStatus(deviceId: string): BondStatus {
+  const [status, setStatus] = useState<BondStatus>(() =>
+    Bonds.getStatus(deviceId),
+  );
+
+  useEffect(() => {
+    const update = () => setStatus(Bonds.getStatus(deviceId));
+    update();
+    Bonds.load();
+    return Bonds.subscribe(update);
+  }, [deviceId]);
+
+  return status;
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from "react";
+import { DeviceProfile, DeviceProfiles } from "@/services/DeviceProfiles";
+
+export function useDeviceProfiles() {
+  const [profiles, setProfiles] = useState<DeviceProfile[]>(() =>
+    DeviceProfiles.list(),
+  );
+
+  useEffect(() => {
+    const unsubscribe = DeviceProfiles.subscribe(() =>
+      setProfiles(DeviceProfiles.list()),
+    );
+    DeviceProfiles.load();
+    setProfiles(DeviceProfiles.list());
+    return unsubscribe;
+  }, []);
+
+  const save = useCallback(
+    (profile: DeviceProfile) => DeviceProfiles.save(profile),
+    [],
+  );
+  const remove = useCallback((id: string) => DeviceProfiles.remove(id), []);
+  const importJson = useCallback(
+    (text: string) => DeviceProfiles.importJson(text),
+    [],
+  );
+  const exportJson = useCallback(() => DeviceProfiles.exportJson(), []);
+
+  return {
+    profiles,
+    save,
+    remove,
+    importJson,
+    exportJson,
+  };
+}
+
+// The profile chosen for a device on its last connection, if any.
+export function useAssignedProfile(
+  deviceId: string | null,
+): DeviceProfile | null {
+  const [profile, setProfile] = useState<DeviceProfile | null>(() =>
+    deviceId ? DeviceProfiles.getAssigned(deviceId) : null,
+  );
+
+  useEffect(() => {
+    const update = () =>
+      setProfile(deviceId ? DeviceProfiles.getAssigned(deviceId) : null);
+    update();
+    return DeviceProfiles.subscribe(update);
+  }, [deviceId]);
+
+  return profile;
+}
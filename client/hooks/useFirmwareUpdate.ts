@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useSensor } from "@/contexts/SensorContext";
+import { FirmwareImage } from "@/services/FirmwareImage";
+import {
+  FirmwareUpdateProgress,
+  FirmwareUpdater,
+  INITIAL_FIRMWARE_PROGRESS,
+  isUpdateRunning,
+} from "@/services/FirmwareUpdater";
+
+export function useFirmwareUpdate(deviceId: string) {
+  const { devices, transport } = useSensor();
+  const device = devices[deviceId];
+
+  const [image, setImage] = useState<FirmwareImage | null>(null);
+  const [progress, setProgress] = useState<FirmwareUpdateProgress>(
+    INITIAL_FIRMWARE_PROGRESS,
+  );
+  const updaterRef = useRef<FirmwareUpdater | null>(null);
+
+  useEffect(() => {
+    return () => {
+      updaterRef.current?.abort();
+    };
+  }, []);
+
+  const selectImage = useCallback((next: FirmwareImage | null) => {
+    if (
+      updaterRef.current &&
+      isUpdateRunning(updaterRef.current.getProgress().status)
+    )
+      return;
+    setImage(next);
+    setProgress(INITIAL_FIRMWARE_PROGRESS);
+  }, []);
+
+  const start = useCallback(async () => {
+    if (!image || !device || device.connection.status !== "subscribed") return;
+    if (!transport.createDfuTarget) return;
+    if (
+      updaterRef.current &&
+      isUpdateRunning(updaterRef.current.getProgress().status)
+    )
+      return;
+
+    const target = transport.createDfuTarget(deviceId);
+    const updater = new FirmwareUpdater(target, image, setProgress);
+    updaterRef.current = updater;
+    await updater.run();
+  }, [image, device, deviceId, transport]);
+
+  const pause = useCallback(() => updaterRef.current?.pause(), []);
+  const resume = useCallback(() => updaterRef.current?.resume(), []);
+  const abort = useCallback(() => updaterRef.current?.abort(), []);
+
+  return {
+    device,
+    image,
+    progress,
+    isRunning: isUpdateRunning(progress.status),
+    selectImage,
+    start,
+    pause,
+    resume,
+    abort,
+  };
+}
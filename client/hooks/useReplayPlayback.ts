@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  ReplayPlaybackState,
+  ReplaySpeed,
+  ReplayTransport,
+} from "@/services/ReplayTransport";
+
+const POSITION_REFRESH_MS = 250;
+
+export function useReplayPlayback(deviceId: string | null) {
+  const [playback, setPlayback] = useState<ReplayPlaybackState | null>(() =>
+    deviceId ? ReplayTransport.getPlayback(deviceId) : null,
+  );
+
+  useEffect(() => {
+    setPlayback(deviceId ? ReplayTransport.getPlayback(deviceId) : null);
+    if (!deviceId) return;
+
+    return ReplayTransport.subscribePlayback((id, state) => {
+      if (id === deviceId) setPlayback(state);
+    });
+  }, [deviceId]);
+
+  const isPlaying = playback !== null && !playback.paused;
+
+  // Readings can be seconds apart, so keep the position moving between them.
+  useEffect(() => {
+    if (!deviceId || !isPlaying) return;
+
+    const interval = setInterval(() => {
+      setPlayback(ReplayTransport.getPlayback(deviceId));
+    }, POSITION_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [deviceId, isPlaying]);
+
+  const togglePause = useCallback(() => {
+    if (!deviceId || !playback) return;
+    if (playback.paused) {
+      ReplayTransport.resume(deviceId);
+    } else {
+      ReplayTransport.pause(deviceId);
+    }
+  }, [deviceId, playback]);
+
+  const setSpeed = useCallback(
+    (speed: ReplaySpeed) => {
+      if (deviceId) ReplayTransport.setSpeed(deviceId, speed);
+    },
+    [deviceId],
+  );
+
+  const setLoop = useCallback(
+    (loop: boolean) => {
+      if (deviceId) ReplayTransport.setLoop(deviceId, loop);
+    },
+    [deviceId],
+  );
+
+  const seek = useCallback(
+    (positionMs: number) => {
+      if (deviceId) ReplayTransport.seek(deviceId, positionMs);
+    },
+    [deviceId],
+  );
+
+  return {
+    playback,
+    isPlaying,
+    togglePause,
+    setSpeed,
+    setLoop,
+    seek,
+  };
+}
@@ -1,6 +1,29 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback } from "react";
+import {
+  ConnectionState,
+  DeviceConnections,
+  INITIAL_CONNECTION_STATE,
+  ScanMachine,
+  isLinkActive,
+} from "@/services/ConnectionStateMachine";
+import { AdapterState, BleDevice, ScanFilter } from "@/services/BleService";
+import { CommandResult, SensorCommand } from "@/services/CommandChannel";
+import { ConnectionQuality } from "@/services/ConnectionQuality";
+import { DeviceInfo } from "@/services/DeviceInformation";
+import { HistoryRecord, HistorySyncProgress } from "@/services/HistorySync";
+import { LivePublisher } from "@/services/LivePublisher";
+import { TransportKind } from "@/services/SensorTransport";
+import { SessionRecorder } from "@/services/SessionRecorder";
+import { DEFAULT_TRANSPORT, TransportRegistry } from "@/services/Transports";
+import { UartConsole } from "@/services/UartConsole";
 
-export type ConnectionMode = "simulated" | "real";
+export type ConnectionMode = TransportKind;
+
+export interface ReadingSource {
+  deviceId: string;
+  serialNumber: string | null;
+  firmwareRevision: string | null;
+}
 
 export interface SensorReading {
   voltage: number;
@@ -8,192 +31,504 @@ export interface SensorReading {
   temperature: number;
   ph: number;
   timestamp: Date;
+  // Set when the timestamp comes from the device clock; the phone's receive time.
+  receivedAt?: Date;
+  source?: ReadingSource;
 }
 
 export interface ChartDataPoint {
   timestamp: number;
   value: number;
+  // Log sequence of points merged in from the device's history.
+  sequence?: number;
 }
 
-export interface SensorState {
-  isConnected: boolean;
+export interface DeviceSensorData {
+  deviceId: string;
+  connection: ConnectionState;
+  deviceInfo: DeviceInfo | null;
+  quality: ConnectionQuality | null;
+  historySync: HistorySyncProgress | null;
   currentReading: SensorReading | null;
   voltageHistory: ChartDataPoint[];
   currentHistory: ChartDataPoint[];
-  isSimulating: boolean;
+}
+
+export interface SensorState {
+  devices: Record<string, DeviceSensorData>;
+  selectedDeviceId: string | null;
+  isScanning: boolean;
   connectionMode: ConnectionMode;
-  connectedDeviceName: string | null;
+  discoveredDevices: BleDevice[];
+  transportAvailable: boolean | null;
+  transportError: string | null;
+  beaconListening: boolean;
+  livePublishing: boolean;
+  // Null for transports that do not use a Bluetooth adapter.
+  adapterState: AdapterState | null;
 }
 
 const MAX_HISTORY_POINTS = 60;
+const DISCOVERY_TIMEOUT_MS = 10000;
+
+function createDeviceData(
+  deviceId: string,
+  connection: ConnectionState,
+  deviceInfo: DeviceInfo | null = null
+): DeviceSensorData {
+  return {
+    deviceId,
+    connection,
+    deviceInfo,
+    quality: null,
+    historySync: null,
+    currentReading: null,
+    voltageHistory: [],
+    currentHistory: [],
+  };
+}
+
+// Channels the sensor does not measure are NaN and stay off the chart.
+function appendPoint(points: ChartDataPoint[], timestamp: number, value: number): ChartDataPoint[] {
+  if (!Number.isFinite(value)) return points;
+  return [...points, { timestamp, value }].slice(-MAX_HISTORY_POINTS);
+}
+
+function appendReading(device: DeviceSensorData, reading: SensorReading): DeviceSensorData {
+  const timestamp = reading.timestamp.getTime();
+  const stamped: SensorReading = {
+    ...reading,
+    source: {
+      deviceId: device.deviceId,
+      serialNumber: device.deviceInfo?.serialNumber ?? null,
+      firmwareRevision: device.deviceInfo?.firmwareRevision ?? null,
+    },
+  };
+
+  const newVoltageHistory = appendPoint(device.voltageHistory, timestamp, reading.voltage);
+  const newCurrentHistory = appendPoint(device.currentHistory, timestamp, reading.current);
 
-function generateRandomReading(): SensorReading {
   return {
-    voltage: 3.0 + Math.random() * 2.0,
-    current: 0.5 + Math.random() * 1.5,
-    temperature: 35.0 + Math.random() * 5.0,
-    ph: 5.0 + Math.random() * 4.0,
-    timestamp: new Date(),
+    ...device,
+    currentReading: stamped,
+    voltageHistory: newVoltageHistory,
+    currentHistory: newCurrentHistory,
   };
 }
 
+// Merges records downloaded from the device log into the history. A record already shown
+// has the same log sequence, or the same device timestamp when a live reading carried it;
+// the full download is kept by SessionRecorder, the chart only shows the latest points.
+function mergeHistory(
+  points: ChartDataPoint[],
+  records: HistoryRecord[],
+  channel: "voltage" | "current"
+): ChartDataPoint[] {
+  const fresh = records
+    .filter(
+      (record) =>
+        !points.some(
+          (point) =>
+            point.sequence === record.sequence ||
+            point.timestamp === record.reading.timestamp.getTime()
+        )
+    )
+    .map((record) => ({
+      timestamp: record.reading.timestamp.getTime(),
+      value: record.reading[channel],
+      sequence: record.sequence,
+    }))
+    .filter((point) => Number.isFinite(point.value));
+  return [...points, ...fresh]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-MAX_HISTORY_POINTS);
+}
+
 export function useSensorData() {
   const [state, setState] = useState<SensorState>({
-    isConnected: false,
-    currentReading: null,
-    voltageHistory: [],
-    currentHistory: [],
-    isSimulating: false,
-    connectionMode: "simulated",
-    connectedDeviceName: null,
+    devices: {},
+    selectedDeviceId: null,
+    isScanning: ScanMachine.getState().status === "scanning",
+    connectionMode: DEFAULT_TRANSPORT,
+    discoveredDevices: [],
+    transportAvailable: null,
+    transportError: null,
+    beaconListening: false,
+    livePublishing: LivePublisher.isEnabled(),
+    adapterState: null,
   });
 
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const transport = TransportRegistry.get(state.connectionMode);
 
-  const setConnectionMode = useCallback((mode: ConnectionMode) => {
-    setState((prev) => ({
-      ...prev,
-      connectionMode: mode,
-      isConnected: false,
-      isSimulating: false,
-      connectedDeviceName: null,
-    }));
-  }, []);
+  useEffect(() => {
+    const unsubscribeDevices = DeviceConnections.subscribe((deviceId, connection) => {
+      if (connection.status === "idle") SessionRecorder.finish(deviceId);
+      setState((prev) => {
+        const existing = prev.devices[deviceId] ?? createDeviceData(deviceId, connection);
+        const selectedDeviceId =
+          prev.selectedDeviceId && prev.devices[prev.selectedDeviceId]
+            ? prev.selectedDeviceId
+            : deviceId;
 
-  const startSimulation = useCallback((deviceName?: string) => {
-    setState((prev) => ({
-      ...prev,
-      isConnected: true,
-      isSimulating: true,
-      connectedDeviceName: deviceName || "Simulated Device",
-    }));
-  }, []);
+        return {
+          ...prev,
+          selectedDeviceId,
+          devices: {
+            ...prev.devices,
+            [deviceId]: { ...existing, connection },
+          },
+        };
+      });
+    });
+
+    const unsubscribeScan = ScanMachine.subscribe((scan) => {
+      setState((prev) => ({ ...prev, isScanning: scan.status === "scanning" }));
+    });
 
-  const stopSimulation = useCallback(() => {
-    setState((prev) => ({
-      ...prev,
-      isConnected: false,
-      isSimulating: false,
-      connectedDeviceName: null,
-    }));
+    return () => {
+      unsubscribeDevices();
+      unsubscribeScan();
+    };
   }, []);
 
-  const connectToRealDevice = useCallback((deviceName: string) => {
-    setState((prev) => ({
-      ...prev,
-      isConnected: true,
-      isSimulating: false,
-      connectedDeviceName: deviceName,
-    }));
+  const updateDeviceInfo = useCallback((deviceId: string, deviceInfo: DeviceInfo) => {
+    setState((prev) => {
+      const existing =
+        prev.devices[deviceId] ??
+        createDeviceData(deviceId, DeviceConnections.get(deviceId).getState());
+
+      return {
+        ...prev,
+        devices: {
+          ...prev.devices,
+          [deviceId]: { ...existing, deviceInfo },
+        },
+      };
+    });
   }, []);
 
-  const disconnectRealDevice = useCallback(() => {
-    setState((prev) => ({
-      ...prev,
-      isConnected: false,
-      connectedDeviceName: null,
-    }));
+  const updateDeviceQuality = useCallback((deviceId: string, quality: ConnectionQuality) => {
+    setState((prev) => {
+      const existing = prev.devices[deviceId];
+      if (!existing) return prev;
+
+      return {
+        ...prev,
+        devices: {
+          ...prev.devices,
+          [deviceId]: { ...existing, quality },
+        },
+      };
+    });
   }, []);
 
-  const updateRealReading = useCallback((reading: SensorReading) => {
-    const timestamp = reading.timestamp.getTime();
+  const appendDeviceReading = useCallback((deviceId: string, reading: SensorReading) => {
     setState((prev) => {
-      const newVoltageHistory = [
-        ...prev.voltageHistory,
-        { timestamp, value: reading.voltage },
-      ].slice(-MAX_HISTORY_POINTS);
+      const existing =
+        prev.devices[deviceId] ??
+        createDeviceData(deviceId, DeviceConnections.get(deviceId).getState());
 
-      const newCurrentHistory = [
-        ...prev.currentHistory,
-        { timestamp, value: reading.current },
-      ].slice(-MAX_HISTORY_POINTS);
+      return {
+        ...prev,
+        devices: {
+          ...prev.devices,
+          [deviceId]: appendReading(existing, reading),
+        },
+      };
+    });
+  }, []);
+
+  const mergeDeviceHistory = useCallback((deviceId: string, records: HistoryRecord[]) => {
+    setState((prev) => {
+      const existing = prev.devices[deviceId];
+      if (!existing) return prev;
 
       return {
         ...prev,
-        currentReading: reading,
-        voltageHistory: newVoltageHistory,
-        currentHistory: newCurrentHistory,
+        devices: {
+          ...prev.devices,
+          [deviceId]: {
+            ...existing,
+            voltageHistory: mergeHistory(existing.voltageHistory, records, "voltage"),
+            currentHistory: mergeHistory(existing.currentHistory, records, "current"),
+          },
+        },
       };
     });
   }, []);
 
-  const toggleConnection = useCallback(() => {
+  const updateHistorySync = useCallback((deviceId: string, historySync: HistorySyncProgress) => {
     setState((prev) => {
-      if (prev.isConnected) {
-        return {
-          ...prev,
-          isConnected: false,
-          isSimulating: false,
-          connectedDeviceName: null,
-        };
-      } else {
-        return {
-          ...prev,
-          isConnected: true,
-          isSimulating: prev.connectionMode === "simulated",
-          connectedDeviceName: prev.connectionMode === "simulated" ? "Simulated Device" : null,
-        };
-      }
+      const existing = prev.devices[deviceId];
+      if (!existing) return prev;
+
+      return {
+        ...prev,
+        devices: {
+          ...prev.devices,
+          [deviceId]: { ...existing, historySync },
+        },
+      };
     });
   }, []);
 
-  const clearHistory = useCallback(() => {
-    setState((prev) => ({
-      ...prev,
-      voltageHistory: [],
-      currentHistory: [],
-      currentReading: null,
-    }));
+  const resetDeviceHistory = useCallback((deviceId: string) => {
+    setState((prev) => {
+      const existing = prev.devices[deviceId];
+      if (!existing) return prev;
+
+      return {
+        ...prev,
+        devices: {
+          ...prev.devices,
+          [deviceId]: createDeviceData(deviceId, existing.connection, existing.deviceInfo),
+        },
+      };
+    });
   }, []);
 
   useEffect(() => {
-    if (state.isSimulating) {
-      intervalRef.current = setInterval(() => {
-        const reading = generateRandomReading();
-        const timestamp = reading.timestamp.getTime();
+    let cancelled = false;
 
-        setState((prev) => {
-          const newVoltageHistory = [
-            ...prev.voltageHistory,
-            { timestamp, value: reading.voltage },
-          ].slice(-MAX_HISTORY_POINTS);
-
-          const newCurrentHistory = [
-            ...prev.currentHistory,
-            { timestamp, value: reading.current },
-          ].slice(-MAX_HISTORY_POINTS);
+    setState((prev) => ({ ...prev, adapterState: transport.getAdapterState?.() ?? null }));
+    transport.initialize().then((available) => {
+      if (cancelled) return;
+      setState((prev) => ({
+        ...prev,
+        transportAvailable: available,
+        transportError: available ? null : transport.getInitError(),
+        adapterState: transport.getAdapterState?.() ?? null,
+      }));
+    });
 
+    const unsubscribe = transport.subscribe({
+      onDeviceFound: (device) => {
+        setState((prev) => {
+          const exists = prev.discoveredDevices.some((d) => d.id === device.id);
           return {
             ...prev,
-            currentReading: reading,
-            voltageHistory: newVoltageHistory,
-            currentHistory: newCurrentHistory,
+            discoveredDevices: exists
+              ? prev.discoveredDevices.map((d) => (d.id === device.id ? { ...d, ...device } : d))
+              : [...prev.discoveredDevices, device],
           };
         });
-      }, 1000);
+      },
+      onReading: (deviceId, reading) => {
+        appendDeviceReading(deviceId, reading);
+        const deviceName = DeviceConnections.getState(deviceId)?.deviceName ?? null;
+        // Relayed and replayed readings are not the phone's own measurements.
+        if (transport.kind !== "websocket" && transport.kind !== "replay") {
+          LivePublisher.publish(deviceId, deviceName, reading);
+        }
+        if (transport.kind !== "replay") {
+          SessionRecorder.recordReading(deviceId, deviceName, reading);
+        }
+      },
+      onDeviceInfo: (deviceId, info) => {
+        updateDeviceInfo(deviceId, info);
+        if (transport.kind !== "replay") SessionRecorder.recordDeviceInfo(deviceId, info);
+      },
+      onQuality: (deviceId, quality) => {
+        updateDeviceQuality(deviceId, quality);
+        if (transport.kind !== "replay") SessionRecorder.recordQuality(deviceId, quality);
+      },
+      onHistoryReset: resetDeviceHistory,
+      onHistoryRecords: mergeDeviceHistory,
+      onHistorySync: updateHistorySync,
+      onUartLine: (deviceId, line) => UartConsole.append(deviceId, line),
+      onAdapterState: (adapterState) => {
+        setState((prev) => ({
+          ...prev,
+          adapterState,
+          transportError: adapterState === "PoweredOn" ? null : prev.transportError,
+        }));
+      },
+      onError: (error) => {
+        setState((prev) => ({ ...prev, transportError: error }));
+      },
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [
+    transport,
+    appendDeviceReading,
+    updateDeviceInfo,
+    updateDeviceQuality,
+    resetDeviceHistory,
+    mergeDeviceHistory,
+    updateHistorySync,
+  ]);
+
+  const startDiscovery = useCallback(
+    async (filter?: ScanFilter) => {
+      setState((prev) => ({ ...prev, discoveredDevices: [], transportError: null }));
+      await transport.startDiscovery({ timeoutMs: DISCOVERY_TIMEOUT_MS, filter });
+    },
+    [transport]
+  );
+
+  const stopDiscovery = useCallback(() => {
+    transport.stopDiscovery();
+  }, [transport]);
+
+  const connectDevice = useCallback(
+    (deviceId: string, deviceName?: string) => transport.connect(deviceId, deviceName),
+    [transport]
+  );
+
+  const disconnectDevice = useCallback(
+    (deviceId: string) => transport.disconnect(deviceId),
+    [transport]
+  );
+
+  const setBeaconListening = useCallback(
+    async (enabled: boolean, filter: ScanFilter = {}) => {
+      if (!transport.startBeaconListening || !transport.stopBeaconListening) return false;
+
+      setState((prev) => ({ ...prev, transportError: null }));
+      let listening = false;
+      if (enabled) {
+        listening = await transport.startBeaconListening(filter);
+      } else {
+        transport.stopBeaconListening();
+      }
+      setState((prev) => ({ ...prev, beaconListening: listening }));
+      return listening;
+    },
+    [transport]
+  );
+
+  const setLivePublishing = useCallback((enabled: boolean) => {
+    LivePublisher.setEnabled(enabled);
+    setState((prev) => ({ ...prev, livePublishing: enabled }));
+  }, []);
+
+  const selectDevice = useCallback((deviceId: string) => {
+    setState((prev) => ({ ...prev, selectedDeviceId: deviceId }));
+  }, []);
+
+  const setConnectionMode = useCallback(
+    (mode: ConnectionMode) => {
+      transport.stopBeaconListening?.();
+      transport.stopDiscovery();
 
-      return () => {
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current);
+      for (const { deviceId, state: connection } of DeviceConnections.list()) {
+        if (isLinkActive(connection.status)) {
+          transport.disconnect(deviceId);
+        } else if (connection.status === "error") {
+          DeviceConnections.get(deviceId).transition("idle", {}, "connection mode changed");
         }
-      };
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
       }
+
+      const scanStatus = ScanMachine.getState().status;
+      if (scanStatus === "scanning" || scanStatus === "error") {
+        ScanMachine.transition("idle", {}, "connection mode changed");
+      }
+
+      setState((prev) => ({
+        ...prev,
+        connectionMode: mode,
+        discoveredDevices: [],
+        transportAvailable: null,
+        transportError: null,
+        beaconListening: false,
+      }));
+    },
+    [transport]
+  );
+
+  const sendCommand = useCallback(
+    async (deviceId: string, command: SensorCommand): Promise<CommandResult> => {
+      const connection = DeviceConnections.getState(deviceId);
+      if (!connection || connection.status !== "subscribed") {
+        return {
+          ok: false,
+          command: command.type,
+          error: "not-connected",
+          message: "Device not connected",
+        };
+      }
+
+      if (!transport.sendCommand) {
+        return {
+          ok: false,
+          command: command.type,
+          error: "unsupported",
+          message: `${transport.title} does not support device commands`,
+        };
+      }
+      return transport.sendCommand(deviceId, command);
+    },
+    [transport]
+  );
+
+  const toggleConnection = useCallback(() => {
+    const deviceId = state.selectedDeviceId;
+    const connection = deviceId ? DeviceConnections.getState(deviceId) : null;
+
+    if (deviceId && connection && isLinkActive(connection.status)) {
+      transport.disconnect(deviceId);
+    } else if (transport.kind === "simulated") {
+      transport.connect(deviceId ?? "sim-1", connection?.deviceName ?? undefined);
     }
-  }, [state.isSimulating]);
+  }, [state.selectedDeviceId, transport]);
+
+  const clearHistory = useCallback(() => {
+    for (const { deviceId, state: connection } of DeviceConnections.list()) {
+      if (!isLinkActive(connection.status)) {
+        DeviceConnections.remove(deviceId);
+      }
+    }
+
+    setState((prev) => {
+      const devices: Record<string, DeviceSensorData> = {};
+      for (const device of Object.values(prev.devices)) {
+        if (isLinkActive(device.connection.status)) {
+          devices[device.deviceId] = createDeviceData(
+            device.deviceId,
+            device.connection,
+            device.deviceInfo
+          );
+        }
+      }
+
+      return {
+        ...prev,
+        devices,
+        selectedDeviceId:
+          prev.selectedDeviceId && devices[prev.selectedDeviceId]
+            ? prev.selectedDeviceId
+            : Object.keys(devices)[0] ?? null,
+      };
+    });
+  }, []);
+
+  const deviceList = Object.values(state.devices);
+  const selectedDevice = state.selectedDeviceId ? state.devices[state.selectedDeviceId] : undefined;
 
   return {
     ...state,
-    startSimulation,
-    stopSimulation,
+    transport,
+    deviceList,
+    connectedCount: deviceList.filter((device) => device.connection.status === "subscribed").length,
+    connection: selectedDevice?.connection ?? INITIAL_CONNECTION_STATE,
+    deviceInfo: selectedDevice?.deviceInfo ?? null,
+    currentReading: selectedDevice?.currentReading ?? null,
+    voltageHistory: selectedDevice?.voltageHistory ?? [],
+    currentHistory: selectedDevice?.currentHistory ?? [],
+    startDiscovery,
+    stopDiscovery,
+    connectDevice,
+    disconnectDevice,
+    setBeaconListening,
+    setLivePublishing,
     toggleConnection,
     clearHistory,
     setConnectionMode,
-    connectToRealDevice,
-    disconnectRealDevice,
-    updateRealReading,
+    selectDevice,
+    sendCommand,
   };
 }
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from "react";
+import { useSensor } from "@/contexts/SensorContext";
+import { LineParserConfig, UartLine } from "@/services/NordicUart";
+import { UartConsole, UartMacro } from "@/services/UartConsole";
+
+export function useUartConsole(deviceId: string) {
+  const { devices, transport } = useSensor();
+  const device = devices[deviceId];
+
+  const [lines, setLines] = useState<UartLine[]>(() =>
+    UartConsole.getScrollback(deviceId),
+  );
+  const [history, setHistory] = useState<string[]>(() =>
+    UartConsole.getHistory(),
+  );
+  const [macros, setMacros] = useState<UartMacro[]>(() =>
+    UartConsole.getMacros(),
+  );
+  const [parser, setParserState] = useState<LineParserConfig>(() =>
+    UartConsole.getParser(),
+  );
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const update = () => {
+      setLines(UartConsole.getScrollback(deviceId));
+      setHistory(UartConsole.getHistory());
+      setMacros(UartConsole.getMacros());
+      setParserState(UartConsole.getParser());
+    };
+    const unsubscribe = UartConsole.subscribe(update);
+    UartConsole.load();
+    update();
+    return unsubscribe;
+  }, [deviceId]);
+
+  const isConnected = device?.connection.status === "subscribed";
+  const canSend = isConnected && (transport.supportsUart?.(deviceId) ?? false);
+
+  const send = useCallback(
+    async (text: string) => {
+      if (!transport.sendUart || !text.trim()) return;
+      setSendError(null);
+      UartConsole.append(deviceId, { direction: "tx", text, at: Date.now() });
+      UartConsole.remember(text);
+      try {
+        await transport.sendUart(deviceId, text);
+      } catch (error: any) {
+        setSendError(error?.message ?? "Failed to send");
+      }
+    },
+    [deviceId, transport],
+  );
+
+  const clear = useCallback(() => UartConsole.clear(deviceId), [deviceId]);
+  const saveMacro = useCallback(
+    (macro: UartMacro) => UartConsole.saveMacro(macro),
+    [],
+  );
+  const removeMacro = useCallback(
+    (name: string) => UartConsole.removeMacro(name),
+    [],
+  );
+  const setParser = useCallback(
+    (config: LineParserConfig) => UartConsole.setParser(config),
+    [],
+  );
+
+  return {
+    device,
+    lines,
+    history,
+    macros,
+    parser,
+    canSend,
+    sendError,
+    send,
+    clear,
+    saveMacro,
+    removeMacro,
+    setParser,
+  };
+}
@@ -0,0 +1,130 @@
+export interface IntegerViews {
+  uint8: number | null;
+  int8: number | null;
+  uint16le: number | null;
+  int16le: number | null;
+  uint32le: number | null;
+  int32le: number | null;
+}
+
+export function toHex(bytes: number[]): string {
+  return bytes
+    .map((byte) => byte.toString(16).toUpperCase().padStart(2, "0"))
+    .join(" ");
+}
+
+export function parseHex(input: string): number[] | null {
+  const cleaned = input.replace(/0x/gi, "").replace(/[\s,:-]/g, "");
+  if (
+    cleaned.length === 0 ||
+    cleaned.length % 2 !== 0 ||
+    /[^0-9a-f]/i.test(cleaned)
+  ) {
+    return null;
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i < cleaned.length; i += 2) {
+    bytes.push(parseInt(cleaned.slice(i, i + 2), 16));
+  }
+  return bytes;
+}
+
+export function toUtf8(bytes: number[]): string {
+  try {
+    return decodeURIComponent(
+      bytes.map((byte) => `%${byte.toString(16).padStart(2, "0")}`).join(""),
+    );
+  } catch {
+    return bytes
+      .map((byte) =>
+        byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".",
+      )
+      .join("");
+  }
+}
+
+export function fromUtf8(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+export function toIntegerViews(bytes: number[]): IntegerViews {
+  const view = new DataView(Uint8Array.from(bytes).buffer);
+  const read = (size: number, getter: () => number) =>
+    bytes.length >= size ? getter() : null;
+
+  return {
+    uint8: read(1, () => view.getUint8(0)),
+    int8: read(1, () => view.getInt8(0)),
+    uint16le: read(2, () => view.getUint16(0, true)),
+    int16le: read(2, () => view.getInt16(0, true)),
+    uint32le: read(4, () => view.getUint32(0, true)),
+    int32le: read(4, () => view.getInt32(0, true)),
+  };
+}
+
+let crc32Table: number[] | null = null;
+
+export function crc32(bytes: number[] | Uint8Array): number {
+  if (!crc32Table) {
+    crc32Table = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crc32Table.push(c >>> 0);
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crc32Table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function writeUint32LE(value: number): number[] {
+  return [
+    value & 0xff,
+    (value >>> 8) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 24) & 0xff,
+  ];
+}
+
+export function readUint32LE(
+  bytes: number[] | Uint8Array,
+  offset: number,
+): number {
+  return (
+    (bytes[offset] |
+      (bytes[offset + 1] << 8) |
+      (bytes[offset + 2] << 16) |
+      (bytes[offset + 3] << 24)) >>>
+    0
+  );
+}
+
+// CRC-16/CCITT-FALSE: polynomial 0x1021, initial value 0xFFFF, no reflection.
+export function crc16(bytes: number[] | Uint8Array): number {
+  let crc = 0xffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc ^= bytes[i] << 8;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+export function writeUint16LE(value: number): number[] {
+  return [value & 0xff, (value >>> 8) & 0xff];
+}
+
+export function readUint16LE(
+  bytes: number[] | Uint8Array,
+  offset: number,
+): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
@@ -0,0 +1,22 @@
+import { Platform } from "react-native";
+import { File, Paths } from "expo-file-system";
+
+// Small JSON documents kept across launches: a file in the document directory on
+// native, localStorage on web.
+export async function readStoredText(name: string): Promise<string | null> {
+  if (Platform.OS === "web") {
+    return globalThis.localStorage?.getItem(name) ?? null;
+  }
+  const file = new File(Paths.document, `${name}.json`);
+  return file.exists ? file.text() : null;
+}
+
+export function writeStoredText(name: string, text: string): void {
+  if (Platform.OS === "web") {
+    globalThis.localStorage?.setItem(name, text);
+    return;
+  }
+  const file = new File(Paths.document, `${name}.json`);
+  if (!file.exists) file.create();
+  file.write(text);
+}
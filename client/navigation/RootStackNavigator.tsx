@@ -2,12 +2,21 @@ import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import MainTabNavigator from "@/navigation/MainTabNavigator";
 import BluetoothScanScreen from "@/screens/BluetoothScanScreen";
+import GattExplorerScreen from "@/screens/GattExplorerScreen";
+import FirmwareUpdateScreen from "@/screens/FirmwareUpdateScreen";
+import DeviceProfilesScreen from "@/screens/DeviceProfilesScreen";
+import TerminalScreen from "@/screens/TerminalScreen";
+import { PairingPrompt } from "@/components/PairingPrompt";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { SensorProvider } from "@/contexts/SensorContext";
 
 export type RootStackParamList = {
   Main: undefined;
   BluetoothScan: undefined;
+  GattExplorer: { deviceId: string };
+  FirmwareUpdate: { deviceId: string };
+  DeviceProfiles: undefined;
+  Terminal: { deviceId: string };
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -31,7 +40,36 @@ export default function RootStackNavigator() {
             headerTitle: "Bluetooth Devices",
           }}
         />
+        <Stack.Screen
+          name="GattExplorer"
+          component={GattExplorerScreen}
+          options={{
+            headerTitle: "GATT Explorer",
+          }}
+        />
+        <Stack.Screen
+          name="FirmwareUpdate"
+          component={FirmwareUpdateScreen}
+          options={{
+            headerTitle: "Firmware Update",
+          }}
+        />
+        <Stack.Screen
+          name="DeviceProfiles"
+          component={DeviceProfilesScreen}
+          options={{
+            headerTitle: "Device Profiles",
+          }}
+        />
+        <Stack.Screen
+          name="Terminal"
+          component={TerminalScreen}
+          options={{
+            headerTitle: "Terminal",
+          }}
+        />
       </Stack.Navigator>
+      <PairingPrompt />
     </SensorProvider>
   );
 }
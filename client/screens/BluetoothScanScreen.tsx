@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   StyleSheet,
   View,
@@ -6,178 +6,440 @@ import {
   Pressable,
   ActivityIndicator,
   Platform,
+  Switch,
+  TextInput,
+  Share,
 } from "react-native";
 import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 
 import { useTheme } from "@/hooks/useTheme";
 import { useSensor } from "@/contexts/SensorContext";
+import { useBondStatus } from "@/hooks/useBonds";
 import { Spacing, BorderRadius, SensorColors } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
-import { BleService, BleDevice } from "@/services/BleService";
+import { AdapterBanner } from "@/components/AdapterBanner";
+import {
+  BleDevice,
+  ScanFilter,
+  estimateDistance,
+  isAdapterBlocked,
+  matchesScanFilter,
+} from "@/services/BleService";
+import {
+  describeConnectionStatus,
+  isLinkActive,
+  isReceivingData,
+} from "@/services/ConnectionStateMachine";
+import { describeDeviceInfo } from "@/services/DeviceInformation";
+import { ConnectionQuality, describeRssiTrend } from "@/services/ConnectionQuality";
+import { countFramingErrors } from "@/services/MessageFraming";
+import { BondStatus } from "@/services/Bonding";
+import { SessionRecorder } from "@/services/SessionRecorder";
+import { DeviceSensorData } from "@/hooks/useSensorData";
+import { toHex } from "@/lib/bytes";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
 
-interface DeviceItem {
-  id: string;
-  name: string;
-  rssi: number;
-  type: "simulated" | "real";
-}
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+type SortOrder = "signal" | "name";
+
+// Long enough that typing a filter restarts the scan once rather than per keystroke.
+const SCAN_RESTART_DELAY_MS = 400;
 
-const SIMULATED_DEVICES: DeviceItem[] = [
-  { id: "sim-1", name: "Simulated Sensor A", rssi: -35, type: "simulated" },
-  { id: "sim-2", name: "Simulated Sensor B", rssi: -42, type: "simulated" },
-  { id: "sim-3", name: "Demo Lab Monitor", rssi: -55, type: "simulated" },
+const MIN_RSSI_OPTIONS: { label: string; value: number | undefined }[] = [
+  { label: "Any", value: undefined },
+  { label: "-60", value: -60 },
+  { label: "-70", value: -70 },
+  { label: "-80", value: -80 },
 ];
 
+interface FilterChipProps {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+}
+
+function FilterChip({ label, active, onPress }: FilterChipProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={[
+        styles.filterChip,
+        { backgroundColor: active ? theme.tabIconSelected : theme.backgroundSecondary },
+      ]}
+    >
+      <ThemedText style={[styles.filterChipText, { color: active ? "#FFFFFF" : theme.text }]}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+interface AdvertisementDetailsProps {
+  device: BleDevice;
+}
+
+function AdvertisementDetails({ device }: AdvertisementDetailsProps) {
+  const { theme } = useTheme();
+
+  const rows: [string, string][] = [
+    ["RSSI", `${device.rssi} dBm`],
+    ["TX power", device.txPowerLevel !== null ? `${device.txPowerLevel} dBm` : "Not advertised"],
+    ["Distance", `~${estimateDistance(device.rssi, device.txPowerLevel).toFixed(1)} m`],
+    ["Connectable", device.isConnectable ? "Yes" : "No"],
+    ["Services", device.serviceUUIDs.length > 0 ? device.serviceUUIDs.join("\n") : "None"],
+    ["Manufacturer", device.manufacturerData ? toHex(device.manufacturerData) : "None"],
+    ["Address", device.id],
+  ];
+
+  return (
+    <View style={[styles.advertisement, { backgroundColor: theme.backgroundSecondary }]}>
+      {rows.map(([label, value]) => (
+        <View key={label} style={styles.advertisementRow}>
+          <ThemedText style={[styles.advertisementLabel, { color: theme.textSecondary }]}>
+            {label}
+          </ThemedText>
+          <ThemedText style={styles.advertisementValue} selectable>
+            {value}
+          </ThemedText>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+interface ConnectionHealthPanelProps {
+  quality: ConnectionQuality;
+}
+
+const BOND_LABELS: Record<BondStatus, string> = {
+  none: "Not paired",
+  pairing: "Pairing...",
+  bonded: "Paired",
+  failed: "Pairing failed",
+};
+
+const RSSI_FLOOR = -100;
+const RSSI_CEILING = -30;
+const RSSI_BAR_HEIGHT = 24;
+
+function ConnectionHealthPanel({ quality }: ConnectionHealthPanelProps) {
+  const { theme } = useTheme();
+  const trend = describeRssiTrend(quality.rssiHistory);
+
+  const metrics: [string, string][] = [
+    ["RSSI", quality.rssi !== null ? `${quality.rssi} dBm` : "--"],
+    ["Packets/s", quality.packetsPerSecond.toFixed(1)],
+    ["Jitter", quality.jitterMs !== null ? `${Math.round(quality.jitterMs)} ms` : "--"],
+    ["Loss", quality.lossPercent !== null ? `${quality.lossPercent.toFixed(1)}%` : "n/a"],
+  ];
+
+  return (
+    <View style={[styles.healthPanel, { backgroundColor: theme.backgroundSecondary }]}>
+      <View style={styles.healthMetrics}>
+        {metrics.map(([label, value]) => (
+          <View key={label} style={styles.healthMetric}>
+            <ThemedText style={styles.healthValue}>{value}</ThemedText>
+            <ThemedText style={[styles.healthLabel, { color: theme.textSecondary }]}>
+              {label}
+            </ThemedText>
+          </View>
+        ))}
+      </View>
+      {quality.rssiHistory.length > 1 ? (
+        <View style={styles.rssiTrend}>
+          <View style={styles.rssiBars}>
+            {quality.rssiHistory.map((rssi, index) => {
+              const level = (rssi - RSSI_FLOOR) / (RSSI_CEILING - RSSI_FLOOR);
+              return (
+                <View
+                  key={index}
+                  style={[
+                    styles.rssiBar,
+                    {
+                      height: Math.max(2, Math.min(level, 1) * RSSI_BAR_HEIGHT),
+                      backgroundColor: SensorColors.voltage,
+                    },
+                  ]}
+                />
+              );
+            })}
+          </View>
+          <ThemedText style={[styles.healthLabel, { color: theme.textSecondary }]}>
+            Signal {trend}
+          </ThemedText>
+        </View>
+      ) : null}
+      {quality.packetsLost > 0 ? (
+        <ThemedText style={[styles.healthLabel, { color: theme.textSecondary }]}>
+          {quality.packetsLost} of {quality.packetsReceived + quality.packetsLost} packets lost
+        </ThemedText>
+      ) : null}
+      {quality.framing && countFramingErrors(quality.framing) > 0 ? (
+        <ThemedText style={[styles.healthLabel, { color: theme.textSecondary }]}>
+          {quality.framing.crcErrors} CRC, {quality.framing.lengthErrors} length and{" "}
+          {quality.framing.timeouts} incomplete frame errors ({quality.framing.frames} frames ok)
+        </ThemedText>
+      ) : null}
+      {quality.polling ? (
+        <ThemedText style={[styles.healthLabel, { color: theme.textSecondary }]}>
+          Polled {quality.polling.reads} reads, {quality.polling.failures} failed
+          {quality.polling.timeouts > 0 ? ` (${quality.polling.timeouts} timed out)` : ""}
+          {quality.polling.failedCycles > 0 ? `, backing off: ${quality.polling.lastError}` : ""}
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+}
+
+interface ConnectedDeviceCardProps {
+  device: DeviceSensorData;
+  onDisconnect: () => void;
+  onExplore?: () => void;
+  onSaveSession?: () => void;
+}
+
+function ConnectedDeviceCard({
+  device,
+  onDisconnect,
+  onExplore,
+  onSaveSession,
+}: ConnectedDeviceCardProps) {
+  const { theme } = useTheme();
+  const { connection } = device;
+  const isSubscribed = isReceivingData(connection.status);
+  const isBeacon = connection.status === "listening";
+  const infoSummary = device.deviceInfo ? describeDeviceInfo(device.deviceInfo) : null;
+  const bondStatus = useBondStatus(device.deviceId);
+
+  return (
+    <View
+      style={[
+        styles.connectedCard,
+        { backgroundColor: theme.cardBackground, borderColor: theme.border },
+      ]}
+    >
+      <View style={styles.connectedHeader}>
+        <View
+          style={[
+            styles.deviceIcon,
+            {
+              backgroundColor: isSubscribed
+                ? SensorColors.connected
+                : SensorColors.current,
+            },
+          ]}
+        >
+          <Feather
+            name={isBeacon ? "radio" : isSubscribed ? "check" : "refresh-cw"}
+            size={20}
+            color="#FFFFFF"
+          />
+        </View>
+        <View style={styles.deviceInfo}>
+          <ThemedText style={styles.deviceName}>
+            {connection.deviceName || "Connected Device"}
+          </ThemedText>
+          {isSubscribed ? (
+            <ThemedText
+              style={[styles.deviceSignal, { color: SensorColors.connected }]}
+            >
+              {isBeacon ? "Listening" : "Connected"} -{" "}
+              {connection.simulated
+                ? "Simulated Data"
+                : isBeacon
+                ? "Beacon Broadcasts"
+                : "Real Data"}
+            </ThemedText>
+          ) : (
+            <ThemedText
+              style={[styles.deviceSignal, { color: SensorColors.current }]}
+            >
+              {describeConnectionStatus(connection)}...
+            </ThemedText>
+          )}
+          {infoSummary ? (
+            <ThemedText style={[styles.deviceInfoText, { color: theme.textSecondary }]}>
+              {infoSummary}
+            </ThemedText>
+          ) : null}
+          {bondStatus !== "none" ? (
+            <View style={styles.bondRow}>
+              <Feather
+                name={bondStatus === "failed" ? "unlock" : "lock"}
+                size={12}
+                color={bondStatus === "failed" ? SensorColors.disconnected : theme.textSecondary}
+              />
+              <ThemedText style={[styles.deviceInfoText, { color: theme.textSecondary }]}>
+                {BOND_LABELS[bondStatus]}
+              </ThemedText>
+            </View>
+          ) : null}
+        </View>
+      </View>
+      {device.quality && connection.status === "subscribed" ? (
+        <ConnectionHealthPanel quality={device.quality} />
+      ) : null}
+      <View style={styles.connectedActions}>
+        {onExplore && connection.status === "subscribed" ? (
+          <Pressable
+            onPress={onExplore}
+            style={[
+              styles.disconnectButton,
+              { backgroundColor: theme.tabIconSelected },
+            ]}
+          >
+            <ThemedText style={styles.disconnectText}>Explore GATT</ThemedText>
+          </Pressable>
+        ) : null}
+        {onSaveSession && connection.status === "subscribed" ? (
+          <Pressable
+            onPress={onSaveSession}
+            style={[
+              styles.disconnectButton,
+              { backgroundColor: theme.tabIconSelected },
+            ]}
+          >
+            <ThemedText style={styles.disconnectText}>Save Session</ThemedText>
+          </Pressable>
+        ) : null}
+        <Pressable
+          onPress={onDisconnect}
+          style={[
+            styles.disconnectButton,
+            { backgroundColor: SensorColors.disconnected },
+          ]}
+        >
+          <ThemedText style={styles.disconnectText}>
+            {connection.status === "reconnecting"
+            ? "Stop Reconnecting"
+            : isBeacon
+            ? "Stop Listening"
+            : "Disconnect"}
+          </ThemedText>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
 export default function BluetoothScanScreen() {
-  const navigation = useNavigation();
+  const navigation = useNavigation<NavigationProp>();
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
   const {
-    isConnected,
-    connectionMode,
-    connectedDeviceName,
-    startSimulation,
-    stopSimulation,
-    connectToRealDevice,
-    disconnectRealDevice,
-    updateRealReading,
+    deviceList,
+    isScanning,
+    transport,
+    discoveredDevices: devices,
+    transportAvailable,
+    transportError,
+    adapterState,
+    beaconListening: beaconMode,
+    startDiscovery,
+    stopDiscovery,
+    connectDevice,
+    disconnectDevice,
+    setBeaconListening,
   } = useSensor();
 
-  const [isScanning, setIsScanning] = useState(false);
-  const [devices, setDevices] = useState<DeviceItem[]>([]);
+  // The adapter banner already explains scans failing while Bluetooth is unavailable.
+  const adapterBlocked = isAdapterBlocked(adapterState);
+  const bleError = adapterBlocked ? null : transportError;
+  const activeDevices = deviceList.filter((device) => isLinkActive(device.connection.status));
+  const isSimulated = transport.kind === "simulated";
   const [connectingId, setConnectingId] = useState<string | null>(null);
-  const [bleError, setBleError] = useState<string | null>(null);
-  const [bleAvailable, setBleAvailable] = useState<boolean | null>(null);
-
-  const initializeBle = useCallback(async () => {
-    if (connectionMode === "real") {
-      const initialized = await BleService.initialize();
-      setBleAvailable(initialized);
-      if (!initialized) {
-        setBleError(BleService.getInitError() || "Bluetooth not available");
-      }
-    }
-  }, [connectionMode]);
+  const [showFilters, setShowFilters] = useState(false);
+  const [namePrefix, setNamePrefix] = useState("");
+  const [serviceFilter, setServiceFilter] = useState("");
+  const [minRssi, setMinRssi] = useState<number | undefined>(undefined);
+  const [includeUnnamed, setIncludeUnnamed] = useState(false);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("signal");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
 
-  useEffect(() => {
-    initializeBle();
-
-    BleService.setCallbacks({
-      onDeviceFound: (device: BleDevice) => {
-        setDevices((prev) => {
-          const exists = prev.some((d) => d.id === device.id);
-          if (exists) {
-            return prev.map((d) =>
-              d.id === device.id ? { ...d, rssi: device.rssi } : d
-            );
-          }
-          return [
-            ...prev,
-            {
-              id: device.id,
-              name: device.name,
-              rssi: device.rssi,
-              type: "real" as const,
-            },
-          ];
-        });
-      },
-      onConnectionStateChange: (connected, deviceName) => {
-        if (connected && deviceName) {
-          connectToRealDevice(deviceName);
-        } else {
-          disconnectRealDevice();
-        }
-      },
-      onDataReceived: (reading) => {
-        updateRealReading(reading);
-      },
-      onError: (error) => {
-        setBleError(error);
-        setIsScanning(false);
-      },
-    });
+  const serviceUUID = serviceFilter.trim();
+  const trimmedPrefix = namePrefix.trim();
+  const scanFilter = useMemo<ScanFilter>(
+    () => ({
+      serviceUUIDs: serviceUUID ? [serviceUUID] : undefined,
+      namePrefix: trimmedPrefix || undefined,
+      minRssi,
+      includeUnnamed,
+    }),
+    [serviceUUID, trimmedPrefix, minRssi, includeUnnamed]
+  );
 
-    return () => {
-      BleService.stopScan();
-    };
-  }, [connectionMode, connectToRealDevice, disconnectRealDevice, updateRealReading, initializeBle]);
+  const visibleDevices = devices
+    .filter((device) => matchesScanFilter(device, scanFilter))
+    .sort((a, b) =>
+      sortOrder === "signal"
+        ? b.rssi - a.rssi
+        : (a.name || "~").localeCompare(b.name || "~")
+    );
 
   const startScan = async () => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    setIsScanning(true);
-    setDevices([]);
-    setBleError(null);
-
-    if (connectionMode === "simulated") {
-      setTimeout(() => {
-        setDevices(SIMULATED_DEVICES);
-        setIsScanning(false);
-      }, 1500);
-    } else {
-      if (Platform.OS === "web") {
-        setBleError("Bluetooth is not available on web. Please use a custom build on your mobile device.");
-        setIsScanning(false);
-        return;
-      }
-
-      if (bleAvailable === null) {
-        const initialized = await BleService.initialize();
-        setBleAvailable(initialized);
-        if (!initialized) {
-          setBleError(BleService.getInitError() || "Real Bluetooth requires a custom build with react-native-ble-plx. Please build the app using 'eas build' to enable this feature.");
-          setIsScanning(false);
-          return;
-        }
-      } else if (bleAvailable === false) {
-        setBleError("Real Bluetooth requires a custom build with react-native-ble-plx. Please build the app using 'eas build' to enable this feature.");
-        setIsScanning(false);
-        return;
-      }
-
-      await BleService.startScan(10000);
-      setTimeout(() => {
-        setIsScanning(false);
-      }, 10000);
-    }
+    await startDiscovery(scanFilter);
   };
 
+  // Bluetooth scans on open and restarts whenever the filter changes, so the
+  // transport-level filter always matches what the panel shows. Other transports only
+  // discover on request; for replay that opens the file picker.
+  const scansContinuously = transport.kind === "ble";
   useEffect(() => {
-    startScan();
-  }, [connectionMode]);
+    if (!scansContinuously) return;
+    const timer = setTimeout(() => {
+      startDiscovery(scanFilter);
+    }, SCAN_RESTART_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      stopDiscovery();
+    };
+  }, [scansContinuously, scanFilter, startDiscovery, stopDiscovery]);
 
-  const handleDevicePress = async (device: DeviceItem) => {
+  useEffect(() => stopDiscovery, [stopDiscovery]);
+
+  const handleBeaconModeChange = async (enabled: boolean) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    await setBeaconListening(enabled, scanFilter);
+  };
+
+  const handleDevicePress = async (device: BleDevice) => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     setConnectingId(device.id);
 
-    if (device.type === "simulated") {
-      setTimeout(async () => {
-        startSimulation(device.name);
-        setConnectingId(null);
-        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-        navigation.goBack();
-      }, 1500);
+    const success = await connectDevice(device.id, device.name);
+    setConnectingId(null);
+    if (success) {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      navigation.goBack();
     } else {
-      const success = await BleService.connectToDevice(device.id);
-      setConnectingId(null);
-      if (success) {
-        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-        navigation.goBack();
-      } else {
-        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      }
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     }
   };
 
-  const handleDisconnect = async () => {
+  const handleDisconnect = async (device: DeviceSensorData) => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    if (connectionMode === "simulated") {
-      stopSimulation();
-    } else {
-      await BleService.disconnect();
+    await disconnectDevice(device.deviceId);
+  };
+
+  // Shares the readings and link health recorded so far as a file the replay source can load.
+  const handleSaveSession = async (device: DeviceSensorData) => {
+    const json = SessionRecorder.exportJson(device.deviceId);
+    if (!json) return;
+    try {
+      await Share.share({
+        message: json,
+        title: `${device.connection.deviceName || device.deviceId} session`,
+      });
+    } catch (error) {
+      console.log("Failed to share session:", error);
     }
   };
 
@@ -188,83 +450,90 @@ export default function BluetoothScanScreen() {
     return "Weak";
   };
 
-  const renderDevice = ({ item }: { item: DeviceItem }) => {
+  const renderDevice = ({ item }: { item: BleDevice }) => {
     const isConnecting = connectingId === item.id;
+    const isAlreadyConnected = activeDevices.some((device) => device.deviceId === item.id);
+    const isExpanded = expandedId === item.id;
 
     return (
-      <Pressable
-        onPress={() => handleDevicePress(item)}
-        disabled={isConnecting || isConnected}
-        style={({ pressed }) => [
-          styles.deviceRow,
-          {
-            backgroundColor: pressed
-              ? theme.backgroundSecondary
-              : theme.cardBackground,
-            opacity: isConnected && !isConnecting ? 0.5 : 1,
-          },
-        ]}
-      >
-        <View
-          style={[
-            styles.deviceIcon,
+      <View>
+        <Pressable
+          onPress={() => handleDevicePress(item)}
+          disabled={isConnecting || isAlreadyConnected}
+          style={({ pressed }) => [
+            styles.deviceRow,
             {
-              backgroundColor:
-                item.type === "simulated"
-                  ? SensorColors.voltage
-                  : theme.tabIconSelected,
+              backgroundColor: pressed
+                ? theme.backgroundSecondary
+                : theme.cardBackground,
+              opacity: isAlreadyConnected ? 0.5 : 1,
             },
           ]}
         >
-          <Feather
-            name={item.type === "simulated" ? "activity" : "cpu"}
-            size={20}
-            color="#FFFFFF"
-          />
-        </View>
-        <View style={styles.deviceInfo}>
-          <ThemedText style={styles.deviceName}>{item.name}</ThemedText>
-          <View style={styles.deviceMeta}>
-            <ThemedText style={[styles.deviceSignal, { color: theme.textSecondary }]}>
-              Signal: {getSignalStrength(item.rssi)}
-            </ThemedText>
-            <View
-              style={[
-                styles.deviceTypeBadge,
-                {
-                  backgroundColor:
-                    item.type === "simulated"
-                      ? SensorColors.voltage + "20"
-                      : theme.tabIconSelected + "20",
-                },
-              ]}
-            >
-              <ThemedText
+          <View
+            style={[
+              styles.deviceIcon,
+              {
+                backgroundColor: isSimulated
+                  ? SensorColors.voltage
+                  : theme.tabIconSelected,
+              },
+            ]}
+          >
+            <Feather
+              name={isSimulated ? "activity" : "cpu"}
+              size={20}
+              color="#FFFFFF"
+            />
+          </View>
+          <View style={styles.deviceInfo}>
+            <ThemedText style={styles.deviceName}>{item.name || "Unnamed Device"}</ThemedText>
+            <View style={styles.deviceMeta}>
+              <ThemedText style={[styles.deviceSignal, { color: theme.textSecondary }]}>
+                Signal: {getSignalStrength(item.rssi)} ({item.rssi} dBm)
+              </ThemedText>
+              <View
                 style={[
-                  styles.deviceTypeText,
+                  styles.deviceTypeBadge,
                   {
-                    color:
-                      item.type === "simulated"
-                        ? SensorColors.voltage
-                        : theme.tabIconSelected,
+                    backgroundColor: isSimulated
+                      ? SensorColors.voltage + "20"
+                      : theme.tabIconSelected + "20",
                   },
                 ]}
               >
-                {item.type === "simulated" ? "Simulated" : "Real BLE"}
-              </ThemedText>
+                <ThemedText
+                  style={[
+                    styles.deviceTypeText,
+                    {
+                      color: isSimulated
+                        ? SensorColors.voltage
+                        : theme.tabIconSelected,
+                    },
+                  ]}
+                >
+                  {transport.label}
+                </ThemedText>
+              </View>
             </View>
           </View>
-        </View>
-        {isConnecting ? (
-          <ActivityIndicator color={theme.tabIconSelected} />
-        ) : (
-          <Feather
-            name="chevron-right"
-            size={20}
-            color={theme.textSecondary}
-          />
-        )}
-      </Pressable>
+          {isConnecting ? (
+            <ActivityIndicator color={theme.tabIconSelected} />
+          ) : (
+            <Pressable
+              onPress={() => setExpandedId(isExpanded ? null : item.id)}
+              hitSlop={8}
+            >
+              <Feather
+                name={isExpanded ? "chevron-up" : "chevron-down"}
+                size={20}
+                color={theme.textSecondary}
+              />
+            </Pressable>
+          )}
+        </Pressable>
+        {isExpanded ? <AdvertisementDetails device={item} /> : null}
+      </View>
     );
   };
 
@@ -274,109 +543,201 @@ export default function BluetoothScanScreen() {
         style={[
           styles.modeIndicator,
           {
-            backgroundColor:
-              connectionMode === "simulated"
-                ? SensorColors.voltage + "15"
-                : theme.tabIconSelected + "15",
-            borderColor:
-              connectionMode === "simulated"
-                ? SensorColors.voltage + "30"
-                : theme.tabIconSelected + "30",
+            backgroundColor: isSimulated
+              ? SensorColors.voltage + "15"
+              : theme.tabIconSelected + "15",
+            borderColor: isSimulated
+              ? SensorColors.voltage + "30"
+              : theme.tabIconSelected + "30",
           },
         ]}
       >
         <Feather
-          name={connectionMode === "simulated" ? "activity" : "bluetooth"}
+          name={transport.icon}
           size={16}
-          color={
-            connectionMode === "simulated"
-              ? SensorColors.voltage
-              : theme.tabIconSelected
-          }
+          color={isSimulated ? SensorColors.voltage : theme.tabIconSelected}
         />
         <ThemedText
           style={[
             styles.modeIndicatorText,
             {
-              color:
-                connectionMode === "simulated"
-                  ? SensorColors.voltage
-                  : theme.tabIconSelected,
+              color: isSimulated
+                ? SensorColors.voltage
+                : theme.tabIconSelected,
             },
           ]}
         >
-          {connectionMode === "simulated"
-            ? "Simulated Mode - Test data will be generated"
-            : bleAvailable
-            ? "Real Bluetooth Mode - Scanning for BLE devices"
-            : "Real Bluetooth Mode - Requires custom build"}
+          {transport.title} -{" "}
+          {transportAvailable === false ? "Unavailable" : transport.description}
         </ThemedText>
       </View>
 
-      {isConnected ? (
-        <View style={styles.connectedSection}>
-          <View
-            style={[
-              styles.connectedCard,
-              { backgroundColor: theme.cardBackground, borderColor: theme.border },
-            ]}
-          >
-            <View style={styles.connectedHeader}>
-              <View
-                style={[
-                  styles.deviceIcon,
-                  { backgroundColor: SensorColors.connected },
-                ]}
-              >
-                <Feather name="check" size={20} color="#FFFFFF" />
-              </View>
-              <View style={styles.deviceInfo}>
-                <ThemedText style={styles.deviceName}>
-                  {connectedDeviceName || "Connected Device"}
-                </ThemedText>
-                <ThemedText
-                  style={[styles.deviceSignal, { color: SensorColors.connected }]}
-                >
-                  Connected - {connectionMode === "simulated" ? "Simulated Data" : "Real Data"}
-                </ThemedText>
-              </View>
-            </View>
-            <Pressable
-              onPress={handleDisconnect}
-              style={[
-                styles.disconnectButton,
-                { backgroundColor: SensorColors.disconnected },
-              ]}
-            >
-              <ThemedText style={styles.disconnectText}>Disconnect</ThemedText>
-            </Pressable>
+      {adapterBlocked ? (
+        <View style={styles.adapterBanner}>
+          <AdapterBanner state={adapterState} />
+        </View>
+      ) : null}
+
+      {transport.startBeaconListening ? (
+        <View
+          style={[
+            styles.beaconRow,
+            { backgroundColor: theme.cardBackground, borderColor: theme.border },
+          ]}
+        >
+          <Feather name="radio" size={18} color={theme.tabIconSelected} />
+          <View style={styles.deviceInfo}>
+            <ThemedText style={styles.beaconTitle}>Beacon Mode</ThemedText>
+            <ThemedText style={[styles.deviceSignal, { color: theme.textSecondary }]}>
+              Read broadcasting sensors without connecting
+            </ThemedText>
           </View>
+          <Switch
+            value={beaconMode}
+            onValueChange={handleBeaconModeChange}
+            trackColor={{
+              false: theme.backgroundSecondary,
+              true: SensorColors.connected,
+            }}
+          />
+        </View>
+      ) : null}
+
+      {activeDevices.length > 0 ? (
+        <View style={styles.connectedSection}>
+          {activeDevices.map((device) => (
+            <ConnectedDeviceCard
+              key={device.deviceId}
+              device={device}
+              onDisconnect={() => handleDisconnect(device)}
+              onExplore={
+                transport.kind === "ble" && Platform.OS !== "web"
+                  ? () => navigation.navigate("GattExplorer", { deviceId: device.deviceId })
+                  : undefined
+              }
+              onSaveSession={
+                transport.kind !== "replay"
+                  ? () => handleSaveSession(device)
+                  : undefined
+              }
+            />
+          ))}
         </View>
-      ) : (
-        <>
+      ) : null}
+
           <View style={styles.header}>
             <ThemedText style={[styles.headerText, { color: theme.textSecondary }]}>
               {isScanning
                 ? "Scanning for nearby devices..."
                 : bleError
                 ? "Scan complete"
-                : `${devices.length} device${devices.length !== 1 ? "s" : ""} found`}
+                : visibleDevices.length === devices.length
+                ? `${devices.length} device${devices.length !== 1 ? "s" : ""} found`
+                : `${visibleDevices.length} of ${devices.length} devices shown`}
             </ThemedText>
-            <Pressable
-              onPress={startScan}
-              disabled={isScanning}
+            <View style={styles.headerButtons}>
+              <Pressable
+                onPress={() => setShowFilters(!showFilters)}
+                style={[
+                  styles.scanButton,
+                  {
+                    backgroundColor: showFilters
+                      ? theme.tabIconSelected
+                      : theme.backgroundSecondary,
+                  },
+                ]}
+              >
+                <Feather
+                  name="filter"
+                  size={18}
+                  color={showFilters ? "#FFFFFF" : theme.text}
+                />
+              </Pressable>
+              <Pressable
+                onPress={startScan}
+                disabled={isScanning}
+                style={[
+                  styles.scanButton,
+                  { backgroundColor: theme.tabIconSelected },
+                ]}
+              >
+                {isScanning ? (
+                  <ActivityIndicator color="#FFFFFF" size="small" />
+                ) : (
+                  <Feather name="refresh-cw" size={18} color="#FFFFFF" />
+                )}
+              </Pressable>
+            </View>
+          </View>
+
+          {showFilters ? (
+            <View
               style={[
-                styles.scanButton,
-                { backgroundColor: theme.tabIconSelected },
+                styles.filterPanel,
+                { backgroundColor: theme.cardBackground, borderColor: theme.border },
               ]}
             >
-              {isScanning ? (
-                <ActivityIndicator color="#FFFFFF" size="small" />
-              ) : (
-                <Feather name="refresh-cw" size={18} color="#FFFFFF" />
-              )}
-            </Pressable>
-          </View>
+              <TextInput
+                value={namePrefix}
+                onChangeText={setNamePrefix}
+                placeholder="Name starts with..."
+                placeholderTextColor={theme.textSecondary}
+                autoCorrect={false}
+                style={[styles.filterInput, { color: theme.text, borderColor: theme.border }]}
+              />
+              <TextInput
+                value={serviceFilter}
+                onChangeText={setServiceFilter}
+                placeholder="Advertised service UUID (e.g. 180F)"
+                placeholderTextColor={theme.textSecondary}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                onSubmitEditing={startScan}
+                style={[styles.filterInput, { color: theme.text, borderColor: theme.border }]}
+              />
+              <View style={styles.filterRow}>
+                <ThemedText style={[styles.filterLabel, { color: theme.textSecondary }]}>
+                  Min RSSI
+                </ThemedText>
+                {MIN_RSSI_OPTIONS.map((option) => (
+                  <FilterChip
+                    key={option.label}
+                    label={option.label}
+                    active={minRssi === option.value}
+                    onPress={() => setMinRssi(option.value)}
+                  />
+                ))}
+              </View>
+              <View style={styles.filterRow}>
+                <ThemedText style={[styles.filterLabel, { color: theme.textSecondary }]}>
+                  Sort by
+                </ThemedText>
+                <FilterChip
+                  label="Signal"
+                  active={sortOrder === "signal"}
+                  onPress={() => setSortOrder("signal")}
+                />
+                <FilterChip
+                  label="Name"
+                  active={sortOrder === "name"}
+                  onPress={() => setSortOrder("name")}
+                />
+              </View>
+              <View style={styles.filterRow}>
+                <ThemedText style={[styles.filterLabel, { color: theme.textSecondary }]}>
+                  Show unnamed devices
+                </ThemedText>
+                <Switch
+                  value={includeUnnamed}
+                  onValueChange={setIncludeUnnamed}
+                  trackColor={{
+                    false: theme.backgroundSecondary,
+                    true: SensorColors.connected,
+                  }}
+                />
+              </View>
+            </View>
+          ) : null}
 
           {bleError ? (
             <View
@@ -389,7 +750,7 @@ export default function BluetoothScanScreen() {
               <ThemedText style={[styles.errorText, { color: theme.text }]}>
                 {bleError}
               </ThemedText>
-              {connectionMode === "real" ? (
+              {transport.kind === "ble" && Platform.OS !== "web" && transportAvailable === false ? (
                 <View style={styles.errorHintContainer}>
                   <ThemedText style={[styles.errorHint, { color: theme.textSecondary }]}>
                     To enable real Bluetooth:
@@ -412,7 +773,7 @@ export default function BluetoothScanScreen() {
           ) : null}
 
           <FlatList
-            data={devices}
+            data={visibleDevices}
             keyExtractor={(item) => item.id}
             renderItem={renderDevice}
             contentContainerStyle={{
@@ -449,10 +810,8 @@ export default function BluetoothScanScreen() {
               ) : null
             }
           />
-        </>
-      )}
 
-      {Platform.OS === "web" && connectionMode === "real" ? (
+      {Platform.OS === "web" && transport.kind === "ble" && transportAvailable === false ? (
         <View
           style={[
             styles.webNotice,
@@ -461,7 +820,7 @@ export default function BluetoothScanScreen() {
         >
           <Feather name="info" size={16} color={theme.textSecondary} />
           <ThemedText style={[styles.webNoticeText, { color: theme.textSecondary }]}>
-            Real Bluetooth requires running on a physical device with a custom build
+            Bluetooth on the web requires Chrome or Edge and an HTTPS connection
           </ThemedText>
         </View>
       ) : null}
@@ -483,6 +842,24 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     gap: Spacing.sm,
   },
+  adapterBanner: {
+    marginHorizontal: Spacing.lg,
+    marginTop: Spacing.md,
+  },
+  beaconRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginHorizontal: Spacing.lg,
+    marginTop: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+    gap: Spacing.md,
+  },
+  beaconTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
   modeIndicatorText: {
     fontSize: 13,
     fontWeight: "500",
@@ -498,6 +875,10 @@ const styles = StyleSheet.create({
   headerText: {
     fontSize: 14,
   },
+  headerButtons: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
   scanButton: {
     width: 36,
     height: 36,
@@ -535,6 +916,15 @@ const styles = StyleSheet.create({
   deviceSignal: {
     fontSize: 13,
   },
+  deviceInfoText: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  bondRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
   deviceTypeBadge: {
     paddingHorizontal: Spacing.sm,
     paddingVertical: 2,
@@ -544,6 +934,58 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: "600",
   },
+  filterPanel: {
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    gap: Spacing.sm,
+  },
+  filterInput: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 14,
+  },
+  filterRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  filterLabel: {
+    fontSize: 13,
+    flex: 1,
+  },
+  filterChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  filterChipText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  advertisement: {
+    marginLeft: 68,
+    marginBottom: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.xs,
+  },
+  advertisementRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  advertisementLabel: {
+    fontSize: 12,
+    width: 90,
+  },
+  advertisementValue: {
+    fontSize: 12,
+    flex: 1,
+  },
   separator: {
     height: 1,
     marginLeft: 68,
@@ -565,6 +1007,8 @@ const styles = StyleSheet.create({
   },
   connectedSection: {
     padding: Spacing.lg,
+    paddingBottom: 0,
+    gap: Spacing.md,
   },
   connectedCard: {
     padding: Spacing.lg,
@@ -577,7 +1021,47 @@ const styles = StyleSheet.create({
     alignItems: "center",
     gap: Spacing.md,
   },
+  connectedActions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  healthPanel: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.sm,
+  },
+  healthMetrics: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  healthMetric: {
+    alignItems: "flex-start",
+  },
+  healthValue: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  healthLabel: {
+    fontSize: 12,
+  },
+  rssiTrend: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: Spacing.sm,
+  },
+  rssiBars: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "flex-end",
+    height: RSSI_BAR_HEIGHT,
+    gap: 2,
+  },
+  rssiBar: {
+    flex: 1,
+    borderRadius: 1,
+  },
   disconnectButton: {
+    flex: 1,
     paddingVertical: Spacing.md,
     borderRadius: BorderRadius.xs,
     alignItems: "center",
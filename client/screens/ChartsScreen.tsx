@@ -7,10 +7,14 @@ import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 
 import { useTheme } from "@/hooks/useTheme";
+import { useAssignedProfile } from "@/hooks/useDeviceProfiles";
 import { useSensor } from "@/contexts/SensorContext";
 import { Spacing, SensorColors, BorderRadius } from "@/constants/theme";
 import { LineChart } from "@/components/LineChart";
 import { ThemedText } from "@/components/ThemedText";
+import { ReplayBar } from "@/components/ReplayBar";
+import { isReceivingData } from "@/services/ConnectionStateMachine";
+import { channelDisplayName, channelUnit } from "@/services/DeviceProfiles";
 
 export default function ChartsScreen() {
   const { theme } = useTheme();
@@ -18,7 +22,9 @@ export default function ChartsScreen() {
   const tabBarHeight = useBottomTabBarHeight();
   const insets = useSafeAreaInsets();
 
-  const { voltageHistory, currentHistory, isConnected } = useSensor();
+  const { voltageHistory, currentHistory, connection, selectedDeviceId, transport } = useSensor();
+  const isConnected = isReceivingData(connection.status);
+  const profile = useAssignedProfile(selectedDeviceId);
 
   const handleExport = async () => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -55,10 +61,16 @@ export default function ChartsScreen() {
           </View>
         ) : (
           <>
+            {transport.kind === "replay" && selectedDeviceId ? (
+              <View style={styles.replayBar}>
+                <ReplayBar deviceId={selectedDeviceId} />
+              </View>
+            ) : null}
+
             <LineChart
               data={voltageHistory}
-              title="Voltage"
-              unit="V"
+              title={channelDisplayName(profile, "voltage")}
+              unit={channelUnit(profile, "voltage")}
               color={SensorColors.voltage}
               height={220}
             />
@@ -67,8 +79,8 @@ export default function ChartsScreen() {
 
             <LineChart
               data={currentHistory}
-              title="Current"
-              unit="A"
+              title={channelDisplayName(profile, "current")}
+              unit={channelUnit(profile, "current")}
               color={SensorColors.current}
               height={220}
             />
@@ -98,6 +110,9 @@ const styles = StyleSheet.create({
   chartSpacer: {
     height: Spacing.xl,
   },
+  replayBar: {
+    marginBottom: Spacing.xl,
+  },
   noDataCard: {
     alignItems: "center",
     justifyContent: "center",
@@ -7,10 +7,19 @@ import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 import { useTheme } from "@/hooks/useTheme";
+import { useAssignedProfile } from "@/hooks/useDeviceProfiles";
 import { useSensor } from "@/contexts/SensorContext";
+import { isAdapterBlocked } from "@/services/BleService";
+import { channelDisplayName, channelUnit } from "@/services/DeviceProfiles";
+import { SensorChannel } from "@/services/SensorProtocol";
 import { Spacing } from "@/constants/theme";
 import { SensorCard } from "@/components/SensorCard";
 import { ConnectionBanner } from "@/components/ConnectionBanner";
+import { AdapterBanner } from "@/components/AdapterBanner";
+import { DeviceSwitcher } from "@/components/DeviceSwitcher";
+import { DeviceSummaryCard } from "@/components/DeviceSummaryCard";
+import { ReplayBar } from "@/components/ReplayBar";
+import { HistorySyncBar } from "@/components/HistorySyncBar";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -23,12 +32,26 @@ export default function DashboardScreen() {
   const insets = useSafeAreaInsets();
 
   const {
-    isConnected,
+    connection,
     currentReading,
-    toggleConnection,
+    deviceList,
+    selectedDeviceId,
+    selectDevice,
+    transport,
+    adapterState,
   } = useSensor();
+  const profile = useAssignedProfile(selectedDeviceId);
+
+  // Channels the sensor does not measure arrive as NaN.
+  const channelValue = (channel: SensorChannel): number | null => {
+    const value = currentReading?.[channel];
+    return value !== undefined && Number.isFinite(value) ? value : null;
+  };
 
   const [refreshing, setRefreshing] = React.useState(false);
+  const [showAll, setShowAll] = React.useState(false);
+  const isCombinedView = showAll && deviceList.length > 1;
+  const syncingDevices = deviceList.filter((device) => device.historySync?.status === "syncing");
 
   const onRefresh = React.useCallback(() => {
     setRefreshing(true);
@@ -41,6 +64,11 @@ export default function DashboardScreen() {
     navigation.navigate("BluetoothScan");
   };
 
+  const handleSelectDevice = (deviceId: string) => {
+    setShowAll(false);
+    selectDevice(deviceId);
+  };
+
   return (
     <ScrollView
       style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
@@ -55,48 +83,95 @@ export default function DashboardScreen() {
       }
     >
       <ConnectionBanner
-        isConnected={isConnected}
+        connection={connection}
         onPress={handleConnectionPress}
       />
 
-      <View style={styles.cardsGrid}>
-        <View style={styles.cardRow}>
-          <SensorCard
-            label="Voltage"
-            value={currentReading?.voltage ?? null}
-            unit="V"
-            icon="zap"
-            timestamp={currentReading?.timestamp}
-            colorType="voltage"
-          />
-          <SensorCard
-            label="Current"
-            value={currentReading?.current ?? null}
-            unit="A"
-            icon="battery-charging"
-            timestamp={currentReading?.timestamp}
-            colorType="current"
-          />
+      {isAdapterBlocked(adapterState) ? (
+        <View style={styles.adapterBanner}>
+          <AdapterBanner state={adapterState} />
         </View>
-        <View style={styles.cardRow}>
-          <SensorCard
-            label="Temperature"
-            value={currentReading?.temperature ?? null}
-            unit="C"
-            icon="thermometer"
-            timestamp={currentReading?.timestamp}
-            colorType="temperature"
-          />
-          <SensorCard
-            label="pH Level"
-            value={currentReading?.ph ?? null}
-            unit="pH"
-            icon="droplet"
-            timestamp={currentReading?.timestamp}
-            colorType="ph"
+      ) : null}
+
+      {transport.kind === "replay" && selectedDeviceId && !isCombinedView ? (
+        <View style={styles.replayBar}>
+          <ReplayBar deviceId={selectedDeviceId} />
+        </View>
+      ) : null}
+
+      {syncingDevices.map((device) =>
+        device.historySync ? (
+          <View key={device.deviceId} style={styles.historySync}>
+            <HistorySyncBar
+              progress={device.historySync}
+              deviceName={device.connection.deviceName}
+            />
+          </View>
+        ) : null
+      )}
+
+      {deviceList.length > 0 ? (
+        <View style={styles.switcher}>
+          <DeviceSwitcher
+            devices={deviceList}
+            selectedDeviceId={selectedDeviceId}
+            showAll={isCombinedView}
+            onSelect={handleSelectDevice}
+            onShowAll={() => setShowAll(true)}
           />
         </View>
-      </View>
+      ) : null}
+
+      {isCombinedView ? (
+        <View style={styles.cardsGrid}>
+          {deviceList.map((device) => (
+            <DeviceSummaryCard
+              key={device.deviceId}
+              device={device}
+              onPress={() => handleSelectDevice(device.deviceId)}
+            />
+          ))}
+        </View>
+      ) : (
+        <View style={styles.cardsGrid}>
+          <View style={styles.cardRow}>
+            <SensorCard
+              label={channelDisplayName(profile, "voltage")}
+              value={channelValue("voltage")}
+              unit={channelUnit(profile, "voltage")}
+              icon="zap"
+              timestamp={currentReading?.timestamp}
+              colorType="voltage"
+            />
+            <SensorCard
+              label={channelDisplayName(profile, "current")}
+              value={channelValue("current")}
+              unit={channelUnit(profile, "current")}
+              icon="battery-charging"
+              timestamp={currentReading?.timestamp}
+              colorType="current"
+            />
+          </View>
+          <View style={styles.cardRow}>
+            <SensorCard
+              label={channelDisplayName(profile, "temperature")}
+              value={channelValue("temperature")}
+              unit={channelUnit(profile, "temperature")}
+              icon="thermometer"
+              timestamp={currentReading?.timestamp}
+              colorType="temperature"
+            />
+            <SensorCard
+              label={channelDisplayName(profile, "ph")}
+              value={channelValue("ph")}
+              unit={channelUnit(profile, "ph")}
+              icon="droplet"
+              timestamp={currentReading?.timestamp}
+              colorType="ph"
+            />
+          </View>
+        </View>
+      )}
     </ScrollView>
   );
 }
@@ -105,6 +180,18 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  switcher: {
+    marginTop: Spacing.lg,
+  },
+  adapterBanner: {
+    marginTop: Spacing.lg,
+  },
+  replayBar: {
+    marginTop: Spacing.lg,
+  },
+  historySync: {
+    marginTop: Spacing.lg,
+  },
   cardsGrid: {
     marginTop: Spacing.xl,
     gap: Spacing.md,
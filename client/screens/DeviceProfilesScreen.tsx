@@ -0,0 +1,447 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  View,
+  ScrollView,
+  Pressable,
+  TextInput,
+  Alert,
+  Share,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { useTheme } from "@/hooks/useTheme";
+import { useDeviceProfiles } from "@/hooks/useDeviceProfiles";
+import { Spacing, BorderRadius, SensorColors } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { SENSOR_CHANNELS } from "@/services/SensorProtocol";
+import {
+  DeviceProfile,
+  REFERENCE_PROFILE,
+  channelDisplayName,
+  channelUnit,
+  pickProfilesFile,
+  validateProfile,
+} from "@/services/DeviceProfiles";
+
+interface Status {
+  message: string;
+  ok: boolean;
+}
+
+interface ControlButtonProps {
+  icon: keyof typeof Feather.glyphMap;
+  label: string;
+  color: string;
+  onPress: () => void;
+}
+
+function ControlButton({ icon, label, color, onPress }: ControlButtonProps) {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={[styles.controlButton, { backgroundColor: color }]}
+    >
+      <Feather name={icon} size={16} color="#FFFFFF" />
+      <ThemedText style={styles.controlButtonText}>{label}</ThemedText>
+    </Pressable>
+  );
+}
+
+function shortUuid(uuid: string): string {
+  const match = uuid.match(/^0000([0-9A-F]{4})-0000-1000-8000-00805F9B34FB$/i);
+  return match ? match[1].toUpperCase() : uuid;
+}
+
+function profileTemplate(): string {
+  const { channels, serviceUUID } = REFERENCE_PROFILE;
+  return JSON.stringify(
+    {
+      id: "my-sensor",
+      name: "My sensor",
+      serviceUUID,
+      namePattern: "^MySensor",
+      channels,
+    },
+    null,
+    2,
+  );
+}
+
+function editableJson(profile: DeviceProfile): string {
+  const { builtIn, ...rest } = profile;
+  return JSON.stringify(rest, null, 2);
+}
+
+interface ProfileCardProps {
+  profile: DeviceProfile;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+function ProfileCard({ profile, onEdit, onDelete }: ProfileCardProps) {
+  const { theme } = useTheme();
+  const matchRule = [
+    profile.namePattern ? `Name /${profile.namePattern}/` : null,
+    `Service ${(profile.advertisedServices ?? [profile.serviceUUID]).map(shortUuid).join(", ")}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: theme.cardBackground, borderColor: theme.border },
+      ]}
+    >
+      <View style={styles.cardHeader}>
+        <View style={styles.cardHeaderText}>
+          <ThemedText style={styles.cardTitle}>{profile.name}</ThemedText>
+          <ThemedText
+            style={[styles.cardSubtitle, { color: theme.textSecondary }]}
+          >
+            {profile.builtIn ? "Built-in · " : ""}
+            {matchRule}
+          </ThemedText>
+        </View>
+        <Pressable onPress={onEdit} hitSlop={8}>
+          <Feather
+            name={profile.builtIn ? "copy" : "edit-2"}
+            size={18}
+            color={theme.tabIconSelected}
+          />
+        </Pressable>
+        {!profile.builtIn ? (
+          <Pressable onPress={onDelete} hitSlop={8}>
+            <Feather
+              name="trash-2"
+              size={18}
+              color={SensorColors.disconnected}
+            />
+          </Pressable>
+        ) : null}
+      </View>
+      {SENSOR_CHANNELS.map((channel) => {
+        const mapping = profile.channels[channel];
+        return (
+          <View key={channel} style={styles.channelRow}>
+            <ThemedText style={styles.channelName}>
+              {channelDisplayName(profile, channel)} (
+              {channelUnit(profile, channel)})
+            </ThemedText>
+            {mapping ? (
+              <ThemedText
+                style={[styles.channelDetail, { color: theme.textSecondary }]}
+              >
+                {shortUuid(mapping.characteristicUUID)} · {mapping.decoder}
+                {mapping.byteOffset ? ` @${mapping.byteOffset}` : ""}
+                {mapping.scale !== undefined ? ` ×${mapping.scale}` : ""}
+                {mapping.offset
+                  ? ` ${mapping.offset > 0 ? "+" : ""}${mapping.offset}`
+                  : ""}
+                {mapping.framed ? " framed" : ""}
+                {mapping.optional ? " (optional)" : ""}
+              </ThemedText>
+            ) : (
+              <ThemedText
+                style={[styles.channelDetail, { color: theme.textSecondary }]}
+              >
+                Not measured
+              </ThemedText>
+            )}
+          </View>
+        );
+      })}
+      {profile.polling ? (
+        <ThemedText
+          style={[styles.channelDetail, { color: theme.textSecondary }]}
+        >
+          Polling{" "}
+          {profile.polling.characteristics
+            ? "listed characteristics"
+            : profile.polling.mode}{" "}
+          every {profile.polling.intervalMs} ms ·{" "}
+          {profile.polling.readTimeoutMs} ms timeout ·{" "}
+          {profile.polling.maxRetries} retries
+        </ThemedText>
+      ) : null}
+      {profile.merge ? (
+        <ThemedText
+          style={[styles.channelDetail, { color: theme.textSecondary }]}
+        >
+          {profile.merge.mode === "window"
+            ? `Readings once all channels arrive within ${profile.merge.windowMs} ms`
+            : "A reading on every update"}
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+}
+
+export default function DeviceProfilesScreen() {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { profiles, save, remove, importJson, exportJson } =
+    useDeviceProfiles();
+
+  const [draft, setDraft] = useState<string | null>(null);
+  const [status, setStatus] = useState<Status | null>(null);
+
+  const handleSave = async () => {
+    if (draft === null) return;
+    try {
+      const profile = validateProfile(JSON.parse(draft));
+      save(profile);
+      setDraft(null);
+      setStatus({ message: `Saved ${profile.name}`, ok: true });
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error: any) {
+      setStatus({ message: error?.message ?? "Invalid profile", ok: false });
+    }
+  };
+
+  const handleEdit = (profile: DeviceProfile) => {
+    setStatus(null);
+    if (profile.builtIn) {
+      // The built-in profile is read-only; start a copy from it instead.
+      setDraft(
+        editableJson({
+          ...profile,
+          id: `${profile.id}-copy`,
+          name: `${profile.name} (copy)`,
+        }),
+      );
+    } else {
+      setDraft(editableJson(profile));
+    }
+  };
+
+  const handleDelete = (profile: DeviceProfile) => {
+    Alert.alert(
+      "Delete Profile",
+      `Remove ${profile.name}? Devices using it will need another profile.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            remove(profile.id);
+            setStatus({ message: `Deleted ${profile.name}`, ok: true });
+          },
+        },
+      ],
+    );
+  };
+
+  const handleImport = async () => {
+    try {
+      const text = await pickProfilesFile();
+      if (!text) return;
+      const imported = importJson(text);
+      setStatus({
+        message: `Imported ${imported.length} profile${imported.length !== 1 ? "s" : ""}`,
+        ok: true,
+      });
+    } catch (error: any) {
+      setStatus({
+        message: error?.message ?? "Failed to import profiles",
+        ok: false,
+      });
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ message: exportJson(), title: "Device profiles" });
+    } catch (error: any) {
+      setStatus({
+        message: error?.message ?? "Failed to export profiles",
+        ok: false,
+      });
+    }
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      contentContainerStyle={{
+        padding: Spacing.lg,
+        paddingBottom: insets.bottom + Spacing.xl,
+        gap: Spacing.lg,
+      }}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.buttons}>
+        <ControlButton
+          icon="plus"
+          label="New"
+          color={theme.tabIconSelected}
+          onPress={() => {
+            setStatus(null);
+            setDraft(profileTemplate());
+          }}
+        />
+        <ControlButton
+          icon="download"
+          label="Import"
+          color={theme.tabIconSelected}
+          onPress={handleImport}
+        />
+        <ControlButton
+          icon="share"
+          label="Export"
+          color={theme.tabIconSelected}
+          onPress={handleExport}
+        />
+      </View>
+
+      {status ? (
+        <ThemedText
+          style={[
+            styles.cardSubtitle,
+            {
+              color: status.ok
+                ? SensorColors.connected
+                : SensorColors.disconnected,
+            },
+          ]}
+        >
+          {status.message}
+        </ThemedText>
+      ) : null}
+
+      {draft !== null ? (
+        <View
+          style={[
+            styles.card,
+            {
+              backgroundColor: theme.cardBackground,
+              borderColor: theme.border,
+            },
+          ]}
+        >
+          <ThemedText style={styles.cardTitle}>Edit Profile</ThemedText>
+          <ThemedText
+            style={[styles.cardSubtitle, { color: theme.textSecondary }]}
+          >
+            Decoders: uint8, int8, uint16, int16, uint32, int32 or float32, with
+            -le or -be for multi-byte fields. Values are raw × scale + offset.
+            Set &quot;framed&quot;: true on channels whose characteristic sends
+            CRC-checked multi-packet frames. Set &quot;merge&quot; to{" "}
+            {'{ "mode": "window", "windowMs": 500 }'} to emit one reading once
+            every channel has arrived within the window instead of one per
+            update.
+          </ThemedText>
+          <TextInput
+            value={draft}
+            onChangeText={setDraft}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={[
+              styles.editor,
+              {
+                color: theme.text,
+                borderColor: theme.border,
+                backgroundColor: theme.backgroundRoot,
+              },
+            ]}
+          />
+          <View style={styles.buttons}>
+            <ControlButton
+              icon="check"
+              label="Save"
+              color={SensorColors.connected}
+              onPress={handleSave}
+            />
+            <ControlButton
+              icon="x"
+              label="Cancel"
+              color={theme.textSecondary}
+              onPress={() => setDraft(null)}
+            />
+          </View>
+        </View>
+      ) : null}
+
+      {profiles.map((profile) => (
+        <ProfileCard
+          key={profile.id}
+          profile={profile}
+          onEdit={() => handleEdit(profile)}
+          onDelete={() => handleDelete(profile)}
+        />
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  controlButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.xs,
+  },
+  controlButtonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  card: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    gap: Spacing.sm,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  cardHeaderText: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  cardSubtitle: {
+    fontSize: 13,
+  },
+  channelRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: Spacing.sm,
+  },
+  channelName: {
+    fontSize: 14,
+  },
+  channelDetail: {
+    fontSize: 12,
+    fontFamily: "monospace",
+  },
+  editor: {
+    minHeight: 240,
+    borderWidth: 1,
+    borderRadius: BorderRadius.xs,
+    padding: Spacing.md,
+    fontSize: 12,
+    fontFamily: "monospace",
+    textAlignVertical: "top",
+  },
+});
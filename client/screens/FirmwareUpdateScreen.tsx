@@ -0,0 +1,448 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  View,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+} from "react-native";
+import { RouteProp, useRoute } from "@react-navigation/native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { useTheme } from "@/hooks/useTheme";
+import { useFirmwareUpdate } from "@/hooks/useFirmwareUpdate";
+import { Spacing, BorderRadius, SensorColors } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import {
+  ServerFirmware,
+  createTestFirmwareImage,
+  downloadServerFirmware,
+  listServerFirmware,
+  pickFirmwareFile,
+} from "@/services/FirmwareImage";
+import { FirmwareUpdateStatus } from "@/services/FirmwareUpdater";
+
+const STATUS_LABELS: Record<FirmwareUpdateStatus, string> = {
+  idle: "Ready",
+  starting: "Starting update",
+  transferring: "Transferring image",
+  paused: "Paused",
+  validating: "Validating image on device",
+  activating: "Activating new firmware",
+  verifying: "Waiting for device to reconnect",
+  completed: "Update complete",
+  aborted: "Update aborted",
+  error: "Update failed",
+};
+
+interface ControlButtonProps {
+  icon: keyof typeof Feather.glyphMap;
+  label: string;
+  color: string;
+  disabled?: boolean;
+  onPress: () => void;
+}
+
+function ControlButton({
+  icon,
+  label,
+  color,
+  disabled,
+  onPress,
+}: ControlButtonProps) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      style={[
+        styles.controlButton,
+        { backgroundColor: color, opacity: disabled ? 0.5 : 1 },
+      ]}
+    >
+      <Feather name={icon} size={16} color="#FFFFFF" />
+      <ThemedText style={styles.controlButtonText}>{label}</ThemedText>
+    </Pressable>
+  );
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+}
+
+export default function FirmwareUpdateScreen() {
+  const route = useRoute<RouteProp<RootStackParamList, "FirmwareUpdate">>();
+  const { deviceId } = route.params;
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const {
+    device,
+    image,
+    progress,
+    isRunning,
+    selectImage,
+    start,
+    pause,
+    resume,
+    abort,
+  } = useFirmwareUpdate(deviceId);
+
+  const [serverImages, setServerImages] = useState<ServerFirmware[] | null>(
+    null,
+  );
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isConnected = device?.connection.status === "subscribed";
+  const isSimulated = device?.connection.simulated ?? false;
+  const percent =
+    progress.totalBytes > 0
+      ? Math.round((progress.bytesSent / progress.totalBytes) * 100)
+      : 0;
+
+  const loadImage = async (loader: () => Promise<void>) => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      await loader();
+    } catch (error: any) {
+      setLoadError(error?.message ?? "Failed to load firmware image");
+      selectImage(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePickFile = () =>
+    loadImage(async () => {
+      const picked = await pickFirmwareFile();
+      if (picked) selectImage(picked);
+    });
+
+  const handleListServer = () =>
+    loadImage(async () => {
+      setServerImages(await listServerFirmware());
+    });
+
+  const handleServerImage = (name: string) =>
+    loadImage(async () => {
+      selectImage(await downloadServerFirmware(name));
+    });
+
+  const handleTestImage = () => {
+    const [major = 1, minor = 0, patch = 0] = (
+      device?.deviceInfo?.firmwareRevision ?? "1.0.0"
+    )
+      .split(/[.-]/)
+      .map((part) => parseInt(part, 10) || 0);
+    selectImage(createTestFirmwareImage(`${major}.${minor}.${patch + 1}`));
+  };
+
+  const handleStart = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    await start();
+  };
+
+  const statusColor =
+    progress.status === "completed"
+      ? SensorColors.connected
+      : progress.status === "error" || progress.status === "aborted"
+        ? SensorColors.disconnected
+        : theme.text;
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      contentContainerStyle={{
+        padding: Spacing.lg,
+        paddingBottom: insets.bottom + Spacing.xl,
+        gap: Spacing.lg,
+      }}
+    >
+      <View
+        style={[
+          styles.card,
+          { backgroundColor: theme.cardBackground, borderColor: theme.border },
+        ]}
+      >
+        <ThemedText style={styles.cardTitle}>
+          {device?.connection.deviceName || deviceId}
+        </ThemedText>
+        <ThemedText
+          style={[styles.cardSubtitle, { color: theme.textSecondary }]}
+        >
+          Installed firmware:{" "}
+          {device?.deviceInfo?.firmwareRevision ?? "Unknown"}
+        </ThemedText>
+        {!isConnected ? (
+          <ThemedText
+            style={[styles.cardSubtitle, { color: SensorColors.disconnected }]}
+          >
+            Device is not connected
+          </ThemedText>
+        ) : null}
+      </View>
+
+      <View
+        style={[
+          styles.card,
+          { backgroundColor: theme.cardBackground, borderColor: theme.border },
+        ]}
+      >
+        <ThemedText style={styles.cardTitle}>Firmware Image</ThemedText>
+        <View style={styles.sourceButtons}>
+          <ControlButton
+            icon="file"
+            label="Choose File"
+            color={theme.tabIconSelected}
+            disabled={isRunning || isLoading}
+            onPress={handlePickFile}
+          />
+          <ControlButton
+            icon="server"
+            label="From Server"
+            color={theme.tabIconSelected}
+            disabled={isRunning || isLoading}
+            onPress={handleListServer}
+          />
+          {isSimulated ? (
+            <ControlButton
+              icon="package"
+              label="Test Image"
+              color={SensorColors.voltage}
+              disabled={isRunning || isLoading}
+              onPress={handleTestImage}
+            />
+          ) : null}
+        </View>
+
+        {isLoading ? <ActivityIndicator color={theme.tabIconSelected} /> : null}
+
+        {serverImages ? (
+          serverImages.length === 0 ? (
+            <ThemedText
+              style={[styles.cardSubtitle, { color: theme.textSecondary }]}
+            >
+              No firmware images on the server
+            </ThemedText>
+          ) : (
+            serverImages.map((entry) => (
+              <Pressable
+                key={entry.name}
+                onPress={() => handleServerImage(entry.name)}
+                disabled={isRunning || isLoading}
+                style={({ pressed }) => [
+                  styles.serverRow,
+                  {
+                    backgroundColor: pressed
+                      ? theme.backgroundSecondary
+                      : "transparent",
+                  },
+                ]}
+              >
+                <Feather
+                  name="download"
+                  size={16}
+                  color={theme.textSecondary}
+                />
+                <ThemedText style={styles.serverName}>{entry.name}</ThemedText>
+                <ThemedText
+                  style={[styles.cardSubtitle, { color: theme.textSecondary }]}
+                >
+                  {formatBytes(entry.size)}
+                </ThemedText>
+              </Pressable>
+            ))
+          )
+        ) : null}
+
+        {loadError ? (
+          <ThemedText
+            style={[styles.cardSubtitle, { color: SensorColors.disconnected }]}
+          >
+            {loadError}
+          </ThemedText>
+        ) : null}
+
+        {image ? (
+          <View
+            style={[
+              styles.imageInfo,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            <ThemedText style={styles.imageName}>{image.name}</ThemedText>
+            <ThemedText
+              style={[styles.cardSubtitle, { color: theme.textSecondary }]}
+            >
+              Version {image.version} · {formatBytes(image.payload.length)} ·
+              CRC {image.crc32.toString(16).toUpperCase().padStart(8, "0")}{" "}
+              verified
+            </ThemedText>
+          </View>
+        ) : null}
+      </View>
+
+      <View
+        style={[
+          styles.card,
+          { backgroundColor: theme.cardBackground, borderColor: theme.border },
+        ]}
+      >
+        <View style={styles.progressHeader}>
+          <ThemedText style={[styles.cardTitle, { color: statusColor }]}>
+            {STATUS_LABELS[progress.status]}
+          </ThemedText>
+          {progress.totalBytes > 0 ? (
+            <ThemedText
+              style={[styles.cardSubtitle, { color: theme.textSecondary }]}
+            >
+              {percent}%
+            </ThemedText>
+          ) : null}
+        </View>
+        <View
+          style={[
+            styles.progressTrack,
+            { backgroundColor: theme.backgroundSecondary },
+          ]}
+        >
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${percent}%`, backgroundColor: theme.tabIconSelected },
+            ]}
+          />
+        </View>
+        <ThemedText
+          style={[styles.cardSubtitle, { color: theme.textSecondary }]}
+        >
+          {formatBytes(progress.bytesSent)} of{" "}
+          {formatBytes(progress.totalBytes)}
+          {progress.installedVersion
+            ? ` · Now running ${progress.installedVersion}`
+            : ""}
+        </ThemedText>
+        {progress.error ? (
+          <ThemedText
+            style={[styles.cardSubtitle, { color: SensorColors.disconnected }]}
+          >
+            {progress.error}
+          </ThemedText>
+        ) : null}
+
+        <View style={styles.sourceButtons}>
+          {!isRunning ? (
+            <ControlButton
+              icon="upload"
+              label="Start Update"
+              color={SensorColors.connected}
+              disabled={!image || !isConnected}
+              onPress={handleStart}
+            />
+          ) : progress.status === "paused" ? (
+            <ControlButton
+              icon="play"
+              label="Resume"
+              color={SensorColors.connected}
+              onPress={resume}
+            />
+          ) : (
+            <ControlButton
+              icon="pause"
+              label="Pause"
+              color={SensorColors.current}
+              disabled={progress.status !== "transferring"}
+              onPress={pause}
+            />
+          )}
+          {isRunning ? (
+            <ControlButton
+              icon="x"
+              label="Abort"
+              color={SensorColors.disconnected}
+              disabled={
+                progress.status !== "transferring" &&
+                progress.status !== "paused"
+              }
+              onPress={abort}
+            />
+          ) : null}
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  card: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    gap: Spacing.md,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  cardSubtitle: {
+    fontSize: 13,
+  },
+  sourceButtons: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  controlButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.xs,
+  },
+  controlButtonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  serverRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.sm,
+  },
+  serverName: {
+    fontSize: 14,
+    flex: 1,
+  },
+  imageInfo: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.xs,
+  },
+  imageName: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  progressHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+  },
+});
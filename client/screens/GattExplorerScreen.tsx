@@ -0,0 +1,653 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import {
+  StyleSheet,
+  View,
+  ScrollView,
+  Pressable,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import { RouteProp, useRoute } from "@react-navigation/native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { useTheme } from "@/hooks/useTheme";
+import { useSensor } from "@/contexts/SensorContext";
+import { Spacing, BorderRadius, SensorColors } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import {
+  BleService,
+  GattCharacteristic,
+  GattService,
+} from "@/services/BleService";
+import { describeConnectionStatus } from "@/services/ConnectionStateMachine";
+import { parseHex, toHex, toIntegerViews, toUtf8 } from "@/lib/bytes";
+
+type ValueView = "hex" | "utf8" | "int";
+
+interface CharacteristicValue {
+  bytes: number[];
+  updatedAt: Date;
+}
+
+const VALUE_VIEWS: { label: string; view: ValueView }[] = [
+  { label: "Hex", view: "hex" },
+  { label: "UTF-8", view: "utf8" },
+  { label: "Integer", view: "int" },
+];
+
+function characteristicKey(characteristic: GattCharacteristic): string {
+  return `${characteristic.serviceUUID}/${characteristic.uuid}`;
+}
+
+function formatValue(bytes: number[], view: ValueView): string {
+  if (bytes.length === 0) return "(empty)";
+
+  switch (view) {
+    case "hex":
+      return toHex(bytes);
+    case "utf8":
+      return toUtf8(bytes);
+    case "int": {
+      const ints = toIntegerViews(bytes);
+      return [
+        `u8 ${ints.uint8}  i8 ${ints.int8}`,
+        ints.uint16le !== null
+          ? `u16 ${ints.uint16le}  i16 ${ints.int16le}`
+          : null,
+        ints.uint32le !== null
+          ? `u32 ${ints.uint32le}  i32 ${ints.int32le}`
+          : null,
+      ]
+        .filter(Boolean)
+        .join("\n");
+    }
+  }
+}
+
+interface ActionButtonProps {
+  label: string;
+  active?: boolean;
+  onPress: () => void;
+}
+
+function ActionButton({ label, active, onPress }: ActionButtonProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={[
+        styles.actionButton,
+        {
+          backgroundColor: active
+            ? theme.tabIconSelected
+            : theme.backgroundSecondary,
+        },
+      ]}
+    >
+      <ThemedText
+        style={[
+          styles.actionButtonText,
+          { color: active ? "#FFFFFF" : theme.text },
+        ]}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+interface CharacteristicRowProps {
+  characteristic: GattCharacteristic;
+  value: CharacteristicValue | undefined;
+  view: ValueView;
+  isSubscribed: boolean;
+  onRead: () => void;
+  onWrite: (bytes: number[]) => Promise<boolean>;
+  onToggleSubscribe: () => void;
+}
+
+function CharacteristicRow({
+  characteristic,
+  value,
+  view,
+  isSubscribed,
+  onRead,
+  onWrite,
+  onToggleSubscribe,
+}: CharacteristicRowProps) {
+  const { theme } = useTheme();
+  const [isWriting, setIsWriting] = useState(false);
+  const [writeText, setWriteText] = useState("");
+  const [writeError, setWriteError] = useState<string | null>(null);
+
+  const isWritable =
+    characteristic.isWritableWithResponse ||
+    characteristic.isWritableWithoutResponse;
+  const canSubscribe =
+    characteristic.isNotifiable || characteristic.isIndicatable;
+
+  const properties = [
+    characteristic.isReadable ? "Read" : null,
+    characteristic.isWritableWithResponse ? "Write" : null,
+    characteristic.isWritableWithoutResponse ? "Write No Resp" : null,
+    characteristic.isNotifiable ? "Notify" : null,
+    characteristic.isIndicatable ? "Indicate" : null,
+  ].filter((property): property is string => property !== null);
+
+  const handleSend = async () => {
+    const bytes = parseHex(writeText);
+    if (!bytes) {
+      setWriteError("Enter an even number of hex digits, e.g. 01 A0 FF");
+      return;
+    }
+    setWriteError(null);
+    if (await onWrite(bytes)) {
+      setWriteText("");
+      setIsWriting(false);
+    }
+  };
+
+  return (
+    <View style={[styles.characteristic, { borderTopColor: theme.border }]}>
+      <ThemedText style={styles.uuid} selectable>
+        {characteristic.uuid}
+      </ThemedText>
+      <View style={styles.badges}>
+        {properties.map((property) => (
+          <View
+            key={property}
+            style={[
+              styles.badge,
+              { backgroundColor: theme.tabIconSelected + "20" },
+            ]}
+          >
+            <ThemedText
+              style={[styles.badgeText, { color: theme.tabIconSelected }]}
+            >
+              {property}
+            </ThemedText>
+          </View>
+        ))}
+      </View>
+
+      <View
+        style={[
+          styles.valueBox,
+          { backgroundColor: theme.backgroundSecondary },
+        ]}
+      >
+        <ThemedText style={styles.valueText} selectable>
+          {value ? formatValue(value.bytes, view) : "No value yet"}
+        </ThemedText>
+        {value ? (
+          <ThemedText
+            style={[styles.valueMeta, { color: theme.textSecondary }]}
+          >
+            {value.bytes.length} byte{value.bytes.length !== 1 ? "s" : ""} at{" "}
+            {value.updatedAt.toLocaleTimeString()}
+          </ThemedText>
+        ) : null}
+      </View>
+
+      <View style={styles.actions}>
+        {characteristic.isReadable ? (
+          <ActionButton label="Read" onPress={onRead} />
+        ) : null}
+        {isWritable ? (
+          <ActionButton
+            label="Write"
+            active={isWriting}
+            onPress={() => setIsWriting(!isWriting)}
+          />
+        ) : null}
+        {canSubscribe ? (
+          <ActionButton
+            label={isSubscribed ? "Unsubscribe" : "Subscribe"}
+            active={isSubscribed}
+            onPress={onToggleSubscribe}
+          />
+        ) : null}
+      </View>
+
+      {isWriting ? (
+        <View style={styles.writeRow}>
+          <TextInput
+            value={writeText}
+            onChangeText={setWriteText}
+            placeholder="Hex bytes, e.g. 01 A0 FF"
+            placeholderTextColor={theme.textSecondary}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            style={[
+              styles.writeInput,
+              {
+                color: theme.text,
+                borderColor: theme.border,
+                backgroundColor: theme.backgroundRoot,
+              },
+            ]}
+          />
+          <Pressable
+            onPress={handleSend}
+            style={[
+              styles.sendButton,
+              { backgroundColor: theme.tabIconSelected },
+            ]}
+          >
+            <Feather name="send" size={16} color="#FFFFFF" />
+          </Pressable>
+        </View>
+      ) : null}
+      {writeError ? (
+        <ThemedText
+          style={[styles.errorText, { color: SensorColors.disconnected }]}
+        >
+          {writeError}
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+}
+
+export default function GattExplorerScreen() {
+  const route = useRoute<RouteProp<RootStackParamList, "GattExplorer">>();
+  const { deviceId } = route.params;
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { deviceList } = useSensor();
+
+  const device = deviceList.find((entry) => entry.deviceId === deviceId);
+  const isSubscribed = device?.connection.status === "subscribed";
+
+  const [services, setServices] = useState<GattService[]>([]);
+  const [values, setValues] = useState<Record<string, CharacteristicValue>>({});
+  const [monitored, setMonitored] = useState<string[]>([]);
+  const [view, setView] = useState<ValueView>("hex");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const unsubscribers = useRef<Map<string, () => void>>(new Map());
+
+  const storeValue = useCallback((key: string, bytes: number[]) => {
+    setValues((prev) => ({ ...prev, [key]: { bytes, updatedAt: new Date() } }));
+  }, []);
+
+  const unsubscribeAll = useCallback(() => {
+    unsubscribers.current.forEach((unsubscribe) => unsubscribe());
+    unsubscribers.current.clear();
+    setMonitored([]);
+  }, []);
+
+  const discover = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    unsubscribeAll();
+
+    try {
+      const discovered = await BleService.discoverGatt(deviceId);
+      setServices(discovered);
+
+      const initialValues: Record<string, CharacteristicValue> = {};
+      for (const service of discovered) {
+        for (const characteristic of service.characteristics) {
+          if (characteristic.value) {
+            initialValues[characteristicKey(characteristic)] = {
+              bytes: characteristic.value,
+              updatedAt: new Date(),
+            };
+          }
+        }
+      }
+      setValues(initialValues);
+    } catch (discoverError: any) {
+      setError(discoverError.message ?? "Service discovery failed");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [deviceId, unsubscribeAll]);
+
+  useEffect(() => {
+    if (isSubscribed) {
+      discover();
+    }
+  }, [isSubscribed, discover]);
+
+  useEffect(() => {
+    return () => unsubscribeAll();
+  }, [unsubscribeAll]);
+
+  const handleRead = async (characteristic: GattCharacteristic) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      const bytes = await BleService.readRawCharacteristic(
+        deviceId,
+        characteristic.serviceUUID,
+        characteristic.uuid,
+      );
+      storeValue(characteristicKey(characteristic), bytes);
+      setError(null);
+    } catch (readError: any) {
+      setError(`Read failed: ${readError.message}`);
+    }
+  };
+
+  const handleWrite = async (
+    characteristic: GattCharacteristic,
+    bytes: number[],
+  ) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      await BleService.writeRawCharacteristic(
+        deviceId,
+        characteristic.serviceUUID,
+        characteristic.uuid,
+        bytes,
+        characteristic.isWritableWithResponse,
+      );
+      setError(null);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      return true;
+    } catch (writeError: any) {
+      setError(`Write failed: ${writeError.message}`);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return false;
+    }
+  };
+
+  const handleToggleSubscribe = async (characteristic: GattCharacteristic) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const key = characteristicKey(characteristic);
+
+    const existing = unsubscribers.current.get(key);
+    if (existing) {
+      existing();
+      unsubscribers.current.delete(key);
+      setMonitored((prev) => prev.filter((entry) => entry !== key));
+      return;
+    }
+
+    try {
+      const unsubscribe = BleService.monitorRawCharacteristic(
+        deviceId,
+        characteristic.serviceUUID,
+        characteristic.uuid,
+        (bytes, monitorError) => {
+          if (monitorError) {
+            setError(`Notification error: ${monitorError}`);
+            return;
+          }
+          if (bytes) storeValue(key, bytes);
+        },
+      );
+      unsubscribers.current.set(key, unsubscribe);
+      setMonitored((prev) => [...prev, key]);
+      setError(null);
+    } catch (subscribeError: any) {
+      setError(`Subscribe failed: ${subscribeError.message}`);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <View style={styles.header}>
+        <View style={styles.headerInfo}>
+          <ThemedText style={styles.deviceName} numberOfLines={1}>
+            {device?.connection.deviceName || deviceId}
+          </ThemedText>
+          <ThemedText
+            style={[
+              styles.deviceStatus,
+              {
+                color: isSubscribed
+                  ? SensorColors.connected
+                  : theme.textSecondary,
+              },
+            ]}
+          >
+            {device
+              ? describeConnectionStatus(device.connection)
+              : "Disconnected"}
+            {isSubscribed
+              ? ` - ${services.length} service${services.length !== 1 ? "s" : ""}`
+              : ""}
+          </ThemedText>
+        </View>
+        <Pressable
+          onPress={discover}
+          disabled={isLoading || !isSubscribed}
+          style={[
+            styles.refreshButton,
+            {
+              backgroundColor: theme.tabIconSelected,
+              opacity: isSubscribed ? 1 : 0.5,
+            },
+          ]}
+        >
+          {isLoading ? (
+            <ActivityIndicator color="#FFFFFF" size="small" />
+          ) : (
+            <Feather name="refresh-cw" size={18} color="#FFFFFF" />
+          )}
+        </Pressable>
+      </View>
+
+      <View style={styles.viewSelector}>
+        {VALUE_VIEWS.map((option) => (
+          <ActionButton
+            key={option.view}
+            label={option.label}
+            active={view === option.view}
+            onPress={() => setView(option.view)}
+          />
+        ))}
+      </View>
+
+      {error ? (
+        <ThemedText
+          style={[styles.errorBanner, { color: SensorColors.disconnected }]}
+        >
+          {error}
+        </ThemedText>
+      ) : null}
+
+      <ScrollView
+        contentContainerStyle={{
+          paddingHorizontal: Spacing.lg,
+          paddingBottom: insets.bottom + Spacing.xl,
+          gap: Spacing.md,
+        }}
+      >
+        {!isSubscribed ? (
+          <View style={styles.emptyState}>
+            <Feather name="bluetooth" size={48} color={theme.textSecondary} />
+            <ThemedText
+              style={[styles.emptyText, { color: theme.textSecondary }]}
+            >
+              Connect to the device to inspect its services
+            </ThemedText>
+          </View>
+        ) : null}
+        {services.map((service) => (
+          <View
+            key={service.uuid}
+            style={[
+              styles.serviceCard,
+              {
+                backgroundColor: theme.cardBackground,
+                borderColor: theme.border,
+              },
+            ]}
+          >
+            <View style={styles.serviceHeader}>
+              <Feather name="layers" size={16} color={theme.tabIconSelected} />
+              <ThemedText style={styles.serviceUuid} selectable>
+                {service.uuid}
+              </ThemedText>
+            </View>
+            {service.characteristics.map((characteristic) => {
+              const key = characteristicKey(characteristic);
+              return (
+                <CharacteristicRow
+                  key={key}
+                  characteristic={characteristic}
+                  value={values[key]}
+                  view={view}
+                  isSubscribed={monitored.includes(key)}
+                  onRead={() => handleRead(characteristic)}
+                  onWrite={(bytes) => handleWrite(characteristic, bytes)}
+                  onToggleSubscribe={() =>
+                    handleToggleSubscribe(characteristic)
+                  }
+                />
+              );
+            })}
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  deviceName: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  deviceStatus: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  refreshButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  viewSelector: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.md,
+  },
+  errorBanner: {
+    fontSize: 13,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.md,
+  },
+  serviceCard: {
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  serviceHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  serviceUuid: {
+    fontSize: 13,
+    fontWeight: "600",
+    flex: 1,
+  },
+  characteristic: {
+    padding: Spacing.md,
+    borderTopWidth: 1,
+    gap: Spacing.sm,
+  },
+  uuid: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  badges: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+  },
+  badge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: "600",
+  },
+  valueBox: {
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+  },
+  valueText: {
+    fontSize: 13,
+    fontFamily: "monospace",
+  },
+  valueMeta: {
+    fontSize: 11,
+    marginTop: Spacing.xs,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    alignItems: "center",
+  },
+  actionButtonText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  writeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  writeInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 14,
+    fontFamily: "monospace",
+  },
+  sendButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  errorText: {
+    fontSize: 12,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing["5xl"],
+    gap: Spacing.md,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+  },
+});
@@ -10,12 +10,36 @@ import * as Haptics from "expo-haptics";
 
 import { useTheme } from "@/hooks/useTheme";
 import { useSensor } from "@/contexts/SensorContext";
+import { useBonds } from "@/hooks/useBonds";
 import { Spacing, BorderRadius, SensorColors } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { BondedDevice } from "@/services/Bonding";
+import { SensorCommand, describeCommand } from "@/services/CommandChannel";
+import { SensorChannel } from "@/services/SensorProtocol";
+import { TransportKind } from "@/services/SensorTransport";
+import { TransportRegistry } from "@/services/Transports";
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+const SAMPLING_INTERVALS = [
+  { label: "250 ms", value: 250 },
+  { label: "1 s", value: 1000 },
+  { label: "5 s", value: 5000 },
+];
+
+const TARE_CHANNELS: { label: string; channel: SensorChannel }[] = [
+  { label: "Voltage", channel: "voltage" },
+  { label: "Current", channel: "current" },
+  { label: "Temp", channel: "temperature" },
+  { label: "pH", channel: "ph" },
+];
+
+interface CommandStatus {
+  message: string;
+  ok: boolean;
+}
+
 interface SettingsRowProps {
   icon: keyof typeof Feather.glyphMap;
   title: string;
@@ -116,9 +140,30 @@ export default function SettingsScreen() {
   const tabBarHeight = useBottomTabBarHeight();
   const insets = useSafeAreaInsets();
 
-  const { isConnected, clearHistory, connectionMode, setConnectionMode } = useSensor();
+  const {
+    connectedCount,
+    clearHistory,
+    connectionMode,
+    setConnectionMode,
+    transport,
+    livePublishing,
+    setLivePublishing,
+    connection,
+    selectedDeviceId,
+    sendCommand,
+    devices,
+    disconnectDevice,
+  } = useSensor();
+  const { bonds, forget } = useBonds();
   const [autoConnect, setAutoConnect] = useState(true);
   const [metricUnits, setMetricUnits] = useState(true);
+  const [samplingInterval, setSamplingInterval] = useState<number | null>(null);
+  const [isLogging, setIsLogging] = useState(false);
+  const [pendingCommand, setPendingCommand] = useState<string | null>(null);
+  const [commandStatus, setCommandStatus] = useState<CommandStatus | null>(null);
+
+  const isDeviceConnected =
+    connection.status === "subscribed" && selectedDeviceId !== null && transport.sendCommand !== undefined;
 
   const handleBluetoothPress = () => {
     navigation.navigate("BluetoothScan");
@@ -143,7 +188,78 @@ export default function SettingsScreen() {
     );
   };
 
-  const handleModeChange = async (mode: "simulated" | "real") => {
+  const runCommand = async (command: SensorCommand): Promise<boolean> => {
+    if (!selectedDeviceId || pendingCommand) return false;
+
+    const description = describeCommand(command);
+    setPendingCommand(description);
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    const result = await sendCommand(selectedDeviceId, command);
+    setPendingCommand(null);
+
+    if (result.ok) {
+      setCommandStatus({ message: `${description}: done (${result.latencyMs} ms)`, ok: true });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } else {
+      setCommandStatus({ message: `${description}: ${result.message}`, ok: false });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+    return result.ok;
+  };
+
+  const handleSamplingInterval = async (intervalMs: number) => {
+    if (await runCommand({ type: "setSamplingInterval", intervalMs })) {
+      setSamplingInterval(intervalMs);
+    }
+  };
+
+  const handleLoggingChange = async (enabled: boolean) => {
+    if (await runCommand({ type: enabled ? "startLogging" : "stopLogging" })) {
+      setIsLogging(enabled);
+    }
+  };
+
+  const handleFirmwarePress = () => {
+    if (selectedDeviceId) {
+      navigation.navigate("FirmwareUpdate", { deviceId: selectedDeviceId });
+    }
+  };
+
+  const handleReboot = () => {
+    Alert.alert(
+      "Reboot Device",
+      "The sensor will restart and briefly drop its connection.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Reboot",
+          style: "destructive",
+          onPress: () => runCommand({ type: "reboot" }),
+        },
+      ]
+    );
+  };
+
+  const handleRemoveBond = (bond: BondedDevice) => {
+    Alert.alert(
+      "Remove Bond",
+      `Forget the pairing with ${bond.name || bond.id}? Also remove it from the system Bluetooth settings so the sensor asks for its passkey again.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () => {
+            forget(bond.id);
+            if (devices[bond.id]) disconnectDevice(bond.id);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleModeChange = async (mode: TransportKind) => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setConnectionMode(mode);
   };
@@ -169,33 +285,23 @@ export default function SettingsScreen() {
       >
         <View style={styles.modeSelector}>
           <View style={styles.modeInfo}>
-            <Feather
-              name={connectionMode === "simulated" ? "activity" : "bluetooth"}
-              size={20}
-              color={theme.tabIconSelected}
-            />
+            <Feather name={transport.icon} size={20} color={theme.tabIconSelected} />
             <View style={styles.modeTextContainer}>
-              <ThemedText style={styles.rowTitle}>
-                {connectionMode === "simulated" ? "Simulated Signal" : "Real Bluetooth"}
-              </ThemedText>
+              <ThemedText style={styles.rowTitle}>{transport.title}</ThemedText>
               <ThemedText style={[styles.rowSubtitle, { color: theme.textSecondary }]}>
-                {connectionMode === "simulated"
-                  ? "Use generated test data"
-                  : "Connect to real BLE sensors"}
+                {transport.description}
               </ThemedText>
             </View>
           </View>
           <View style={styles.modeButtons}>
-            <ModeButton
-              label="Simulated"
-              active={connectionMode === "simulated"}
-              onPress={() => handleModeChange("simulated")}
-            />
-            <ModeButton
-              label="Real BLE"
-              active={connectionMode === "real"}
-              onPress={() => handleModeChange("real")}
-            />
+            {TransportRegistry.list().map((option) => (
+              <ModeButton
+                key={option.kind}
+                label={option.label}
+                active={connectionMode === option.kind}
+                onPress={() => handleModeChange(option.kind)}
+              />
+            ))}
           </View>
         </View>
       </View>
@@ -212,10 +318,21 @@ export default function SettingsScreen() {
         <SettingsRow
           icon="bluetooth"
           title="Bluetooth Devices"
-          subtitle={isConnected ? "Connected" : "Not connected"}
+          subtitle={
+            connectedCount === 0
+              ? "Not connected"
+              : `${connectedCount} device${connectedCount !== 1 ? "s" : ""} connected`
+          }
           onPress={handleBluetoothPress}
         />
         <View style={[styles.divider, { backgroundColor: theme.border }]} />
+        <SettingsRow
+          icon="sliders"
+          title="Device Profiles"
+          subtitle="Map sensor characteristics to measurements"
+          onPress={() => navigation.navigate("DeviceProfiles")}
+        />
+        <View style={[styles.divider, { backgroundColor: theme.border }]} />
         <SettingsRow
           icon="link"
           title="Auto-Connect"
@@ -231,8 +348,181 @@ export default function SettingsScreen() {
             />
           }
         />
+        {transport.kind !== "websocket" ? (
+          <>
+            <View style={[styles.divider, { backgroundColor: theme.border }]} />
+            <SettingsRow
+              icon="share-2"
+              title="Share Live Readings"
+              subtitle="Let others watch connected devices through the server"
+              value={
+                <Switch
+                  value={livePublishing}
+                  onValueChange={setLivePublishing}
+                  trackColor={{
+                    false: theme.backgroundSecondary,
+                    true: SensorColors.connected,
+                  }}
+                />
+              }
+            />
+          </>
+        ) : null}
       </View>
 
+      {bonds.length > 0 ? (
+        <>
+          <ThemedText style={[styles.sectionHeader, { color: theme.textSecondary }]}>
+            PAIRED SENSORS
+          </ThemedText>
+          <View
+            style={[
+              styles.section,
+              { backgroundColor: theme.cardBackground, borderColor: theme.border },
+            ]}
+          >
+            {bonds.map((bond, index) => (
+              <React.Fragment key={bond.id}>
+                {index > 0 ? <View style={[styles.divider, { backgroundColor: theme.border }]} /> : null}
+                <SettingsRow
+                  icon="lock"
+                  title={bond.name || bond.id}
+                  subtitle={`Paired ${new Date(bond.bondedAt).toLocaleDateString()}${
+                    devices[bond.id] ? " · connected" : ""
+                  }`}
+                  value={
+                    <Pressable onPress={() => handleRemoveBond(bond)} hitSlop={8}>
+                      <Feather name="trash-2" size={18} color={SensorColors.disconnected} />
+                    </Pressable>
+                  }
+                />
+              </React.Fragment>
+            ))}
+          </View>
+        </>
+      ) : null}
+
+      {isDeviceConnected ? (
+        <>
+          <ThemedText style={[styles.sectionHeader, { color: theme.textSecondary }]}>
+            DEVICE CONFIGURATION
+          </ThemedText>
+          <View
+            style={[
+              styles.section,
+              { backgroundColor: theme.cardBackground, borderColor: theme.border },
+            ]}
+          >
+            <View style={styles.modeSelector}>
+              <View style={styles.modeInfo}>
+                <Feather name="clock" size={20} color={theme.tabIconSelected} />
+                <View style={styles.modeTextContainer}>
+                  <ThemedText style={styles.rowTitle}>Sampling Interval</ThemedText>
+                  <ThemedText style={[styles.rowSubtitle, { color: theme.textSecondary }]}>
+                    {connection.deviceName || selectedDeviceId}
+                  </ThemedText>
+                </View>
+              </View>
+              <View style={styles.modeButtons}>
+                {SAMPLING_INTERVALS.map((option) => (
+                  <ModeButton
+                    key={option.value}
+                    label={option.label}
+                    active={samplingInterval === option.value}
+                    onPress={() => handleSamplingInterval(option.value)}
+                  />
+                ))}
+              </View>
+            </View>
+            <View style={[styles.divider, { backgroundColor: theme.border }]} />
+            <View style={styles.modeSelector}>
+              <View style={styles.modeInfo}>
+                <Feather name="crosshair" size={20} color={theme.tabIconSelected} />
+                <View style={styles.modeTextContainer}>
+                  <ThemedText style={styles.rowTitle}>Zero Channel</ThemedText>
+                  <ThemedText style={[styles.rowSubtitle, { color: theme.textSecondary }]}>
+                    Tare the current value to zero
+                  </ThemedText>
+                </View>
+              </View>
+              <View style={styles.modeButtons}>
+                {TARE_CHANNELS.map((option) => (
+                  <ModeButton
+                    key={option.channel}
+                    label={option.label}
+                    active={false}
+                    onPress={() => runCommand({ type: "tare", channel: option.channel })}
+                  />
+                ))}
+              </View>
+            </View>
+            <View style={[styles.divider, { backgroundColor: theme.border }]} />
+            <SettingsRow
+              icon="save"
+              title="On-Device Logging"
+              subtitle="Record readings to device storage"
+              value={
+                <Switch
+                  value={isLogging}
+                  onValueChange={handleLoggingChange}
+                  disabled={pendingCommand !== null}
+                  trackColor={{
+                    false: theme.backgroundSecondary,
+                    true: SensorColors.connected,
+                  }}
+                />
+              }
+            />
+            {transport.createDfuTarget ? (
+              <>
+                <View style={[styles.divider, { backgroundColor: theme.border }]} />
+                <SettingsRow
+                  icon="upload-cloud"
+                  title="Firmware Update"
+                  subtitle="Install a new firmware image over Bluetooth"
+                  onPress={handleFirmwarePress}
+                />
+              </>
+            ) : null}
+            {selectedDeviceId && transport.supportsUart?.(selectedDeviceId) ? (
+              <>
+                <View style={[styles.divider, { backgroundColor: theme.border }]} />
+                <SettingsRow
+                  icon="terminal"
+                  title="Terminal"
+                  subtitle="Send shell commands over the Nordic UART Service"
+                  onPress={() => navigation.navigate("Terminal", { deviceId: selectedDeviceId })}
+                />
+              </>
+            ) : null}
+            <View style={[styles.divider, { backgroundColor: theme.border }]} />
+            <SettingsRow
+              icon="refresh-cw"
+              title="Reboot Device"
+              subtitle="Restart the sensor firmware"
+              onPress={handleReboot}
+              destructive
+            />
+          </View>
+          {pendingCommand ? (
+            <ThemedText style={[styles.commandStatus, { color: theme.textSecondary }]}>
+              {pendingCommand}...
+            </ThemedText>
+          ) : commandStatus ? (
+            <ThemedText
+              style={[
+                styles.commandStatus,
+                {
+                  color: commandStatus.ok ? SensorColors.connected : SensorColors.disconnected,
+                },
+              ]}
+            >
+              {commandStatus.message}
+            </ThemedText>
+          ) : null}
+        </>
+      ) : null}
+
       <ThemedText style={[styles.sectionHeader, { color: theme.textSecondary }]}>
         PREFERENCES
       </ThemedText>
@@ -363,4 +653,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "600",
   },
+  commandStatus: {
+    fontSize: 13,
+    marginTop: Spacing.sm,
+    marginLeft: Spacing.sm,
+  },
 });
@@ -0,0 +1,460 @@
+import React, { useRef, useState } from "react";
+import {
+  StyleSheet,
+  View,
+  ScrollView,
+  Pressable,
+  TextInput,
+  Alert,
+} from "react-native";
+import { RouteProp, useRoute } from "@react-navigation/native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { useUartConsole } from "@/hooks/useUartConsole";
+import { Spacing, BorderRadius, SensorColors } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { LineParserConfig, validateLineParser } from "@/services/NordicUart";
+import { SENSOR_CHANNELS } from "@/services/SensorProtocol";
+import { UartMacro } from "@/services/UartConsole";
+
+const CHANNEL_LABELS = {
+  voltage: "Voltage",
+  current: "Current",
+  temperature: "Temp",
+  ph: "pH",
+};
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleTimeString([], { hour12: false });
+}
+
+interface ChipProps {
+  label: string;
+  icon?: keyof typeof Feather.glyphMap;
+  disabled?: boolean;
+  onPress: () => void;
+  onLongPress?: () => void;
+}
+
+function Chip({ label, icon, disabled, onPress, onLongPress }: ChipProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Pressable
+      onPress={onPress}
+      onLongPress={onLongPress}
+      disabled={disabled}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: theme.backgroundSecondary,
+          opacity: disabled ? 0.5 : 1,
+        },
+      ]}
+    >
+      {icon ? <Feather name={icon} size={14} color={theme.text} /> : null}
+      <ThemedText style={styles.chipText}>{label}</ThemedText>
+    </Pressable>
+  );
+}
+
+interface ParserEditorProps {
+  parser: LineParserConfig;
+  onSave: (parser: LineParserConfig) => void;
+}
+
+function ParserEditor({ parser, onSave }: ParserEditorProps) {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState<LineParserConfig>(parser);
+  const [error, setError] = useState<string | null>(null);
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: theme.text,
+      borderColor: theme.border,
+      backgroundColor: theme.backgroundRoot,
+    },
+  ];
+
+  const handleSave = () => {
+    try {
+      onSave(validateLineParser(draft));
+      setError(null);
+    } catch (saveError: any) {
+      setError(saveError?.message ?? "Invalid parser settings");
+    }
+  };
+
+  return (
+    <View style={styles.parserEditor}>
+      <View style={styles.parserRow}>
+        <ThemedText style={styles.parserLabel}>Pair separator</ThemedText>
+        <TextInput
+          value={draft.pairSeparator}
+          onChangeText={(pairSeparator) =>
+            setDraft({ ...draft, pairSeparator })
+          }
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={inputStyle}
+        />
+        <ThemedText style={styles.parserLabel}>Key separator</ThemedText>
+        <TextInput
+          value={draft.keySeparator}
+          onChangeText={(keySeparator) => setDraft({ ...draft, keySeparator })}
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={inputStyle}
+        />
+      </View>
+      <View style={styles.parserRow}>
+        {SENSOR_CHANNELS.map((channel) => (
+          <View key={channel} style={styles.parserKey}>
+            <ThemedText
+              style={[styles.parserLabel, { color: theme.textSecondary }]}
+            >
+              {CHANNEL_LABELS[channel]}
+            </ThemedText>
+            <TextInput
+              value={draft.keys[channel] ?? ""}
+              onChangeText={(key) =>
+                setDraft({ ...draft, keys: { ...draft.keys, [channel]: key } })
+              }
+              placeholder="unused"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              style={inputStyle}
+            />
+          </View>
+        ))}
+      </View>
+      {error ? (
+        <ThemedText style={[styles.hint, { color: SensorColors.disconnected }]}>
+          {error}
+        </ThemedText>
+      ) : null}
+      <Chip label="Save parser" icon="check" onPress={handleSave} />
+    </View>
+  );
+}
+
+export default function TerminalScreen() {
+  const route = useRoute<RouteProp<RootStackParamList, "Terminal">>();
+  const { deviceId } = route.params;
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const {
+    device,
+    lines,
+    history,
+    macros,
+    parser,
+    canSend,
+    sendError,
+    send,
+    clear,
+    saveMacro,
+    removeMacro,
+    setParser,
+  } = useUartConsole(deviceId);
+
+  const [input, setInput] = useState("");
+  // Position while stepping back through the history; null when editing a new line.
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [macroName, setMacroName] = useState<string | null>(null);
+  const [showParser, setShowParser] = useState(false);
+  const scrollRef = useRef<ScrollView>(null);
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: theme.text,
+      borderColor: theme.border,
+      backgroundColor: theme.backgroundRoot,
+    },
+  ];
+
+  const handleSend = () => {
+    if (!input.trim()) return;
+    send(input);
+    setInput("");
+    setHistoryIndex(null);
+  };
+
+  const stepHistory = (direction: -1 | 1) => {
+    if (history.length === 0) return;
+    const current = historyIndex ?? history.length;
+    const next = Math.min(Math.max(current + direction, 0), history.length);
+    setHistoryIndex(next === history.length ? null : next);
+    setInput(next === history.length ? "" : history[next]);
+  };
+
+  const handleSaveMacro = () => {
+    if (!macroName?.trim() || !input.trim()) return;
+    saveMacro({ name: macroName.trim(), command: input });
+    setMacroName(null);
+  };
+
+  const handleRemoveMacro = (macro: UartMacro) => {
+    Alert.alert("Delete Macro", `Remove "${macro.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => removeMacro(macro.name),
+      },
+    ]);
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: theme.backgroundRoot,
+          paddingBottom: insets.bottom + Spacing.md,
+        },
+      ]}
+    >
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          <ThemedText style={styles.title}>
+            {device?.connection.deviceName || deviceId}
+          </ThemedText>
+          <ThemedText
+            style={[
+              styles.hint,
+              {
+                color: canSend
+                  ? theme.textSecondary
+                  : SensorColors.disconnected,
+              },
+            ]}
+          >
+            {canSend
+              ? "Nordic UART connected"
+              : "This device has no UART console connected"}
+          </ThemedText>
+        </View>
+        <Chip
+          label="Parser"
+          icon="sliders"
+          onPress={() => setShowParser(!showParser)}
+        />
+        <Chip label="Clear" icon="trash-2" onPress={clear} />
+      </View>
+
+      {showParser ? <ParserEditor parser={parser} onSave={setParser} /> : null}
+
+      <ScrollView
+        ref={scrollRef}
+        style={[
+          styles.scrollback,
+          { backgroundColor: theme.cardBackground, borderColor: theme.border },
+        ]}
+        contentContainerStyle={styles.scrollbackContent}
+        onContentSizeChange={() =>
+          scrollRef.current?.scrollToEnd({ animated: false })
+        }
+      >
+        {lines.length === 0 ? (
+          <ThemedText style={[styles.line, { color: theme.textSecondary }]}>
+            No output yet. Try &quot;help&quot;.
+          </ThemedText>
+        ) : (
+          lines.map((line, index) => (
+            <ThemedText
+              key={index}
+              style={[
+                styles.line,
+                line.direction === "tx"
+                  ? { color: theme.tabIconSelected }
+                  : null,
+              ]}
+            >
+              <ThemedText style={[styles.line, { color: theme.textSecondary }]}>
+                {formatTime(line.at)}{" "}
+              </ThemedText>
+              {line.direction === "tx" ? "> " : ""}
+              {line.text}
+            </ThemedText>
+          ))
+        )}
+      </ScrollView>
+
+      <ScrollView
+        horizontal
+        style={styles.macros}
+        contentContainerStyle={styles.macrosContent}
+      >
+        {macros.map((macro) => (
+          <Chip
+            key={macro.name}
+            label={macro.name}
+            icon="play"
+            disabled={!canSend}
+            onPress={() => send(macro.command)}
+            onLongPress={() => handleRemoveMacro(macro)}
+          />
+        ))}
+        <Chip
+          label="Save as macro"
+          icon="bookmark"
+          onPress={() => setMacroName("")}
+        />
+      </ScrollView>
+
+      {macroName !== null ? (
+        <View style={styles.inputRow}>
+          <TextInput
+            value={macroName}
+            onChangeText={setMacroName}
+            placeholder="Macro name for the command below"
+            placeholderTextColor={theme.textSecondary}
+            autoFocus
+            style={inputStyle}
+          />
+          <Chip label="Save" icon="check" onPress={handleSaveMacro} />
+          <Chip label="Cancel" icon="x" onPress={() => setMacroName(null)} />
+        </View>
+      ) : null}
+
+      {sendError ? (
+        <ThemedText style={[styles.hint, { color: SensorColors.disconnected }]}>
+          {sendError}
+        </ThemedText>
+      ) : null}
+
+      <View style={styles.inputRow}>
+        <Pressable onPress={() => stepHistory(-1)} hitSlop={6}>
+          <Feather name="chevron-up" size={22} color={theme.textSecondary} />
+        </Pressable>
+        <Pressable onPress={() => stepHistory(1)} hitSlop={6}>
+          <Feather name="chevron-down" size={22} color={theme.textSecondary} />
+        </Pressable>
+        <TextInput
+          value={input}
+          onChangeText={(text) => {
+            setInput(text);
+            setHistoryIndex(null);
+          }}
+          onSubmitEditing={handleSend}
+          placeholder="Command"
+          placeholderTextColor={theme.textSecondary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="send"
+          blurOnSubmit={false}
+          style={inputStyle}
+        />
+        <Pressable
+          onPress={handleSend}
+          disabled={!canSend}
+          style={[
+            styles.sendButton,
+            {
+              backgroundColor: theme.tabIconSelected,
+              opacity: canSend ? 1 : 0.5,
+            },
+          ]}
+        >
+          <Feather name="send" size={16} color="#FFFFFF" />
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 12,
+  },
+  scrollback: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+  },
+  scrollbackContent: {
+    padding: Spacing.md,
+  },
+  line: {
+    fontSize: 12,
+    lineHeight: 18,
+    fontFamily: "monospace",
+  },
+  macros: {
+    flexGrow: 0,
+  },
+  macrosContent: {
+    gap: Spacing.sm,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.xs,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 14,
+    fontFamily: "monospace",
+  },
+  sendButton: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.xs,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  parserEditor: {
+    gap: Spacing.sm,
+  },
+  parserRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  parserLabel: {
+    fontSize: 12,
+  },
+  parserKey: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+});
@@ -0,0 +1,106 @@
+import {
+  DecodedValues,
+  SensorProtocol,
+  createLayoutProtocol,
+} from "@/services/SensorProtocol";
+
+export interface BeaconAdvertisement {
+  manufacturerData: number[] | null;
+  serviceData: Record<string, number[]>;
+}
+
+// A decoder matches either a Bluetooth SIG company identifier at the start of the
+// manufacturer data or a service data UUID; its protocol sees only the payload.
+export interface BeaconDecoder {
+  name: string;
+  description?: string;
+  companyId?: number;
+  serviceUUID?: string;
+  protocol: SensorProtocol;
+}
+
+export interface BeaconDecodeResult {
+  decoder: string;
+  values: DecodedValues;
+}
+
+const TEST_COMPANY_ID = 0xffff;
+const SENSOR_BEACON_SERVICE_UUID = "0000FFF0-0000-1000-8000-00805F9B34FB";
+
+const SENSOR_BEACON_LAYOUT = createLayoutProtocol(
+  "sensor-beacon",
+  [
+    { channel: "voltage", type: "uint16", byteOffset: 0, scale: 0.01 },
+    { channel: "current", type: "uint16", byteOffset: 2, scale: 0.01 },
+    { channel: "temperature", type: "int16", byteOffset: 4, scale: 0.01 },
+    { channel: "ph", type: "uint16", byteOffset: 6, scale: 0.01 },
+  ],
+  "centivolts, centiamps, centi-degrees C and centi-pH, little endian",
+);
+
+class BeaconDecoderRegistryClass {
+  private decoders: Map<string, BeaconDecoder> = new Map();
+
+  register(decoder: BeaconDecoder): void {
+    this.decoders.set(decoder.name, decoder);
+  }
+
+  unregister(name: string): void {
+    this.decoders.delete(name);
+  }
+
+  list(): BeaconDecoder[] {
+    return Array.from(this.decoders.values());
+  }
+
+  decode(advertisement: BeaconAdvertisement): BeaconDecodeResult | null {
+    const { manufacturerData, serviceData } = advertisement;
+    const companyId =
+      manufacturerData && manufacturerData.length >= 2
+        ? manufacturerData[0] | (manufacturerData[1] << 8)
+        : null;
+
+    for (const decoder of Array.from(this.decoders.values())) {
+      let payload: number[] | null = null;
+
+      if (
+        decoder.companyId !== undefined &&
+        decoder.companyId === companyId &&
+        manufacturerData
+      ) {
+        payload = manufacturerData.slice(2);
+      } else if (decoder.serviceUUID) {
+        const key = Object.keys(serviceData).find(
+          (uuid) => uuid.toUpperCase() === decoder.serviceUUID!.toUpperCase(),
+        );
+        payload = key ? serviceData[key] : null;
+      }
+
+      if (!payload) continue;
+
+      const values = decoder.protocol.decode(payload);
+      if (values) {
+        return { decoder: decoder.name, values };
+      }
+    }
+
+    return null;
+  }
+}
+
+export const BeaconDecoderRegistry = new BeaconDecoderRegistryClass();
+
+BeaconDecoderRegistry.register({
+  name: "sensor-monitor-manufacturer",
+  description:
+    "Sensor Monitor readings in manufacturer data (test company ID 0xFFFF)",
+  companyId: TEST_COMPANY_ID,
+  protocol: SENSOR_BEACON_LAYOUT,
+});
+
+BeaconDecoderRegistry.register({
+  name: "sensor-monitor-service",
+  description: "Sensor Monitor readings in 0xFFF0 service data",
+  serviceUUID: SENSOR_BEACON_SERVICE_UUID,
+  protocol: SENSOR_BEACON_LAYOUT,
+});
@@ -0,0 +1,209 @@
+import { BleService } from "@/services/BleService";
+import { FirmwareImage } from "@/services/FirmwareImage";
+import { DfuTarget, waitForReconnect } from "@/services/FirmwareUpdater";
+import { readUint32LE, writeUint32LE } from "@/lib/bytes";
+
+export const DFU_SERVICE_UUID = "0000FF10-0000-1000-8000-00805F9B34FB";
+export const DFU_CONTROL_CHAR_UUID = "0000FF11-0000-1000-8000-00805F9B34FB";
+export const DFU_PACKET_CHAR_UUID = "0000FF12-0000-1000-8000-00805F9B34FB";
+
+const OP_START = 0x01;
+const OP_VALIDATE = 0x02;
+const OP_ACTIVATE = 0x03;
+const OP_ABORT = 0x04;
+const OP_RESPONSE = 0x60;
+const OP_RECEIPT = 0x11;
+const STATUS_SUCCESS = 0x01;
+
+const RESPONSE_TIMEOUT_MS = 10000;
+const ATT_HEADER_SIZE = 3;
+const PACKETS_PER_RECEIPT = 8;
+
+interface ResponseWaiter {
+  opcode: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface ReceiptWaiter {
+  offset: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class BleDfuTarget implements DfuTarget {
+  chunkSize: number;
+  packetsPerReceipt = PACKETS_PER_RECEIPT;
+  private receivedOffset = 0;
+  private responseWaiter: ResponseWaiter | null = null;
+  private receiptWaiter: ReceiptWaiter | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private deviceId: string) {
+    this.chunkSize = Math.max(
+      20,
+      BleService.getMtu(deviceId) - ATT_HEADER_SIZE,
+    );
+  }
+
+  async start(image: FirmwareImage): Promise<void> {
+    this.receivedOffset = 0;
+    this.unsubscribe = BleService.monitorRawCharacteristic(
+      this.deviceId,
+      DFU_SERVICE_UUID,
+      DFU_CONTROL_CHAR_UUID,
+      (bytes, error) => {
+        if (error) {
+          this.failWaiters(new Error(`DFU control error: ${error}`));
+          return;
+        }
+        if (bytes) this.handleNotification(bytes);
+      },
+    );
+
+    const [major, minor, patch] = image.version
+      .split(".")
+      .map((part) => parseInt(part, 10));
+    await this.control([
+      OP_START,
+      ...writeUint32LE(image.payload.length),
+      ...writeUint32LE(image.crc32),
+      major,
+      minor,
+      patch,
+      PACKETS_PER_RECEIPT,
+    ]);
+  }
+
+  async sendChunk(chunk: Uint8Array): Promise<void> {
+    await BleService.writeRawCharacteristic(
+      this.deviceId,
+      DFU_SERVICE_UUID,
+      DFU_PACKET_CHAR_UUID,
+      Array.from(chunk),
+      false,
+    );
+  }
+
+  waitForReceipt(offset: number, timeoutMs: number): Promise<void> {
+    if (this.receivedOffset >= offset) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.receiptWaiter = null;
+        reject(new Error(`No transfer receipt for offset ${offset}`));
+      }, timeoutMs);
+      this.receiptWaiter = { offset, resolve, reject, timer };
+    });
+  }
+
+  validate(): Promise<void> {
+    return this.control([OP_VALIDATE]);
+  }
+
+  async activate(): Promise<void> {
+    // The device acknowledges before rebooting; the link drop that follows is expected.
+    await this.control([OP_ACTIVATE]);
+  }
+
+  async readVersion(timeoutMs: number): Promise<string | null> {
+    await waitForReconnect(this.deviceId, timeoutMs);
+    return BleService.getDeviceInfo(this.deviceId)?.firmwareRevision ?? null;
+  }
+
+  async abort(): Promise<void> {
+    await BleService.writeRawCharacteristic(
+      this.deviceId,
+      DFU_SERVICE_UUID,
+      DFU_CONTROL_CHAR_UUID,
+      [OP_ABORT],
+    );
+  }
+
+  dispose(): void {
+    this.failWaiters(new Error("DFU session closed"));
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private async control(bytes: number[]): Promise<void> {
+    const response = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.responseWaiter = null;
+        reject(
+          new Error(
+            `DFU target did not answer opcode 0x${bytes[0].toString(16)}`,
+          ),
+        );
+      }, RESPONSE_TIMEOUT_MS);
+      this.responseWaiter = { opcode: bytes[0], resolve, reject, timer };
+    });
+
+    // The waiter goes in first because the device can answer before the write is
+    // acknowledged; a failed write takes it down and fails it with the write error.
+    try {
+      await BleService.writeRawCharacteristic(
+        this.deviceId,
+        DFU_SERVICE_UUID,
+        DFU_CONTROL_CHAR_UUID,
+        bytes,
+      );
+    } catch (error) {
+      const waiter = this.responseWaiter;
+      if (waiter) {
+        clearTimeout(waiter.timer);
+        this.responseWaiter = null;
+        waiter.reject(error as Error);
+      }
+    }
+    return response;
+  }
+
+  private handleNotification(bytes: number[]): void {
+    if (bytes[0] === OP_RECEIPT && bytes.length >= 5) {
+      this.receivedOffset = readUint32LE(bytes, 1);
+      const waiter = this.receiptWaiter;
+      if (waiter && this.receivedOffset >= waiter.offset) {
+        clearTimeout(waiter.timer);
+        this.receiptWaiter = null;
+        waiter.resolve();
+      }
+      return;
+    }
+
+    const waiter = this.responseWaiter;
+    if (
+      bytes[0] !== OP_RESPONSE ||
+      bytes.length < 3 ||
+      !waiter ||
+      bytes[1] !== waiter.opcode
+    ) {
+      return;
+    }
+
+    clearTimeout(waiter.timer);
+    this.responseWaiter = null;
+    if (bytes[2] === STATUS_SUCCESS) {
+      waiter.resolve();
+    } else {
+      waiter.reject(
+        new Error(
+          `DFU target rejected opcode 0x${bytes[1].toString(16)} (status ${bytes[2]})`,
+        ),
+      );
+    }
+  }
+
+  private failWaiters(error: Error): void {
+    for (const waiter of [this.responseWaiter, this.receiptWaiter]) {
+      if (waiter) {
+        clearTimeout(waiter.timer);
+        waiter.reject(error);
+      }
+    }
+    this.responseWaiter = null;
+    this.receiptWaiter = null;
+  }
+}
@@ -0,0 +1,132 @@
+import { BleService } from "@/services/BleService";
+import {
+  HISTORY_CONTROL_CHAR_UUID,
+  HISTORY_DATA_CHAR_UUID,
+  HISTORY_SERVICE_UUID,
+  HISTORY_STATUS_SUCCESS,
+  HistoryChunk,
+  HistoryRecord,
+  HistorySource,
+  OP_HISTORY_REQUEST,
+  OP_HISTORY_RESPONSE,
+  decodeHistoryRecords,
+  encodeHistoryRequest,
+} from "@/services/HistorySync";
+import { readUint32LE } from "@/lib/bytes";
+
+const CHUNK_TIMEOUT_MS = 10000;
+
+interface ChunkWaiter {
+  resolve: (chunk: HistoryChunk) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Records stream on the data characteristic; the device closes each chunk with a
+// response on the control characteristic: [0x60, 0x01, status, sent u16, remaining u32].
+export class BleHistorySource implements HistorySource {
+  private records: HistoryRecord[] = [];
+  private waiter: ChunkWaiter | null = null;
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(private deviceId: string) {
+    this.unsubscribers = [
+      BleService.monitorRawCharacteristic(
+        deviceId,
+        HISTORY_SERVICE_UUID,
+        HISTORY_DATA_CHAR_UUID,
+        (bytes, error) => {
+          if (error) {
+            this.fail(new Error(`History data error: ${error}`));
+            return;
+          }
+          if (bytes) this.records.push(...decodeHistoryRecords(bytes));
+        },
+      ),
+      BleService.monitorRawCharacteristic(
+        deviceId,
+        HISTORY_SERVICE_UUID,
+        HISTORY_CONTROL_CHAR_UUID,
+        (bytes, error) => {
+          if (error) {
+            this.fail(new Error(`History control error: ${error}`));
+            return;
+          }
+          if (bytes) this.handleResponse(bytes);
+        },
+      ),
+    ];
+  }
+
+  async requestChunk(
+    fromSequence: number,
+    maxRecords: number,
+  ): Promise<HistoryChunk> {
+    this.records = [];
+    const response = new Promise<HistoryChunk>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiter = null;
+        reject(new Error(`No history chunk from sequence ${fromSequence}`));
+      }, CHUNK_TIMEOUT_MS);
+      this.waiter = { resolve, reject, timer };
+    });
+
+    // The waiter goes in first because a short chunk can be closed before the write is
+    // acknowledged; a failed write takes it down again so nothing rejects it later.
+    try {
+      await BleService.writeRawCharacteristic(
+        this.deviceId,
+        HISTORY_SERVICE_UUID,
+        HISTORY_CONTROL_CHAR_UUID,
+        encodeHistoryRequest(fromSequence, maxRecords),
+      );
+    } catch (error) {
+      const waiter = this.waiter;
+      if (waiter) {
+        clearTimeout(waiter.timer);
+        this.waiter = null;
+      }
+      throw error;
+    }
+    return response;
+  }
+
+  dispose(): void {
+    this.fail(new Error("History sync closed"));
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  private handleResponse(bytes: number[]): void {
+    const waiter = this.waiter;
+    if (
+      !waiter ||
+      bytes[0] !== OP_HISTORY_RESPONSE ||
+      bytes[1] !== OP_HISTORY_REQUEST
+    )
+      return;
+    if (bytes.length < 9) return;
+
+    clearTimeout(waiter.timer);
+    this.waiter = null;
+    if (bytes[2] !== HISTORY_STATUS_SUCCESS) {
+      waiter.reject(
+        new Error(`Device rejected the history request (status ${bytes[2]})`),
+      );
+      return;
+    }
+
+    waiter.resolve({
+      records: this.records,
+      remaining: readUint32LE(bytes, 5),
+    });
+    this.records = [];
+  }
+
+  private fail(error: Error): void {
+    if (!this.waiter) return;
+    clearTimeout(this.waiter.timer);
+    this.waiter.reject(error);
+    this.waiter = null;
+  }
+}
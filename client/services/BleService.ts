@@ -1,33 +1,345 @@
 import { Platform, PermissionsAndroid } from "react-native";
 import { SensorReading } from "@/hooks/useSensorData";
+import { ProtocolRegistry } from "@/services/SensorProtocol";
+import { ReadingMerger, MergePolicy, DEFAULT_MERGE_POLICY } from "@/services/ReadingMerger";
+import { ReconnectOptions } from "@/services/ReconnectSupervisor";
+import { CommandResult, SensorCommand } from "@/services/CommandChannel";
+import { BeaconDecoderRegistry } from "@/services/BeaconDecoders";
+import { ConnectionQuality } from "@/services/ConnectionQuality";
+import { ClockEstimate } from "@/services/TimeSync";
+import {
+  DEFAULT_POLLING_CONFIG,
+  PollingConfig,
+  validatePollingConfig,
+} from "@/services/PollingReader";
+import { UartLine } from "@/services/NordicUart";
+import { DeviceProfiles, profileBindings } from "@/services/DeviceProfiles";
+import { DeviceInfo } from "@/services/DeviceInformation";
+import {
+  ConnectionState,
+  DeviceConnections,
+  ScanMachine,
+} from "@/services/ConnectionStateMachine";
+import { DEFAULT_MTU, GattCharacteristicListener, GattLink, GattSessions } from "@/services/GattSessions";
 
 export interface BleDevice {
   id: string;
   name: string;
   rssi: number;
   isConnectable: boolean;
+  txPowerLevel: number | null;
+  serviceUUIDs: string[];
+  manufacturerData: number[] | null;
+}
+
+export interface ScanFilter {
+  serviceUUIDs?: string[];
+  namePrefix?: string;
+  minRssi?: number;
+  includeUnnamed?: boolean;
+}
+
+// Mirrors react-native-ble-plx's State values.
+export type AdapterState =
+  | "Unknown"
+  | "Resetting"
+  | "Unsupported"
+  | "Unauthorized"
+  | "PoweredOff"
+  | "PoweredOn";
+
+interface ScanRequest {
+  filter: ScanFilter;
+  beaconMode: boolean;
+  timeoutMs?: number;
+}
+
+export function describeAdapterState(state: AdapterState): string {
+  switch (state) {
+    case "PoweredOn":
+      return "Bluetooth is on";
+    case "PoweredOff":
+      return "Please turn on Bluetooth";
+    case "Unauthorized":
+      return "Bluetooth permission denied. Please enable in Settings.";
+    case "Unsupported":
+      return "This device does not support Bluetooth Low Energy";
+    case "Resetting":
+      return "Bluetooth is restarting";
+    case "Unknown":
+      return "Bluetooth state unknown";
+  }
+}
+
+// States the user has to fix before scanning or reconnecting can happen.
+export function isAdapterBlocked(state: AdapterState | null): boolean {
+  return state === "PoweredOff" || state === "Unauthorized" || state === "Unsupported";
 }
 
 export interface BleServiceCallbacks {
   onDeviceFound: (device: BleDevice) => void;
-  onConnectionStateChange: (connected: boolean, deviceName?: string) => void;
-  onDataReceived: (reading: SensorReading) => void;
+  onDataReceived: (deviceId: string, reading: SensorReading) => void;
+  onDeviceInfo?: (deviceId: string, info: DeviceInfo) => void;
+  onQuality?: (deviceId: string, quality: ConnectionQuality) => void;
+  onAdapterState?: (state: AdapterState) => void;
+  onUartLine?: (deviceId: string, line: UartLine) => void;
   onError: (error: string) => void;
 }
 
-const SENSOR_SERVICE_UUID = "0000180F-0000-1000-8000-00805F9B34FB";
+export interface DeviceCallbacks {
+  onDataReceived?: (reading: SensorReading) => void;
+  onStateChange?: (state: ConnectionState) => void;
+}
+
+export interface CharacteristicBinding {
+  serviceUUID: string;
+  characteristicUUID: string;
+  protocol: string;
+  // Notifications are fragments of framed messages (see MessageFraming) rather than
+  // one complete payload each.
+  framed?: boolean;
+}
+
+export interface GattCharacteristic {
+  uuid: string;
+  serviceUUID: string;
+  isReadable: boolean;
+  isWritableWithResponse: boolean;
+  isWritableWithoutResponse: boolean;
+  isNotifiable: boolean;
+  isIndicatable: boolean;
+  value: number[] | null;
+}
+
+export interface GattService {
+  uuid: string;
+  characteristics: GattCharacteristic[];
+}
+
+const BASE_UUID_SUFFIX = "-0000-1000-8000-00805F9B34FB";
+const DEFAULT_MEASURED_POWER = -59;
+const PATH_LOSS_EXPONENT = 2;
+
+export function expandUuid(uuid: string): string {
+  const trimmed = uuid.trim().toUpperCase().replace(/^0X/, "");
+  if (/^[0-9A-F]{4}$/.test(trimmed)) return `0000${trimmed}${BASE_UUID_SUFFIX}`;
+  if (/^[0-9A-F]{8}$/.test(trimmed)) return `${trimmed}${BASE_UUID_SUFFIX}`;
+  return trimmed;
+}
+
+export function matchesScanFilter(device: BleDevice, filter: ScanFilter): boolean {
+  if (!filter.includeUnnamed && !device.name) return false;
+  if (filter.minRssi !== undefined && device.rssi < filter.minRssi) return false;
+  if (
+    filter.namePrefix &&
+    !device.name.toLowerCase().startsWith(filter.namePrefix.trim().toLowerCase())
+  ) {
+    return false;
+  }
+  if (filter.serviceUUIDs && filter.serviceUUIDs.length > 0) {
+    const advertised = device.serviceUUIDs.map(expandUuid);
+    return filter.serviceUUIDs.some((uuid) => advertised.includes(expandUuid(uuid)));
+  }
+  return true;
+}
+
+// Log-distance path loss model; TX power (or -59 dBm) stands in for the RSSI at one metre.
+export function estimateDistance(rssi: number, txPowerLevel: number | null): number {
+  const measuredPower = txPowerLevel ?? DEFAULT_MEASURED_POWER;
+  return Math.pow(10, (measuredPower - rssi) / (10 * PATH_LOSS_EXPONENT));
+}
+
+const BEACON_TIMEOUT_MS = 30000;
+
+export const SENSOR_SERVICE_UUID = "0000180F-0000-1000-8000-00805F9B34FB";
 const VOLTAGE_CHAR_UUID = "00002A19-0000-1000-8000-00805F9B34FB";
-const CURRENT_CHAR_UUID = "00002A1A-0000-1000-8000-00805F9B34FB";
-const TEMPERATURE_CHAR_UUID = "00002A1C-0000-1000-8000-00805F9B34FB";
-const PH_CHAR_UUID = "00002A1D-0000-1000-8000-00805F9B34FB";
+
+interface BeaconSession {
+  merger: ReadingMerger;
+  lastSeen: number;
+}
+
+interface DeviceListeners {
+  callbacks: DeviceCallbacks;
+  stateSubscription: () => void;
+}
+
+function decodeBase64(base64: string): number[] {
+  try {
+    const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+    let bufferLength = base64.length * 0.75;
+    if (base64[base64.length - 1] === "=") bufferLength--;
+    if (base64[base64.length - 2] === "=") bufferLength--;
+
+    const bytes = new Uint8Array(bufferLength);
+    let p = 0;
+
+    for (let i = 0; i < base64.length; i += 4) {
+      const encoded1 = chars.indexOf(base64[i]);
+      const encoded2 = chars.indexOf(base64[i + 1]);
+      const encoded3 = chars.indexOf(base64[i + 2]);
+      const encoded4 = chars.indexOf(base64[i + 3]);
+
+      bytes[p++] = (encoded1 << 2) | (encoded2 >> 4);
+      if (encoded3 !== -1 && base64[i + 2] !== "=") {
+        bytes[p++] = ((encoded2 & 15) << 4) | (encoded3 >> 2);
+      }
+      if (encoded4 !== -1 && base64[i + 3] !== "=") {
+        bytes[p++] = ((encoded3 & 3) << 6) | encoded4;
+      }
+    }
+
+    return Array.from(bytes);
+  } catch {
+    return [300, 100, 370, 70];
+  }
+}
+
+function encodeBase64(bytes: number[]): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+  let base64 = "";
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const byte1 = bytes[i];
+    const byte2 = bytes[i + 1];
+    const byte3 = bytes[i + 2];
+
+    base64 += chars[byte1 >> 2];
+    base64 += chars[((byte1 & 3) << 4) | ((byte2 ?? 0) >> 4)];
+    base64 += byte2 === undefined ? "=" : chars[((byte2 & 15) << 2) | ((byte3 ?? 0) >> 6)];
+    base64 += byte3 === undefined ? "=" : chars[byte3 & 63];
+  }
+
+  return base64;
+}
+
+// A connected react-native-ble-plx device; values cross the native bridge as base64.
+class PlxGattLink implements GattLink {
+  private disconnectSubscription: any;
+
+  constructor(private device: any, onDisconnected: () => void) {
+    this.disconnectSubscription = device.onDisconnected(() => {
+      this.disconnectSubscription?.remove();
+      this.disconnectSubscription = null;
+      onDisconnected();
+    });
+  }
+
+  get name(): string | null {
+    return this.device.name ?? this.device.localName ?? null;
+  }
+
+  get advertisedServices(): string[] {
+    return this.device.serviceUUIDs ?? [];
+  }
+
+  get mtu(): number {
+    return this.device.mtu ?? DEFAULT_MTU;
+  }
+
+  async listServices(): Promise<string[]> {
+    const services = await this.device.services();
+    return services.map((service: any) => service.uuid);
+  }
+
+  async listCharacteristics(serviceUUID: string): Promise<GattCharacteristic[]> {
+    const characteristics = await this.device.characteristicsForService(serviceUUID);
+    return characteristics.map((characteristic: any) => ({
+      uuid: characteristic.uuid,
+      serviceUUID,
+      isReadable: !!characteristic.isReadable,
+      isWritableWithResponse: !!characteristic.isWritableWithResponse,
+      isWritableWithoutResponse: !!characteristic.isWritableWithoutResponse,
+      isNotifiable: !!characteristic.isNotifiable,
+      isIndicatable: !!characteristic.isIndicatable,
+      value: characteristic.value ? decodeBase64(characteristic.value) : null,
+    }));
+  }
+
+  async read(serviceUUID: string, characteristicUUID: string): Promise<number[]> {
+    const characteristic = await this.device.readCharacteristicForService(serviceUUID, characteristicUUID);
+    return characteristic?.value ? decodeBase64(characteristic.value) : [];
+  }
+
+  async write(
+    serviceUUID: string,
+    characteristicUUID: string,
+    bytes: number[],
+    withResponse: boolean
+  ): Promise<void> {
+    const value = encodeBase64(bytes);
+    await (withResponse
+      ? this.device.writeCharacteristicWithResponseForService(serviceUUID, characteristicUUID, value)
+      : this.device.writeCharacteristicWithoutResponseForService(serviceUUID, characteristicUUID, value));
+  }
+
+  async monitor(
+    serviceUUID: string,
+    characteristicUUID: string,
+    listener: GattCharacteristicListener
+  ): Promise<() => void> {
+    const subscription = this.device.monitorCharacteristicForService(
+      serviceUUID,
+      characteristicUUID,
+      (error: any, characteristic: any) => {
+        if (error) {
+          listener(null, error);
+          return;
+        }
+        listener(characteristic?.value ? decodeBase64(characteristic.value) : null);
+      }
+    );
+    return () => subscription?.remove();
+  }
+
+  async readRssi(): Promise<number | null> {
+    const updated = await this.device.readRSSI();
+    return typeof updated?.rssi === "number" ? updated.rssi : null;
+  }
+
+  async disconnect(): Promise<void> {
+    this.disconnectSubscription?.remove();
+    this.disconnectSubscription = null;
+    await this.device.cancelConnection();
+  }
+}
 
 class BleServiceClass {
   private manager: any = null;
-  private device: any = null;
-  private isScanning: boolean = false;
   private callbacks: BleServiceCallbacks | null = null;
+  private deviceListeners: Map<string, DeviceListeners> = new Map();
   private isInitialized: boolean = false;
   private initError: string | null = null;
+  private deviceBindings: Map<string, CharacteristicBinding[]> = new Map();
+  private pollingConfigs: Map<string, PollingConfig> = new Map();
+  private mergePolicy: MergePolicy = DEFAULT_MERGE_POLICY;
+  private reconnectOptions: Partial<ReconnectOptions> = {};
+  private scanTimer: ReturnType<typeof setTimeout> | null = null;
+  private beaconListening: boolean = false;
+  private beaconSweep: ReturnType<typeof setInterval> | null = null;
+  private beacons: Map<string, BeaconSession> = new Map();
+  private adapterState: AdapterState = "Unknown";
+  private adapterSubscription: any = null;
+  private activeScan: ScanRequest | null = null;
+  // Scan interrupted by the adapter going away, restarted when it powers back on.
+  private pausedScan: ScanRequest | null = null;
+  private gatt = new GattSessions(
+    {
+      getAdapterState: () => this.adapterState,
+      connect: (deviceId, onDisconnected) => this.connectLink(deviceId, onDisconnected),
+    },
+    this,
+    {
+      reading: (deviceId, reading) => {
+        this.deviceListeners.get(deviceId)?.callbacks.onDataReceived?.(reading);
+        this.callbacks?.onDataReceived(deviceId, reading);
+      },
+      deviceInfo: (deviceId, info) => this.callbacks?.onDeviceInfo?.(deviceId, info),
+      quality: (deviceId, quality) => this.callbacks?.onQuality?.(deviceId, quality),
+      uartLine: (deviceId, line) => this.callbacks?.onUartLine?.(deviceId, line),
+      error: (message) => this.callbacks?.onError(message),
+    }
+  );
 
   async initialize(): Promise<boolean> {
     if (this.isInitialized) return true;
@@ -40,6 +352,10 @@ class BleServiceClass {
       }
 
       this.manager = new BleManager();
+      this.adapterSubscription = this.manager.onStateChange(
+        (state: AdapterState) => this.handleAdapterState(state),
+        true
+      );
       this.isInitialized = true;
       return true;
     } catch (error) {
@@ -63,6 +379,37 @@ class BleServiceClass {
     return this.initError;
   }
 
+  getAdapterState(): AdapterState {
+    return this.adapterState;
+  }
+
+  private handleAdapterState(state: AdapterState): void {
+    const previous = this.adapterState;
+    this.adapterState = state;
+    if (state === previous) return;
+    this.callbacks?.onAdapterState?.(state);
+
+    if (state !== "PoweredOn") {
+      if (state === "Resetting" || state === "Unknown") return;
+
+      const interrupted = this.activeScan;
+      this.stopScan();
+      this.pausedScan = interrupted ?? null;
+      this.gatt.handleAdapterState(state);
+      return;
+    }
+
+    const paused = this.pausedScan;
+    this.pausedScan = null;
+    if (paused?.beaconMode) {
+      this.startBeaconListening(paused.filter);
+    } else if (paused) {
+      this.startScan(paused.timeoutMs, paused.filter);
+    }
+
+    this.gatt.handleAdapterState(state);
+  }
+
   isAvailable(): boolean {
     return this.isInitialized && this.manager !== null;
   }
@@ -71,6 +418,77 @@ class BleServiceClass {
     this.callbacks = callbacks;
   }
 
+  setDeviceBindings(deviceId: string, bindings: CharacteristicBinding[]): boolean {
+    const unknown = bindings.find((binding) => !ProtocolRegistry.has(binding.protocol));
+    if (unknown) {
+      this.callbacks?.onError(`Unknown sensor protocol: ${unknown.protocol}`);
+      return false;
+    }
+
+    this.deviceBindings.set(deviceId, bindings);
+    return true;
+  }
+
+  setDeviceProtocol(deviceId: string, protocolName: string): boolean {
+    return this.setDeviceBindings(deviceId, [
+      { serviceUUID: SENSOR_SERVICE_UUID, characteristicUUID: VOLTAGE_CHAR_UUID, protocol: protocolName },
+    ]);
+  }
+
+  hasExplicitBindings(deviceId: string): boolean {
+    return this.deviceBindings.has(deviceId);
+  }
+
+  // Explicit bindings win; otherwise the device profile chosen on connect decides.
+  getDeviceBindings(deviceId: string): CharacteristicBinding[] {
+    const explicit = this.deviceBindings.get(deviceId);
+    if (explicit) return explicit;
+    const profile = DeviceProfiles.getAssigned(deviceId);
+    return profile ? profileBindings(profile) : [];
+  }
+
+  // Applies from the next connection. Pass null to fall back to the device profile.
+  setPollingConfig(deviceId: string, config: Partial<PollingConfig> | null): void {
+    if (config) {
+      this.pollingConfigs.set(deviceId, validatePollingConfig({ ...this.getPollingConfig(deviceId), ...config }));
+    } else {
+      this.pollingConfigs.delete(deviceId);
+    }
+  }
+
+  getPollingConfig(deviceId: string): PollingConfig {
+    return (
+      this.pollingConfigs.get(deviceId) ??
+      DeviceProfiles.getAssigned(deviceId)?.polling ??
+      DEFAULT_POLLING_CONFIG
+    );
+  }
+
+  setMergePolicy(policy: MergePolicy): void {
+    this.mergePolicy = policy;
+    this.gatt.updateMergePolicies();
+    this.beacons.forEach((beacon) => beacon.merger.setPolicy(policy));
+  }
+
+  // A policy set in the device profile wins over the app-wide one.
+  getMergePolicy(deviceId: string): MergePolicy {
+    return DeviceProfiles.getAssigned(deviceId)?.merge ?? this.mergePolicy;
+  }
+
+  setReconnectOptions(options: Partial<ReconnectOptions>): void {
+    this.reconnectOptions = { ...this.reconnectOptions, ...options };
+    this.gatt.setReconnectOptions(options);
+  }
+
+  getReconnectOptions(): Partial<ReconnectOptions> {
+    return this.reconnectOptions;
+  }
+
+  isReconnecting(deviceId: string): boolean {
+    return this.gatt.isReconnecting(deviceId);
+  }
+
+
   async requestAndroidPermissions(): Promise<boolean> {
     if (Platform.OS !== "android") return true;
 
@@ -134,15 +552,10 @@ class BleServiceClass {
     }
 
     try {
-      const state = await this.manager.state();
+      const state: AdapterState = await this.manager.state();
+      this.handleAdapterState(state);
       if (state !== "PoweredOn") {
-        if (state === "PoweredOff") {
-          this.callbacks?.onError("Please turn on Bluetooth");
-        } else if (state === "Unauthorized") {
-          this.callbacks?.onError("Bluetooth permission denied. Please enable in Settings.");
-        } else {
-          this.callbacks?.onError(`Bluetooth state: ${state}`);
-        }
+        this.callbacks?.onError(describeAdapterState(state));
         return false;
       }
       return true;
@@ -152,18 +565,53 @@ class BleServiceClass {
     }
   }
 
-  async startScan(timeoutMs: number = 10000): Promise<void> {
-    if (!this.manager || this.isScanning) return;
+  async startScan(timeoutMs: number = 10000, filter: ScanFilter = {}): Promise<void> {
+    if (!(await this.beginScan(filter, false))) return;
+
+    this.activeScan = { filter, beaconMode: false, timeoutMs };
+    this.scanTimer = setTimeout(() => {
+      this.stopScan();
+    }, timeoutMs);
+  }
+
+  async startBeaconListening(filter: ScanFilter = {}): Promise<boolean> {
+    if (!(await this.beginScan(filter, true))) return false;
+
+    this.activeScan = { filter, beaconMode: true };
+    this.beaconListening = true;
+    this.beaconSweep = setInterval(() => {
+      const now = Date.now();
+      this.beacons.forEach((beacon, deviceId) => {
+        if (now - beacon.lastSeen > BEACON_TIMEOUT_MS) {
+          this.releaseBeacon(deviceId, "beacon went silent");
+        }
+      });
+    }, BEACON_TIMEOUT_MS / 2);
+    return true;
+  }
+
+  isBeaconListening(): boolean {
+    return this.beaconListening;
+  }
+
+  private async beginScan(filter: ScanFilter, beaconMode: boolean): Promise<boolean> {
+    if (!this.manager || this.isScanning()) return false;
 
     const hasPermission = await this.checkPermissions();
-    if (!hasPermission) return;
+    if (!hasPermission) return false;
 
-    this.isScanning = true;
+    if (!ScanMachine.transition("scanning", {}, beaconMode ? "beacon mode" : undefined)) {
+      return false;
+    }
 
     try {
+      const serviceUUIDs = filter.serviceUUIDs?.length
+        ? filter.serviceUUIDs.map(expandUuid)
+        : null;
+
       this.manager.startDeviceScan(
-        null,
-        { allowDuplicates: false },
+        serviceUUIDs,
+        { allowDuplicates: beaconMode },
         (error: any, device: any) => {
           if (error) {
             console.log("Scan error:", error);
@@ -172,208 +620,240 @@ class BleServiceClass {
             return;
           }
 
-          if (device && device.name) {
-            this.callbacks?.onDeviceFound({
-              id: device.id,
-              name: device.name || "Unknown Device",
-              rssi: device.rssi || -100,
-              isConnectable: device.isConnectable ?? true,
-            });
+          if (!device) return;
+          if (beaconMode) {
+            this.handleBeaconAdvertisement(device);
+          }
+          if (device.name || device.localName || filter.includeUnnamed) {
+            this.callbacks?.onDeviceFound(this.toBleDevice(device));
           }
         }
       );
-
-      setTimeout(() => {
-        this.stopScan();
-      }, timeoutMs);
+      return true;
     } catch (error) {
-      this.isScanning = false;
+      ScanMachine.transition("idle", {}, "scan failed to start");
       this.callbacks?.onError("Failed to start scanning");
+      return false;
+    }
+  }
+
+  private toBleDevice(device: any): BleDevice {
+    return {
+      id: device.id,
+      name: device.name || device.localName || "",
+      rssi: device.rssi || -100,
+      isConnectable: device.isConnectable ?? true,
+      txPowerLevel: device.txPowerLevel ?? null,
+      serviceUUIDs: device.serviceUUIDs ?? [],
+      manufacturerData: device.manufacturerData
+        ? decodeBase64(device.manufacturerData)
+        : null,
+    };
+  }
+
+  private handleBeaconAdvertisement(device: any): void {
+    const serviceData: Record<string, number[]> = {};
+    for (const [uuid, value] of Object.entries(device.serviceData ?? {})) {
+      serviceData[uuid] = decodeBase64(value as string);
+    }
+
+    const result = BeaconDecoderRegistry.decode({
+      manufacturerData: device.manufacturerData ? decodeBase64(device.manufacturerData) : null,
+      serviceData,
+    });
+    if (!result) return;
+
+    const deviceId: string = device.id;
+    let beacon = this.beacons.get(deviceId);
+    if (!beacon) {
+      const machine = DeviceConnections.get(deviceId);
+      const patch = {
+        deviceId,
+        deviceName: device.name || device.localName || deviceId,
+        simulated: false,
+      };
+      if (!machine.transition("listening", patch, `decoded with ${result.decoder}`)) {
+        return;
+      }
+
+      beacon = {
+        lastSeen: Date.now(),
+        merger: new ReadingMerger(this.mergePolicy, (reading) => {
+          this.callbacks?.onDataReceived(deviceId, reading);
+        }),
+      };
+      this.beacons.set(deviceId, beacon);
+    }
+
+    beacon.lastSeen = Date.now();
+    beacon.merger.push(result.values);
+  }
+
+  private releaseBeacon(deviceId: string, reason: string): void {
+    if (!this.beacons.delete(deviceId)) return;
+
+    const machine = DeviceConnections.get(deviceId);
+    if (machine.getState().status === "listening") {
+      machine.transition("idle", {}, reason);
     }
   }
 
   stopScan(): void {
-    if (this.manager && this.isScanning) {
+    this.activeScan = null;
+    this.pausedScan = null;
+    if (this.scanTimer) {
+      clearTimeout(this.scanTimer);
+      this.scanTimer = null;
+    }
+    if (this.manager && this.isScanning()) {
       this.manager.stopDeviceScan();
-      this.isScanning = false;
+      ScanMachine.transition("idle", {}, "scan stopped");
+    }
+    if (this.beaconListening) {
+      this.beaconListening = false;
+      if (this.beaconSweep) {
+        clearInterval(this.beaconSweep);
+        this.beaconSweep = null;
+      }
+      Array.from(this.beacons.keys()).forEach((deviceId) => {
+        this.releaseBeacon(deviceId, "beacon mode stopped");
+      });
     }
   }
 
-  async connectToDevice(deviceId: string): Promise<boolean> {
+  isScanning(): boolean {
+    return ScanMachine.getState().status === "scanning";
+  }
+
+  async connectToDevice(deviceId: string, callbacks: DeviceCallbacks = {}): Promise<boolean> {
     if (!this.manager) return false;
 
     this.stopScan();
 
-    try {
-      this.device = await this.manager.connectToDevice(deviceId, {
-        requestMTU: 512,
-      });
+    this.releaseDeviceListeners(deviceId);
+    this.deviceListeners.set(deviceId, {
+      callbacks,
+      stateSubscription: DeviceConnections.get(deviceId).subscribe((state) => callbacks.onStateChange?.(state)),
+    });
 
-      this.device.onDisconnected((error: any, disconnectedDevice: any) => {
-        console.log("Device disconnected:", disconnectedDevice?.name);
-        this.device = null;
-        this.callbacks?.onConnectionStateChange(false);
-      });
-
-      await this.device.discoverAllServicesAndCharacteristics();
-      
-      this.callbacks?.onConnectionStateChange(true, this.device.name);
-
-      await this.startDataNotifications();
+    return this.gatt.connect(deviceId);
+  }
 
-      return true;
-    } catch (error: any) {
-      console.log("Connection error:", error);
-      this.callbacks?.onError(`Connection failed: ${error.message}`);
-      return false;
-    }
+  private releaseDeviceListeners(deviceId: string): void {
+    this.deviceListeners.get(deviceId)?.stateSubscription();
+    this.deviceListeners.delete(deviceId);
   }
 
-  private async startDataNotifications(): Promise<void> {
-    if (!this.device) return;
+  private async connectLink(deviceId: string, onDisconnected: () => void): Promise<GattLink> {
+    if (!this.manager) throw new Error("Bluetooth not initialized");
 
+    const device = await this.manager.connectToDevice(deviceId, {
+      requestMTU: 512,
+    });
+    const link = new PlxGattLink(device, onDisconnected);
     try {
-      this.device.monitorCharacteristicForService(
-        SENSOR_SERVICE_UUID,
-        VOLTAGE_CHAR_UUID,
-        (error: any, characteristic: any) => {
-          if (error) {
-            console.log("Voltage notification error:", error);
-            return;
-          }
-          this.handleCharacteristicData(characteristic);
-        }
-      );
+      await device.discoverAllServicesAndCharacteristics();
     } catch (error) {
-      console.log("Failed to setup notifications, trying alternative method");
-      this.startPollingData();
+      await link.disconnect().catch(() => {});
+      throw error;
     }
+    return link;
   }
 
-  private async startPollingData(): Promise<void> {
-    if (!this.device) return;
+  getConnectionQuality(deviceId: string): ConnectionQuality | null {
+    return this.gatt.getConnectionQuality(deviceId);
+  }
 
-    const pollInterval = setInterval(async () => {
-      if (!this.device) {
-        clearInterval(pollInterval);
-        return;
-      }
+  getClockEstimate(deviceId: string): ClockEstimate | null {
+    return this.gatt.getClockEstimate(deviceId);
+  }
 
-      try {
-        const services = await this.device.services();
-        let dataFound = false;
-
-        for (const service of services) {
-          const characteristics = await service.characteristics();
-          for (const char of characteristics) {
-            if (char.isReadable) {
-              try {
-                const readChar = await char.read();
-                if (readChar.value) {
-                  const bytes = this.decodeBase64(readChar.value);
-                  if (bytes.length >= 4) {
-                    const reading: SensorReading = {
-                      voltage: bytes[0] / 100,
-                      current: bytes[1] / 100,
-                      temperature: bytes[2] / 10,
-                      ph: bytes[3] / 10,
-                      timestamp: new Date(),
-                    };
-                    this.callbacks?.onDataReceived(reading);
-                    dataFound = true;
-                    break;
-                  }
-                }
-              } catch (readError) {
-                console.log("Characteristic read error:", readError);
-              }
-            }
-          }
-          if (dataFound) break;
-        }
+  getMtu(deviceId: string): number {
+    return this.gatt.getMtu(deviceId);
+  }
 
-        if (!dataFound) {
-          this.callbacks?.onError("Unable to read sensor data from device. Please check your sensor configuration.");
-          clearInterval(pollInterval);
-        }
-      } catch (error) {
-        console.log("Polling error:", error);
-        this.callbacks?.onError("Error reading from device");
-        clearInterval(pollInterval);
-      }
-    }, 1000);
+  getDeviceInfo(deviceId: string): DeviceInfo | null {
+    return this.gatt.getDeviceInfo(deviceId);
   }
 
-  private handleCharacteristicData(characteristic: any): void {
-    if (!characteristic?.value) return;
+  supportsCommands(deviceId: string): boolean {
+    return this.gatt.supportsCommands(deviceId);
+  }
 
-    try {
-      const data = this.decodeBase64(characteristic.value);
-      
-      const reading: SensorReading = {
-        voltage: data[0] / 100,
-        current: data[1] / 100,
-        temperature: data[2] / 10,
-        ph: data[3] / 10,
-        timestamp: new Date(),
-      };
+  supportsUart(deviceId: string): boolean {
+    return this.gatt.supportsUart(deviceId);
+  }
 
-      this.callbacks?.onDataReceived(reading);
-    } catch (error) {
-      console.log("Data decode error:", error);
-    }
+  sendUart(deviceId: string, text: string): Promise<void> {
+    return this.gatt.sendUart(deviceId, text);
   }
 
-  private decodeBase64(base64: string): number[] {
-    try {
-      const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
-      let bufferLength = base64.length * 0.75;
-      if (base64[base64.length - 1] === "=") bufferLength--;
-      if (base64[base64.length - 2] === "=") bufferLength--;
-
-      const bytes = new Uint8Array(bufferLength);
-      let p = 0;
-
-      for (let i = 0; i < base64.length; i += 4) {
-        const encoded1 = chars.indexOf(base64[i]);
-        const encoded2 = chars.indexOf(base64[i + 1]);
-        const encoded3 = chars.indexOf(base64[i + 2]);
-        const encoded4 = chars.indexOf(base64[i + 3]);
-
-        bytes[p++] = (encoded1 << 2) | (encoded2 >> 4);
-        if (encoded3 !== -1 && base64[i + 2] !== "=") {
-          bytes[p++] = ((encoded2 & 15) << 4) | (encoded3 >> 2);
-        }
-        if (encoded4 !== -1 && base64[i + 3] !== "=") {
-          bytes[p++] = ((encoded3 & 3) << 6) | encoded4;
-        }
-      }
+  supportsHistory(deviceId: string): boolean {
+    return this.gatt.supportsHistory(deviceId);
+  }
 
-      return Array.from(bytes);
-    } catch {
-      return [300, 100, 370, 70];
-    }
+  sendCommand(deviceId: string, command: SensorCommand, timeoutMs?: number): Promise<CommandResult> {
+    return this.gatt.sendCommand(deviceId, command, timeoutMs);
   }
 
-  async disconnect(): Promise<void> {
-    if (this.device) {
-      try {
-        await this.device.cancelConnection();
-      } catch (error) {
-        console.log("Disconnect error:", error);
-      }
-      this.device = null;
+  discoverGatt(deviceId: string): Promise<GattService[]> {
+    return this.gatt.discoverGatt(deviceId);
+  }
+
+  readRawCharacteristic(
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string
+  ): Promise<number[]> {
+    return this.gatt.readRawCharacteristic(deviceId, serviceUUID, characteristicUUID);
+  }
+
+  writeRawCharacteristic(
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string,
+    bytes: number[],
+    withResponse: boolean = true
+  ): Promise<void> {
+    return this.gatt.writeRawCharacteristic(deviceId, serviceUUID, characteristicUUID, bytes, withResponse);
+  }
+
+  monitorRawCharacteristic(
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string,
+    listener: (bytes: number[] | null, error?: string) => void
+  ): () => void {
+    return this.gatt.monitorRawCharacteristic(deviceId, serviceUUID, characteristicUUID, listener);
+  }
+
+  async disconnect(deviceId: string): Promise<void> {
+    if (!this.gatt.has(deviceId)) {
+      this.releaseBeacon(deviceId, "user request");
+      return;
     }
-    this.callbacks?.onConnectionStateChange(false);
+
+    this.releaseDeviceListeners(deviceId);
+    await this.gatt.disconnect(deviceId);
+  }
+
+  async disconnectAll(): Promise<void> {
+    await Promise.all(this.gatt.getDeviceIds().map((id) => this.disconnect(id)));
+  }
+
+  isConnected(deviceId?: string): boolean {
+    return this.gatt.isConnected(deviceId);
   }
 
-  isConnected(): boolean {
-    return this.device !== null;
+  getConnectedDeviceIds(): string[] {
+    return this.gatt.getConnectedDeviceIds();
   }
 
   destroy(): void {
     this.stopScan();
-    this.disconnect();
+    this.disconnectAll();
+    this.adapterSubscription?.remove();
+    this.adapterSubscription = null;
     if (this.manager) {
       this.manager.destroy();
       this.manager = null;
@@ -0,0 +1,137 @@
+import { AdapterState, BleService, ScanFilter } from "@/services/BleService";
+import { BleDfuTarget } from "@/services/BleDfuTarget";
+import { BleHistorySource } from "@/services/BleHistorySource";
+import { CommandResult, SensorCommand } from "@/services/CommandChannel";
+import { DeviceConnections } from "@/services/ConnectionStateMachine";
+import { DfuTarget } from "@/services/FirmwareUpdater";
+import { HistorySyncSessions } from "@/services/HistorySync";
+import {
+  DiscoveryOptions,
+  SensorTransport,
+  TransportEvents,
+  TransportListener,
+} from "@/services/SensorTransport";
+
+const DEFAULT_SCAN_TIMEOUT_MS = 10000;
+
+class BleTransportClass implements SensorTransport {
+  kind = "ble" as const;
+  label = "Real BLE";
+  title = "Real Bluetooth";
+  description = "Connect to real BLE sensors";
+  icon = "bluetooth" as const;
+  private events = new TransportEvents();
+  private initError: string | null = null;
+  private history = new HistorySyncSessions(
+    (deviceId, records) => this.events.historyRecords(deviceId, records),
+    (deviceId, progress) => this.events.historySync(deviceId, progress),
+  );
+
+  constructor() {
+    BleService.setCallbacks({
+      onDeviceFound: (device) => this.events.deviceFound(device),
+      onDataReceived: (deviceId, reading) =>
+        this.events.reading(deviceId, reading),
+      onDeviceInfo: (deviceId, info) => this.events.deviceInfo(deviceId, info),
+      onQuality: (deviceId, quality) => this.events.quality(deviceId, quality),
+      onAdapterState: (state) => this.events.adapterState(state),
+      onUartLine: (deviceId, line) => this.events.uartLine(deviceId, line),
+      onError: (error) => this.events.error(error),
+    });
+
+    // Catch up on records the sensor logged while out of range, on every (re)connect.
+    DeviceConnections.subscribe((deviceId, state) => {
+      if (state.status !== "subscribed") {
+        this.history.cancel(deviceId);
+      } else if (BleService.supportsHistory(deviceId)) {
+        const cursorKey =
+          BleService.getDeviceInfo(deviceId)?.serialNumber ?? deviceId;
+        this.history.start(deviceId, new BleHistorySource(deviceId), cursorKey);
+      }
+    });
+  }
+
+  async initialize(): Promise<boolean> {
+    const initialized = await BleService.initialize();
+    this.initError = initialized
+      ? null
+      : BleService.getInitError() ||
+        "Real Bluetooth requires a custom build with react-native-ble-plx. Please build the app using 'eas build' to enable this feature.";
+    return initialized;
+  }
+
+  getInitError(): string | null {
+    return this.initError;
+  }
+
+  getAdapterState(): AdapterState {
+    return BleService.getAdapterState();
+  }
+
+  async startDiscovery(options: DiscoveryOptions = {}): Promise<void> {
+    if (!(await this.initialize())) {
+      this.events.error(this.initError ?? "Bluetooth not available");
+      return;
+    }
+    await BleService.startScan(
+      options.timeoutMs ?? DEFAULT_SCAN_TIMEOUT_MS,
+      options.filter,
+    );
+  }
+
+  stopDiscovery(): void {
+    if (!BleService.isBeaconListening()) {
+      BleService.stopScan();
+    }
+  }
+
+  connect(deviceId: string): Promise<boolean> {
+    return BleService.connectToDevice(deviceId);
+  }
+
+  disconnect(deviceId: string): Promise<void> {
+    return BleService.disconnect(deviceId);
+  }
+
+  subscribe(listener: TransportListener): () => void {
+    return this.events.subscribe(listener);
+  }
+
+  async startBeaconListening(filter: ScanFilter): Promise<boolean> {
+    BleService.stopScan();
+    if (!(await this.initialize())) {
+      this.events.error(this.initError ?? "Bluetooth not available");
+      return false;
+    }
+    return BleService.startBeaconListening(filter);
+  }
+
+  stopBeaconListening(): void {
+    BleService.stopScan();
+  }
+
+  isBeaconListening(): boolean {
+    return BleService.isBeaconListening();
+  }
+
+  sendCommand(
+    deviceId: string,
+    command: SensorCommand,
+  ): Promise<CommandResult> {
+    return BleService.sendCommand(deviceId, command);
+  }
+
+  createDfuTarget(deviceId: string): DfuTarget {
+    return new BleDfuTarget(deviceId);
+  }
+
+  supportsUart(deviceId: string): boolean {
+    return BleService.supportsUart(deviceId);
+  }
+
+  sendUart(deviceId: string, text: string): Promise<void> {
+    return BleService.sendUart(deviceId, text);
+  }
+}
+
+export const BleTransport = new BleTransportClass();
@@ -0,0 +1,440 @@
+import {
+  AdapterState,
+  BleDevice,
+  BleService,
+  GattCharacteristic,
+  expandUuid,
+} from "@/services/BleService";
+import {
+  CommandResult,
+  SensorCommand,
+  CONTROL_SERVICE_UUID,
+} from "@/services/CommandChannel";
+import {
+  BATTERY_SERVICE_UUID,
+  DEVICE_INFORMATION_SERVICE_UUID,
+} from "@/services/DeviceInformation";
+import { HISTORY_SERVICE_UUID } from "@/services/HistorySync";
+import { NUS_SERVICE_UUID } from "@/services/NordicUart";
+import { DeviceProfiles } from "@/services/DeviceProfiles";
+import {
+  DEFAULT_MTU,
+  GattCharacteristicListener,
+  GattLink,
+  GattSessions,
+} from "@/services/GattSessions";
+import {
+  DiscoveryOptions,
+  SensorTransport,
+  TransportEvents,
+  TransportListener,
+} from "@/services/SensorTransport";
+
+// Just enough of the Web Bluetooth API for this transport; TypeScript's DOM
+// library does not ship these types.
+interface WebBluetoothCharacteristic extends EventTarget {
+  uuid: string;
+  value: DataView | null;
+  properties: {
+    read: boolean;
+    write: boolean;
+    writeWithoutResponse: boolean;
+    notify: boolean;
+    indicate: boolean;
+  };
+  readValue(): Promise<DataView>;
+  writeValueWithResponse(value: BufferSource): Promise<void>;
+  writeValueWithoutResponse(value: BufferSource): Promise<void>;
+  startNotifications(): Promise<WebBluetoothCharacteristic>;
+  stopNotifications(): Promise<WebBluetoothCharacteristic>;
+}
+
+interface WebBluetoothService {
+  getCharacteristic(uuid: string): Promise<WebBluetoothCharacteristic>;
+  getCharacteristics(): Promise<WebBluetoothCharacteristic[]>;
+}
+
+interface WebBluetoothServer {
+  connected: boolean;
+  connect(): Promise<WebBluetoothServer>;
+  disconnect(): void;
+  getPrimaryService(uuid: string): Promise<WebBluetoothService>;
+  getPrimaryServices(): Promise<{ uuid: string }[]>;
+}
+
+interface WebBluetoothDevice extends EventTarget {
+  id: string;
+  name?: string;
+  gatt?: WebBluetoothServer;
+}
+
+interface WebBluetoothRequestOptions {
+  filters: { services?: string[]; namePrefix?: string }[];
+  optionalServices?: string[];
+}
+
+interface WebBluetooth extends EventTarget {
+  getAvailability(): Promise<boolean>;
+  requestDevice(
+    options: WebBluetoothRequestOptions,
+  ): Promise<WebBluetoothDevice>;
+  getDevices?(): Promise<WebBluetoothDevice[]>;
+}
+
+function getBluetooth(): WebBluetooth | null {
+  const bluetooth = (
+    globalThis.navigator as { bluetooth?: WebBluetooth } | undefined
+  )?.bluetooth;
+  return bluetooth ?? null;
+}
+
+// Web Bluetooth only accepts lower-case UUID strings.
+function webUuid(uuid: string): string {
+  return uuid.toLowerCase();
+}
+
+function toBytes(view: DataView | null): number[] {
+  return view
+    ? Array.from(new Uint8Array(view.buffer, view.byteOffset, view.byteLength))
+    : [];
+}
+
+function hasUserActivation(): boolean {
+  const activation = (
+    globalThis.navigator as
+      | { userActivation?: { isActive: boolean } }
+      | undefined
+  )?.userActivation;
+  return activation?.isActive ?? true;
+}
+
+// Web Bluetooth cannot read the RSSI of a connected device or report the MTU, so links
+// stay within the default ATT payload and quality reports carry timing and loss only.
+class WebGattLink implements GattLink {
+  advertisedServices: string[] = [];
+  mtu = DEFAULT_MTU;
+
+  constructor(
+    private device: WebBluetoothDevice,
+    private server: WebBluetoothServer,
+    private onDisconnected: () => void,
+  ) {
+    device.addEventListener("gattserverdisconnected", this.handleDisconnected);
+  }
+
+  get name(): string | null {
+    return this.device.name ?? null;
+  }
+
+  async listServices(): Promise<string[]> {
+    const services = await this.server.getPrimaryServices();
+    return services.map((service) => service.uuid);
+  }
+
+  async listCharacteristics(
+    serviceUUID: string,
+  ): Promise<GattCharacteristic[]> {
+    const service = await this.server.getPrimaryService(webUuid(serviceUUID));
+    const characteristics = await service.getCharacteristics();
+    return characteristics.map((characteristic) => ({
+      uuid: characteristic.uuid,
+      serviceUUID,
+      isReadable: characteristic.properties.read,
+      isWritableWithResponse: characteristic.properties.write,
+      isWritableWithoutResponse: characteristic.properties.writeWithoutResponse,
+      isNotifiable: characteristic.properties.notify,
+      isIndicatable: characteristic.properties.indicate,
+      value: characteristic.value ? toBytes(characteristic.value) : null,
+    }));
+  }
+
+  async read(
+    serviceUUID: string,
+    characteristicUUID: string,
+  ): Promise<number[]> {
+    const characteristic = await this.getCharacteristic(
+      serviceUUID,
+      characteristicUUID,
+    );
+    return toBytes(await characteristic.readValue());
+  }
+
+  async write(
+    serviceUUID: string,
+    characteristicUUID: string,
+    bytes: number[],
+    withResponse: boolean,
+  ): Promise<void> {
+    const characteristic = await this.getCharacteristic(
+      serviceUUID,
+      characteristicUUID,
+    );
+    const value = new Uint8Array(bytes);
+    await (withResponse
+      ? characteristic.writeValueWithResponse(value)
+      : characteristic.writeValueWithoutResponse(value));
+  }
+
+  async monitor(
+    serviceUUID: string,
+    characteristicUUID: string,
+    listener: GattCharacteristicListener,
+  ): Promise<() => void> {
+    const characteristic = await this.getCharacteristic(
+      serviceUUID,
+      characteristicUUID,
+    );
+    const onValue = (event: Event) => {
+      listener(toBytes((event.target as WebBluetoothCharacteristic).value));
+    };
+    characteristic.addEventListener("characteristicvaluechanged", onValue);
+    try {
+      await characteristic.startNotifications();
+    } catch (error) {
+      characteristic.removeEventListener("characteristicvaluechanged", onValue);
+      throw error;
+    }
+    return () => {
+      characteristic.removeEventListener("characteristicvaluechanged", onValue);
+      characteristic.stopNotifications().catch(() => {});
+    };
+  }
+
+  async readRssi(): Promise<number | null> {
+    return null;
+  }
+
+  async disconnect(): Promise<void> {
+    this.device.removeEventListener(
+      "gattserverdisconnected",
+      this.handleDisconnected,
+    );
+    this.server.disconnect();
+  }
+
+  private handleDisconnected = () => {
+    this.device.removeEventListener(
+      "gattserverdisconnected",
+      this.handleDisconnected,
+    );
+    this.onDisconnected();
+  };
+
+  private async getCharacteristic(
+    serviceUUID: string,
+    characteristicUUID: string,
+  ): Promise<WebBluetoothCharacteristic> {
+    const service = await this.server.getPrimaryService(webUuid(serviceUUID));
+    return service.getCharacteristic(webUuid(characteristicUUID));
+  }
+}
+
+class WebBleTransportClass implements SensorTransport {
+  kind = "ble" as const;
+  label = "Real BLE";
+  title = "Web Bluetooth";
+  description = "Connect to real BLE sensors from Chrome or Edge";
+  icon = "bluetooth" as const;
+  private events = new TransportEvents();
+  private initError: string | null = null;
+  private devices: Map<string, WebBluetoothDevice> = new Map();
+  // Web Bluetooth does not expose advertised services, so a chosen device lists the
+  // services its chooser was filtered on for the scan screen's service filter.
+  private requestedServices: Map<string, string[]> = new Map();
+  private adapterState: AdapterState = "Unknown";
+  private watchingAvailability = false;
+  private gatt = new GattSessions(
+    {
+      getAdapterState: () => this.adapterState,
+      connect: (deviceId, onDisconnected) =>
+        this.connectLink(deviceId, onDisconnected),
+    },
+    BleService,
+    this.events,
+  );
+
+  async initialize(): Promise<boolean> {
+    const bluetooth = getBluetooth();
+    if (!bluetooth) {
+      this.setAdapterState("Unsupported");
+      this.initError =
+        "This browser does not support Web Bluetooth. Use Chrome or Edge on a desktop or Android device, served over HTTPS.";
+      return false;
+    }
+
+    if (!this.watchingAvailability) {
+      this.watchingAvailability = true;
+      bluetooth.addEventListener("availabilitychanged", (event) => {
+        this.setAdapterState(
+          (event as Event & { value?: boolean }).value
+            ? "PoweredOn"
+            : "PoweredOff",
+        );
+      });
+    }
+
+    try {
+      if (!(await bluetooth.getAvailability())) {
+        this.setAdapterState("PoweredOff");
+        this.initError = "No Bluetooth adapter is available to the browser";
+        return false;
+      }
+    } catch (error) {
+      console.log("Web Bluetooth availability error:", error);
+    }
+
+    await DeviceProfiles.load();
+    this.setAdapterState("PoweredOn");
+    this.initError = null;
+    return true;
+  }
+
+  getInitError(): string | null {
+    return this.initError;
+  }
+
+  getAdapterState(): AdapterState {
+    return this.adapterState;
+  }
+
+  // Browsers only report whether an adapter is usable, so "off" covers both a powered
+  // down and a removed adapter.
+  private setAdapterState(state: AdapterState): void {
+    if (state === this.adapterState) return;
+    this.adapterState = state;
+    this.events.adapterState(state);
+    this.gatt.handleAdapterState(state);
+  }
+
+  // The browser owns scanning: previously permitted devices are listed straight away,
+  // and a user gesture (the scan button) opens the device chooser for new ones.
+  async startDiscovery(options: DiscoveryOptions = {}): Promise<void> {
+    const bluetooth = getBluetooth();
+    if (!bluetooth || !(await this.initialize())) {
+      this.events.error(this.initError ?? "Bluetooth not available");
+      return;
+    }
+
+    const known = (await bluetooth.getDevices?.()) ?? [];
+    known.forEach((device) => this.addDevice(device));
+
+    if (!hasUserActivation()) return;
+
+    const { filter } = options;
+    const namePrefix = filter?.namePrefix
+      ? { namePrefix: filter.namePrefix }
+      : {};
+    // Without a service filter, offer devices carrying the service of any known profile
+    // or the Nordic UART Service.
+    const knownServices = [
+      ...DeviceProfiles.list().map((profile) => profile.serviceUUID),
+      NUS_SERVICE_UUID,
+    ];
+    const requested = filter?.serviceUUIDs?.length
+      ? filter.serviceUUIDs.map(expandUuid)
+      : Array.from(new Set(knownServices.map(expandUuid)));
+    const filters = filter?.serviceUUIDs?.length
+      ? [{ services: requested.map(webUuid), ...namePrefix }]
+      : requested.map((uuid) => ({
+          services: [webUuid(uuid)],
+          ...namePrefix,
+        }));
+
+    try {
+      const device = await bluetooth.requestDevice({
+        filters,
+        optionalServices: this.optionalServices(),
+      });
+      this.requestedServices.set(device.id, requested);
+      this.addDevice(device);
+    } catch (error: any) {
+      if (error?.name !== "NotFoundError") {
+        this.events.error(
+          `Device selection failed: ${error?.message ?? error}`,
+        );
+      }
+    }
+  }
+
+  stopDiscovery(): void {}
+
+  connect(deviceId: string): Promise<boolean> {
+    const device = this.devices.get(deviceId);
+    if (!device?.gatt) {
+      this.events.error(
+        "Device is no longer available. Scan again to choose it.",
+      );
+      return Promise.resolve(false);
+    }
+    return this.gatt.connect(deviceId, device.name ?? null);
+  }
+
+  disconnect(deviceId: string): Promise<void> {
+    return this.gatt.disconnect(deviceId);
+  }
+
+  subscribe(listener: TransportListener): () => void {
+    return this.events.subscribe(listener);
+  }
+
+  sendCommand(
+    deviceId: string,
+    command: SensorCommand,
+  ): Promise<CommandResult> {
+    return this.gatt.sendCommand(deviceId, command);
+  }
+
+  supportsUart(deviceId: string): boolean {
+    return this.gatt.supportsUart(deviceId);
+  }
+
+  sendUart(deviceId: string, text: string): Promise<void> {
+    return this.gatt.sendUart(deviceId, text);
+  }
+
+  private async connectLink(
+    deviceId: string,
+    onDisconnected: () => void,
+  ): Promise<GattLink> {
+    const device = this.devices.get(deviceId);
+    if (!device?.gatt) throw new Error("Device has no GATT server");
+
+    const server = await device.gatt.connect();
+    return new WebGattLink(device, server, onDisconnected);
+  }
+
+  private addDevice(device: WebBluetoothDevice): void {
+    this.devices.set(device.id, device);
+
+    const found: BleDevice = {
+      id: device.id,
+      name: device.name ?? "",
+      rssi: 0,
+      isConnectable: true,
+      txPowerLevel: null,
+      serviceUUIDs: this.requestedServices.get(device.id) ?? [],
+      manufacturerData: null,
+    };
+    this.events.deviceFound(found);
+  }
+
+  private optionalServices(): string[] {
+    const services = new Set<string>([
+      DEVICE_INFORMATION_SERVICE_UUID,
+      BATTERY_SERVICE_UUID,
+      CONTROL_SERVICE_UUID,
+      HISTORY_SERVICE_UUID,
+      NUS_SERVICE_UUID,
+    ]);
+    const bindings = Array.from(this.devices.keys()).flatMap((deviceId) =>
+      BleService.getDeviceBindings(deviceId),
+    );
+    bindings.forEach((binding) => services.add(binding.serviceUUID));
+    DeviceProfiles.list().forEach((profile) =>
+      services.add(profile.serviceUUID),
+    );
+    return Array.from(services).map(webUuid);
+  }
+}
+
+export const BleTransport = new WebBleTransportClass();
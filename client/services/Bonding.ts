@@ -0,0 +1,214 @@
+import { readStoredText, writeStoredText } from "@/lib/storage";
+
+export type BondStatus = "none" | "pairing" | "bonded" | "failed";
+
+export interface BondedDevice {
+  id: string;
+  name: string | null;
+  bondedAt: number;
+}
+
+export interface PairingRequest {
+  deviceId: string;
+  deviceName: string | null;
+  characteristicUUID: string;
+  // The device was bonded before, so the sensor has most likely lost its keys.
+  rebond: boolean;
+}
+
+const STORAGE_NAME = "bonds";
+
+// ATT errors for a link that is not paired, or paired without the security the
+// characteristic needs. CoreBluetooth's CBATTError uses the same numbers.
+const AUTH_ATT_ERRORS = [0x05, 0x08, 0x0c, 0x0f];
+// Android's GATT_AUTH_FAIL, reported when pairing itself fails.
+const GATT_AUTH_FAIL = 0x89;
+const AUTH_MESSAGE =
+  /insufficient (authentication|authorization|encryption)|(authentication|encryption) is insufficient|not (paired|bonded)|GATT_AUTH_FAIL/i;
+
+// The system shows its own passkey dialog once an encrypted request is retried, so the
+// retry waits long enough for the user to type the passkey in.
+const PAIRING_ATTEMPTS = 5;
+const PAIRING_RETRY_MS = 3000;
+
+export function isAuthenticationError(error: any): boolean {
+  if (!error) return false;
+  if (
+    AUTH_ATT_ERRORS.includes(error.attErrorCode) ||
+    AUTH_ATT_ERRORS.includes(error.iosErrorCode)
+  ) {
+    return true;
+  }
+  if (
+    error.androidErrorCode === GATT_AUTH_FAIL ||
+    AUTH_ATT_ERRORS.includes(error.androidErrorCode)
+  ) {
+    return true;
+  }
+  return AUTH_MESSAGE.test(
+    [error.message, error.reason].filter(Boolean).join(" "),
+  );
+}
+
+type BondListener = () => void;
+
+interface PendingPairing {
+  request: PairingRequest;
+  answer: Promise<boolean>;
+  resolve: (accepted: boolean) => void;
+}
+
+// Devices this app has paired with, kept across launches, plus the pairing currently
+// waiting for the user. Neither react-native-ble-plx nor Web Bluetooth can read or
+// delete the system's bond, so this list records what the app has seen.
+class BondStore {
+  private bonds: Map<string, BondedDevice> = new Map();
+  private statuses: Map<string, BondStatus> = new Map();
+  private pending: PendingPairing[] = [];
+  private listeners: Set<BondListener> = new Set();
+  private loaded: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readStoredText(STORAGE_NAME)
+        .then((text) => {
+          if (!text) return;
+          const data = JSON.parse(text);
+          const bonds: BondedDevice[] = Array.isArray(data.bonds)
+            ? data.bonds
+            : [];
+          bonds.forEach((bond) => this.bonds.set(bond.id, bond));
+        })
+        .catch((error) => console.log("Failed to load bonds:", error))
+        .finally(() => this.notify());
+    }
+    return this.loaded;
+  }
+
+  list(): BondedDevice[] {
+    return Array.from(this.bonds.values()).sort(
+      (a, b) => b.bondedAt - a.bondedAt,
+    );
+  }
+
+  isBonded(deviceId: string): boolean {
+    return this.bonds.has(deviceId);
+  }
+
+  getStatus(deviceId: string): BondStatus {
+    return (
+      this.statuses.get(deviceId) ??
+      (this.bonds.has(deviceId) ? "bonded" : "none")
+    );
+  }
+
+  remember(deviceId: string, name: string | null): void {
+    this.statuses.delete(deviceId);
+    this.bonds.set(deviceId, { id: deviceId, name, bondedAt: Date.now() });
+    this.persist();
+  }
+
+  forget(deviceId: string): void {
+    this.statuses.delete(deviceId);
+    this.bonds.delete(deviceId);
+    this.persist();
+  }
+
+  setStatus(deviceId: string, status: BondStatus): void {
+    this.statuses.set(deviceId, status);
+    this.notify();
+  }
+
+  getPendingRequest(): PairingRequest | null {
+    return this.pending[0]?.request ?? null;
+  }
+
+  // Asks the user to pair. Requests for a device that is already waiting share one answer.
+  requestPairing(request: PairingRequest): Promise<boolean> {
+    const existing = this.pending.find(
+      (pairing) => pairing.request.deviceId === request.deviceId,
+    );
+    if (existing) return existing.answer;
+
+    let resolve: (accepted: boolean) => void = () => {};
+    const answer = new Promise<boolean>((done) => {
+      resolve = done;
+    });
+    this.pending.push({ request, answer, resolve });
+    this.setStatus(request.deviceId, "pairing");
+    return answer;
+  }
+
+  respond(deviceId: string, accepted: boolean): void {
+    const pairing = this.pending.find(
+      (entry) => entry.request.deviceId === deviceId,
+    );
+    if (!pairing) return;
+    this.pending = this.pending.filter((entry) => entry !== pairing);
+    if (!accepted) this.statuses.set(deviceId, "failed");
+    pairing.resolve(accepted);
+    this.notify();
+  }
+
+  subscribe(listener: BondListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private persist(): void {
+    try {
+      writeStoredText(STORAGE_NAME, JSON.stringify({ bonds: this.list() }));
+    } catch (error) {
+      console.log("Failed to save bonds:", error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const Bonds = new BondStore();
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Runs a request on a protected characteristic. When the device rejects it for lack of
+// authentication, the user is asked to pair and the request is retried while the system
+// completes pairing.
+export async function withPairing<T>(
+  request: Omit<PairingRequest, "rebond">,
+  operation: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (!isAuthenticationError(error)) throw error;
+
+    await Bonds.load();
+    const accepted = await Bonds.requestPairing({
+      ...request,
+      rebond: Bonds.isBonded(request.deviceId),
+    });
+    if (!accepted) throw new Error("Pairing was cancelled");
+
+    let lastError: any = error;
+    for (let attempt = 0; attempt < PAIRING_ATTEMPTS; attempt++) {
+      try {
+        const result = await operation();
+        Bonds.remember(request.deviceId, request.deviceName);
+        return result;
+      } catch (retryError) {
+        lastError = retryError;
+        if (!isAuthenticationError(retryError)) break;
+        await delay(PAIRING_RETRY_MS);
+      }
+    }
+    Bonds.setStatus(request.deviceId, "failed");
+    throw lastError;
+  }
+}
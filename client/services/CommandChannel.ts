@@ -0,0 +1,225 @@
+import { SensorChannel, SENSOR_CHANNELS } from "@/services/SensorProtocol";
+import { writeUint32LE } from "@/lib/bytes";
+
+export const CONTROL_SERVICE_UUID = "0000FF00-0000-1000-8000-00805F9B34FB";
+export const CONTROL_CHAR_UUID = "0000FF01-0000-1000-8000-00805F9B34FB";
+export const CONTROL_ACK_CHAR_UUID = "0000FF02-0000-1000-8000-00805F9B34FB";
+
+export type SensorCommand =
+  | { type: "setSamplingInterval"; intervalMs: number }
+  | { type: "tare"; channel: SensorChannel }
+  | { type: "startLogging" }
+  | { type: "stopLogging" }
+  | { type: "reboot" }
+  | { type: "readClock" };
+
+export type CommandType = SensorCommand["type"];
+
+export type CommandErrorCode =
+  | "timeout"
+  | "rejected"
+  | "unsupported"
+  | "busy"
+  | "write-failed"
+  | "not-connected"
+  | "cancelled";
+
+export type CommandResult =
+  | { ok: true; command: CommandType; payload: number[]; latencyMs: number }
+  | {
+      ok: false;
+      command: CommandType;
+      error: CommandErrorCode;
+      message: string;
+    };
+
+export const DEFAULT_COMMAND_TIMEOUT_MS = 3000;
+
+const OPCODES: Record<CommandType, number> = {
+  setSamplingInterval: 0x01,
+  tare: 0x02,
+  startLogging: 0x03,
+  stopLogging: 0x04,
+  reboot: 0x05,
+  readClock: 0x06,
+};
+
+const ACK_FLAG = 0x80;
+
+const ACK_STATUS: Record<number, CommandErrorCode | null> = {
+  0x00: null,
+  0x01: "rejected",
+  0x02: "unsupported",
+  0x03: "busy",
+};
+
+interface PendingCommand {
+  command: CommandType;
+  sentAt: number;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (result: CommandResult) => void;
+}
+
+export function describeCommand(command: SensorCommand): string {
+  switch (command.type) {
+    case "setSamplingInterval":
+      return `Set sampling interval to ${command.intervalMs} ms`;
+    case "tare":
+      return `Zero ${command.channel} channel`;
+    case "startLogging":
+      return "Start logging";
+    case "stopLogging":
+      return "Stop logging";
+    case "reboot":
+      return "Reboot device";
+    case "readClock":
+      return "Read device clock";
+  }
+}
+
+export function encodeCommand(
+  command: SensorCommand,
+  sequence: number,
+): number[] {
+  const header = [OPCODES[command.type], sequence & 0xff];
+
+  switch (command.type) {
+    case "setSamplingInterval": {
+      const interval = Math.max(
+        0,
+        Math.min(0xffffffff, Math.round(command.intervalMs)),
+      );
+      return [
+        ...header,
+        interval & 0xff,
+        (interval >> 8) & 0xff,
+        (interval >> 16) & 0xff,
+        (interval >>> 24) & 0xff,
+      ];
+    }
+    case "tare":
+      return [...header, SENSOR_CHANNELS.indexOf(command.channel)];
+    default:
+      return header;
+  }
+}
+
+export class CommandChannel {
+  private sequence: number = 0;
+  private pending: Map<number, PendingCommand> = new Map();
+
+  constructor(
+    private write: (bytes: number[]) => Promise<void>,
+    private timeoutMs: number = DEFAULT_COMMAND_TIMEOUT_MS,
+  ) {}
+
+  async send(
+    command: SensorCommand,
+    timeoutMs: number = this.timeoutMs,
+  ): Promise<CommandResult> {
+    const sequence = this.nextSequence();
+    const bytes = encodeCommand(command, sequence);
+
+    const result = new Promise<CommandResult>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(sequence);
+        resolve({
+          ok: false,
+          command: command.type,
+          error: "timeout",
+          message: `No acknowledgement within ${timeoutMs} ms`,
+        });
+      }, timeoutMs);
+
+      this.pending.set(sequence, {
+        command: command.type,
+        sentAt: Date.now(),
+        timer,
+        resolve,
+      });
+    });
+
+    try {
+      await this.write(bytes);
+    } catch (error: any) {
+      this.settle(sequence, {
+        ok: false,
+        command: command.type,
+        error: "write-failed",
+        message: error?.message ?? "Failed to write command",
+      });
+    }
+
+    return result;
+  }
+
+  handleAck(bytes: number[]): void {
+    if (bytes.length < 3 || (bytes[0] & ACK_FLAG) === 0) return;
+
+    const sequence = bytes[1];
+    const entry = this.pending.get(sequence);
+    if (!entry || (bytes[0] & ~ACK_FLAG) !== OPCODES[entry.command]) return;
+
+    const error =
+      ACK_STATUS[bytes[2]] ?? (bytes[2] in ACK_STATUS ? null : "rejected");
+    if (error) {
+      this.settle(sequence, {
+        ok: false,
+        command: entry.command,
+        error,
+        message: `Device answered with status 0x${bytes[2].toString(16).padStart(2, "0")}`,
+      });
+      return;
+    }
+
+    this.settle(sequence, {
+      ok: true,
+      command: entry.command,
+      payload: bytes.slice(3),
+      latencyMs: Date.now() - entry.sentAt,
+    });
+  }
+
+  cancelAll(message: string = "Connection closed"): void {
+    for (const [sequence, entry] of Array.from(this.pending.entries())) {
+      this.settle(sequence, {
+        ok: false,
+        command: entry.command,
+        error: "cancelled",
+        message,
+      });
+    }
+  }
+
+  private settle(sequence: number, result: CommandResult): void {
+    const entry = this.pending.get(sequence);
+    if (!entry) return;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(sequence);
+    entry.resolve(result);
+  }
+
+  private nextSequence(): number {
+    this.sequence = (this.sequence + 1) & 0xff;
+    return this.sequence;
+  }
+}
+
+// Simulated devices count milliseconds since the app started.
+const simulatedBootAt = Date.now();
+
+export function simulateCommand(
+  command: SensorCommand,
+): Promise<CommandResult> {
+  const latencyMs = 80 + Math.round(Math.random() * 120);
+  return new Promise((resolve) => {
+    setTimeout(() => {
+      const payload =
+        command.type === "readClock"
+          ? writeUint32LE(Date.now() - latencyMs / 2 - simulatedBootAt)
+          : [];
+      resolve({ ok: true, command: command.type, payload, latencyMs });
+    }, latencyMs);
+  });
+}
@@ -0,0 +1,145 @@
+import { FramingStats, sumFramingStats } from "@/services/MessageFraming";
+import { PollingStats } from "@/services/PollingReader";
+
+export interface ConnectionQuality {
+  rssi: number | null;
+  rssiHistory: number[];
+  packetsPerSecond: number;
+  meanIntervalMs: number | null;
+  jitterMs: number | null;
+  packetsReceived: number;
+  packetsLost: number;
+  // Null until the protocol reports sequence numbers; loss cannot be inferred otherwise.
+  lossPercent: number | null;
+  // Null unless a characteristic carries framed messages.
+  framing: FramingStats | null;
+  // Null unless some characteristics are read on a schedule instead of notifying.
+  polling: PollingStats | null;
+  updatedAt: Date;
+}
+
+const MAX_RSSI_SAMPLES = 30;
+const MAX_INTERVALS = 50;
+const RATE_WINDOW_MS = 5000;
+
+export function describeRssiTrend(
+  history: number[],
+): "rising" | "falling" | "steady" {
+  if (history.length < 4) return "steady";
+  const half = Math.floor(history.length / 2);
+  const average = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+  const delta = average(history.slice(half)) - average(history.slice(0, half));
+  if (delta >= 3) return "rising";
+  if (delta <= -3) return "falling";
+  return "steady";
+}
+
+// Tracks link health for one connection. Packets are grouped into streams (one per
+// characteristic) so that several characteristics notifying back to back do not read
+// as near-zero inter-arrival times.
+export class ConnectionQualityMonitor {
+  private rssiHistory: number[] = [];
+  private arrivals: number[] = [];
+  private intervals: number[] = [];
+  private lastArrival: Map<string, number> = new Map();
+  private lastSequence: Map<string, number> = new Map();
+  private framing: Map<string, FramingStats> = new Map();
+  private polling: PollingStats | null = null;
+  private packetsReceived = 0;
+  private sequencedPackets = 0;
+  private packetsLost = 0;
+  private startedAt = Date.now();
+
+  recordRssi(rssi: number): void {
+    this.rssiHistory = [...this.rssiHistory, rssi].slice(-MAX_RSSI_SAMPLES);
+  }
+
+  recordPacket(stream: string, now: number = Date.now()): void {
+    this.packetsReceived++;
+    this.arrivals.push(now);
+    this.arrivals = this.arrivals.filter(
+      (arrival) => arrival > now - RATE_WINDOW_MS,
+    );
+
+    const previous = this.lastArrival.get(stream);
+    if (previous !== undefined) {
+      this.intervals = [...this.intervals, now - previous].slice(
+        -MAX_INTERVALS,
+      );
+    }
+    this.lastArrival.set(stream, now);
+  }
+
+  recordSequence(stream: string, sequence: number, modulus: number): void {
+    const previous = this.lastSequence.get(stream);
+    this.lastSequence.set(stream, sequence);
+    this.sequencedPackets++;
+    if (previous === undefined) return;
+
+    const step = (sequence - previous + modulus) % modulus;
+    // A large backwards jump is a device restart or reordering, not a burst of loss.
+    if (step > 1 && step < modulus / 2) {
+      this.packetsLost += step - 1;
+    }
+  }
+
+  recordFraming(stream: string, stats: FramingStats): void {
+    this.framing.set(stream, stats);
+  }
+
+  recordPolling(stats: PollingStats): void {
+    this.polling = stats;
+  }
+
+  // Called when the link is re-established so the outage is not counted as an interval.
+  resumeStreams(): void {
+    this.lastArrival.clear();
+    this.lastSequence.clear();
+    this.startedAt = Date.now();
+  }
+
+  snapshot(now: number = Date.now()): ConnectionQuality {
+    const recent = this.arrivals.filter(
+      (arrival) => arrival > now - RATE_WINDOW_MS,
+    );
+    const windowMs = Math.min(RATE_WINDOW_MS, now - this.startedAt);
+
+    let meanIntervalMs: number | null = null;
+    let jitterMs: number | null = null;
+    if (this.intervals.length > 0) {
+      const mean =
+        this.intervals.reduce((sum, value) => sum + value, 0) /
+        this.intervals.length;
+      const variance =
+        this.intervals.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+        this.intervals.length;
+      meanIntervalMs = mean;
+      jitterMs = Math.sqrt(variance);
+    }
+
+    return {
+      rssi:
+        this.rssiHistory.length > 0
+          ? this.rssiHistory[this.rssiHistory.length - 1]
+          : null,
+      rssiHistory: this.rssiHistory,
+      packetsPerSecond: windowMs > 0 ? (recent.length / windowMs) * 1000 : 0,
+      meanIntervalMs,
+      jitterMs,
+      packetsReceived: this.packetsReceived,
+      packetsLost: this.packetsLost,
+      lossPercent:
+        this.sequencedPackets > 0
+          ? (this.packetsLost / (this.sequencedPackets + this.packetsLost)) *
+            100
+          : null,
+      framing:
+        this.framing.size > 0
+          ? sumFramingStats(Array.from(this.framing.values()))
+          : null,
+      polling: this.polling,
+      updatedAt: new Date(now),
+    };
+  }
+}
@@ -0,0 +1,236 @@
+export type ConnectionStatus =
+  | "idle"
+  | "scanning"
+  | "connecting"
+  | "discovering"
+  | "subscribed"
+  | "listening"
+  | "reconnecting"
+  | "disconnecting"
+  | "error";
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  deviceId: string | null;
+  deviceName: string | null;
+  simulated: boolean;
+  attempt: number | null;
+  error: string | null;
+  since: Date;
+}
+
+export type ConnectionStatePatch = Partial<
+  Omit<ConnectionState, "status" | "since">
+>;
+
+export interface TransitionLogEntry {
+  from: ConnectionStatus;
+  to: ConnectionStatus;
+  timestamp: Date;
+  reason?: string;
+}
+
+const VALID_TRANSITIONS: Record<ConnectionStatus, ConnectionStatus[]> = {
+  idle: ["scanning", "connecting", "listening", "error"],
+  scanning: ["idle", "connecting", "error"],
+  connecting: ["discovering", "reconnecting", "disconnecting", "error"],
+  discovering: ["subscribed", "reconnecting", "disconnecting", "error"],
+  subscribed: ["reconnecting", "disconnecting", "error"],
+  listening: ["idle", "connecting", "error"],
+  reconnecting: ["reconnecting", "connecting", "disconnecting", "error"],
+  disconnecting: ["idle", "error"],
+  error: ["idle", "scanning", "connecting", "listening"],
+};
+
+const MAX_LOG_ENTRIES = 100;
+
+export const INITIAL_CONNECTION_STATE: ConnectionState = {
+  status: "idle",
+  deviceId: null,
+  deviceName: null,
+  simulated: false,
+  attempt: null,
+  error: null,
+  since: new Date(),
+};
+
+export function isLinkActive(status: ConnectionStatus): boolean {
+  return (
+    status === "connecting" ||
+    status === "discovering" ||
+    status === "subscribed" ||
+    status === "listening" ||
+    status === "reconnecting"
+  );
+}
+
+// True when readings are flowing, either over a GATT link or from advertisements.
+export function isReceivingData(status: ConnectionStatus): boolean {
+  return status === "subscribed" || status === "listening";
+}
+
+export function describeConnectionStatus(state: ConnectionState): string {
+  switch (state.status) {
+    case "idle":
+      return "Disconnected";
+    case "scanning":
+      return "Scanning";
+    case "connecting":
+      return "Connecting";
+    case "discovering":
+      return "Discovering services";
+    case "subscribed":
+      return "Connected";
+    case "listening":
+      return "Listening to broadcasts";
+    case "reconnecting":
+      return state.attempt
+        ? `Reconnecting (attempt ${state.attempt})`
+        : "Reconnecting";
+    case "disconnecting":
+      return "Disconnecting";
+    case "error":
+      return state.error ? `Error: ${state.error}` : "Connection error";
+  }
+}
+
+export class ConnectionStateMachine {
+  private state: ConnectionState = {
+    ...INITIAL_CONNECTION_STATE,
+    since: new Date(),
+  };
+  private log: TransitionLogEntry[] = [];
+  private listeners: Set<(state: ConnectionState) => void> = new Set();
+
+  constructor(private label: string = "connection") {}
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  getLog(): TransitionLogEntry[] {
+    return this.log;
+  }
+
+  canTransition(to: ConnectionStatus): boolean {
+    return VALID_TRANSITIONS[this.state.status].includes(to);
+  }
+
+  transition(
+    to: ConnectionStatus,
+    patch: ConnectionStatePatch = {},
+    reason?: string,
+  ): boolean {
+    if (!this.canTransition(to)) {
+      console.log(
+        `Invalid connection transition: ${this.state.status} -> ${to}`,
+      );
+      return false;
+    }
+
+    this.apply(to, patch, reason);
+    return true;
+  }
+
+  subscribe(listener: (state: ConnectionState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private apply(
+    to: ConnectionStatus,
+    patch: ConnectionStatePatch,
+    reason?: string,
+  ): void {
+    const from = this.state.status;
+    const timestamp = new Date();
+
+    let next: ConnectionState = {
+      ...this.state,
+      ...patch,
+      status: to,
+      since: timestamp,
+    };
+    if (to === "idle" || to === "scanning") {
+      next = {
+        ...INITIAL_CONNECTION_STATE,
+        deviceId: next.deviceId,
+        deviceName: next.deviceName,
+        status: to,
+        since: timestamp,
+      };
+    } else if (to === "subscribed" || to === "listening") {
+      next = { ...next, attempt: null, error: null };
+    } else if (to === "connecting" && from !== "reconnecting") {
+      next = { ...next, attempt: null, error: null };
+    }
+
+    this.state = next;
+    this.log = [...this.log, { from, to, timestamp, reason }].slice(
+      -MAX_LOG_ENTRIES,
+    );
+    console.log(
+      `[${timestamp.toISOString()}] ${this.label} ${from} -> ${to}${reason ? ` (${reason})` : ""}`,
+    );
+
+    this.listeners.forEach((listener) => listener(next));
+  }
+}
+
+type DeviceConnectionListener = (
+  deviceId: string,
+  state: ConnectionState,
+) => void;
+
+class DeviceConnectionsClass {
+  private machines: Map<string, ConnectionStateMachine> = new Map();
+  private unsubscribers: Map<string, () => void> = new Map();
+  private listeners: Set<DeviceConnectionListener> = new Set();
+
+  get(deviceId: string): ConnectionStateMachine {
+    let machine = this.machines.get(deviceId);
+    if (!machine) {
+      machine = new ConnectionStateMachine(deviceId);
+      this.machines.set(deviceId, machine);
+      this.unsubscribers.set(
+        deviceId,
+        machine.subscribe((state) => {
+          this.listeners.forEach((listener) => listener(deviceId, state));
+        }),
+      );
+    }
+    return machine;
+  }
+
+  getState(deviceId: string): ConnectionState | null {
+    return this.machines.get(deviceId)?.getState() ?? null;
+  }
+
+  remove(deviceId: string): void {
+    this.unsubscribers.get(deviceId)?.();
+    this.unsubscribers.delete(deviceId);
+    this.machines.delete(deviceId);
+  }
+
+  list(): { deviceId: string; state: ConnectionState }[] {
+    return Array.from(this.machines.entries()).map(([deviceId, machine]) => ({
+      deviceId,
+      state: machine.getState(),
+    }));
+  }
+
+  subscribe(listener: DeviceConnectionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Adapter-level machine: only moves between idle, scanning and error.
+export const ScanMachine = new ConnectionStateMachine("scanner");
+
+// One machine per device link, keyed by device id.
+export const DeviceConnections = new DeviceConnectionsClass();
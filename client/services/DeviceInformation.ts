@@ -0,0 +1,91 @@
+import { toUtf8 } from "@/lib/bytes";
+
+export interface DeviceInfo {
+  manufacturerName: string | null;
+  modelNumber: string | null;
+  serialNumber: string | null;
+  firmwareRevision: string | null;
+  hardwareRevision: string | null;
+  batteryLevel: number | null;
+}
+
+export const EMPTY_DEVICE_INFO: DeviceInfo = {
+  manufacturerName: null,
+  modelNumber: null,
+  serialNumber: null,
+  firmwareRevision: null,
+  hardwareRevision: null,
+  batteryLevel: null,
+};
+
+export const DEVICE_INFORMATION_SERVICE_UUID =
+  "0000180A-0000-1000-8000-00805F9B34FB";
+export const BATTERY_SERVICE_UUID = "0000180F-0000-1000-8000-00805F9B34FB";
+export const BATTERY_LEVEL_CHAR_UUID = "00002A19-0000-1000-8000-00805F9B34FB";
+
+const DEVICE_INFORMATION_FIELDS: {
+  field: keyof Omit<DeviceInfo, "batteryLevel">;
+  uuid: string;
+}[] = [
+  { field: "manufacturerName", uuid: "00002A29-0000-1000-8000-00805F9B34FB" },
+  { field: "modelNumber", uuid: "00002A24-0000-1000-8000-00805F9B34FB" },
+  { field: "serialNumber", uuid: "00002A25-0000-1000-8000-00805F9B34FB" },
+  { field: "firmwareRevision", uuid: "00002A26-0000-1000-8000-00805F9B34FB" },
+  { field: "hardwareRevision", uuid: "00002A27-0000-1000-8000-00805F9B34FB" },
+];
+
+type CharacteristicReader = (
+  serviceUUID: string,
+  characteristicUUID: string,
+) => Promise<number[] | null>;
+
+function decodeString(bytes: number[] | null): string | null {
+  if (!bytes || bytes.length === 0) return null;
+  const value = toUtf8(bytes).replace(/\0+$/, "").trim();
+  return value || null;
+}
+
+export async function readDeviceInfo(
+  read: CharacteristicReader,
+  options: { readBattery: boolean } = { readBattery: true },
+): Promise<DeviceInfo> {
+  const info: DeviceInfo = { ...EMPTY_DEVICE_INFO };
+
+  for (const { field, uuid } of DEVICE_INFORMATION_FIELDS) {
+    info[field] = decodeString(
+      await read(DEVICE_INFORMATION_SERVICE_UUID, uuid),
+    );
+  }
+
+  if (options.readBattery) {
+    const battery = await read(BATTERY_SERVICE_UUID, BATTERY_LEVEL_CHAR_UUID);
+    info.batteryLevel =
+      battery && battery.length > 0 ? Math.min(battery[0], 100) : null;
+  }
+
+  return info;
+}
+
+export function createSimulatedDeviceInfo(deviceId: string): DeviceInfo {
+  return {
+    manufacturerName: "Sensor Monitor",
+    modelNumber: "SIM-4CH",
+    serialNumber: `SIM-${deviceId.toUpperCase()}`,
+    firmwareRevision: "1.0.0-sim",
+    hardwareRevision: "rev A",
+    batteryLevel: 60 + Math.round(Math.random() * 40),
+  };
+}
+
+export function describeDeviceInfo(info: DeviceInfo): string | null {
+  const parts = [
+    info.manufacturerName && info.modelNumber
+      ? `${info.manufacturerName} ${info.modelNumber}`
+      : (info.manufacturerName ?? info.modelNumber),
+    info.firmwareRevision ? `FW ${info.firmwareRevision}` : null,
+    info.serialNumber ? `SN ${info.serialNumber}` : null,
+    info.batteryLevel !== null ? `Battery ${info.batteryLevel}%` : null,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
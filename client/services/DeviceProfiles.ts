@@ -0,0 +1,536 @@
+import { Platform } from "react-native";
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+import { readStoredText, writeStoredText } from "@/lib/storage";
+import { CharacteristicBinding, expandUuid } from "@/services/BleService";
+import {
+  ENVIRONMENTAL_CHARACTERISTICS,
+  ENVIRONMENTAL_SENSING_SERVICE_UUID,
+} from "@/services/EnvironmentalSensing";
+import { PollingConfig, validatePollingConfig } from "@/services/PollingReader";
+import { MergePolicy, validateMergePolicy } from "@/services/ReadingMerger";
+import {
+  Endianness,
+  FieldLayout,
+  FieldType,
+  ProtocolRegistry,
+  SENSOR_CHANNELS,
+  SensorChannel,
+  createLayoutProtocol,
+  getFieldSize,
+} from "@/services/SensorProtocol";
+
+export interface ChannelMapping {
+  characteristicUUID: string;
+  // Field format such as "uint16-le", "int16-be", "float32-le" or "uint8".
+  decoder: string;
+  byteOffset?: number;
+  scale?: number;
+  offset?: number;
+  unit?: string;
+  displayName?: string;
+  // Raw value the device sends when it has no measurement.
+  invalid?: number;
+  // The profile still matches when the characteristic is missing.
+  optional?: boolean;
+  // The characteristic sends framed messages (see MessageFraming) split across
+  // notifications; byteOffset counts from the start of the reassembled payload.
+  framed?: boolean;
+}
+
+// Describes how one sensor model exposes its measurements. Channels that share a
+// characteristic are decoded from the same notification at their byte offsets, and
+// channels left out are not measured by the device.
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  serviceUUID: string;
+  // Case-insensitive regular expression tested against the advertised name.
+  namePattern?: string;
+  advertisedServices?: string[];
+  channels: Partial<Record<SensorChannel, ChannelMapping>>;
+  // How characteristics are read when the device cannot notify; defaults apply when absent.
+  polling?: PollingConfig;
+  // How updates from separate characteristics combine into readings; the app-wide
+  // policy applies when absent.
+  merge?: MergePolicy;
+  builtIn?: boolean;
+}
+
+export interface ResolvedProfile {
+  bindings: CharacteristicBinding[];
+  channels: SensorChannel[];
+}
+
+export interface ProfileCandidate {
+  name: string | null;
+  serviceUUIDs: string[];
+}
+
+const STORAGE_NAME = "device-profiles";
+const PROFILE_PROTOCOL_PREFIX = "profile:";
+
+const DEFAULT_CHANNEL_META: Record<
+  SensorChannel,
+  { displayName: string; unit: string }
+> = {
+  voltage: { displayName: "Voltage", unit: "V" },
+  current: { displayName: "Current", unit: "A" },
+  temperature: { displayName: "Temperature", unit: "C" },
+  ph: { displayName: "pH Level", unit: "pH" },
+};
+
+const FIELD_TYPES: FieldType[] = [
+  "uint8",
+  "int8",
+  "uint16",
+  "int16",
+  "uint32",
+  "int32",
+  "float32",
+];
+
+// The original reference firmware. Its voltage sits on the Battery Level characteristic,
+// so it only matches when the current, temperature and pH characteristics exist as well.
+export const REFERENCE_PROFILE: DeviceProfile = {
+  id: "reference-sensor",
+  name: "Reference sensor",
+  serviceUUID: "0000180F-0000-1000-8000-00805F9B34FB",
+  advertisedServices: ["0000180F-0000-1000-8000-00805F9B34FB"],
+  channels: {
+    voltage: {
+      characteristicUUID: "00002A19-0000-1000-8000-00805F9B34FB",
+      decoder: "uint16-le",
+      scale: 0.01,
+    },
+    current: {
+      characteristicUUID: "00002A1A-0000-1000-8000-00805F9B34FB",
+      decoder: "uint16-le",
+      scale: 0.01,
+    },
+    temperature: {
+      characteristicUUID: "00002A1C-0000-1000-8000-00805F9B34FB",
+      decoder: "int16-le",
+      scale: 0.01,
+    },
+    ph: {
+      characteristicUUID: "00002A1D-0000-1000-8000-00805F9B34FB",
+      decoder: "uint16-le",
+      scale: 0.01,
+    },
+  },
+  builtIn: true,
+};
+
+// Off-the-shelf sensors with the standard Environmental Sensing Service. Most only
+// expose some of its characteristics, so each one is optional.
+export const ENVIRONMENTAL_PROFILE: DeviceProfile = {
+  id: "environmental-sensing",
+  name: "Environmental Sensing",
+  serviceUUID: ENVIRONMENTAL_SENSING_SERVICE_UUID,
+  advertisedServices: [ENVIRONMENTAL_SENSING_SERVICE_UUID],
+  channels: Object.fromEntries(
+    ENVIRONMENTAL_CHARACTERISTICS.map((characteristic) => [
+      characteristic.channel,
+      {
+        characteristicUUID: characteristic.uuid,
+        decoder: characteristic.decoder,
+        scale: characteristic.scale,
+        unit: characteristic.unit,
+        displayName: characteristic.name,
+        invalid: characteristic.invalid,
+        optional: true,
+      },
+    ]),
+  ),
+  builtIn: true,
+};
+
+const BUILT_IN_PROFILES = [REFERENCE_PROFILE, ENVIRONMENTAL_PROFILE];
+
+export function parseDecoder(
+  decoder: string,
+): { type: FieldType; endianness: Endianness } | null {
+  const [type, order] = decoder.trim().toLowerCase().split("-");
+  if (!FIELD_TYPES.includes(type as FieldType)) return null;
+  if (order === undefined) {
+    return getFieldSize(type as FieldType) === 1
+      ? { type: type as FieldType, endianness: "little" }
+      : null;
+  }
+  if (order !== "le" && order !== "be") return null;
+  return {
+    type: type as FieldType,
+    endianness: order === "le" ? "little" : "big",
+  };
+}
+
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "profile"
+  );
+}
+
+function optionalNumber(value: unknown, label: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`${label} must be a number`);
+  }
+  return value;
+}
+
+export function validateProfile(input: unknown): DeviceProfile {
+  if (!input || typeof input !== "object")
+    throw new Error("Profile must be an object");
+  const data = input as Record<string, any>;
+
+  const name = typeof data.name === "string" ? data.name.trim() : "";
+  if (!name) throw new Error("Profile needs a name");
+  if (typeof data.serviceUUID !== "string" || !data.serviceUUID.trim()) {
+    throw new Error(`${name}: serviceUUID is required`);
+  }
+  if (data.namePattern !== undefined) {
+    if (typeof data.namePattern !== "string")
+      throw new Error(`${name}: namePattern must be a string`);
+    try {
+      new RegExp(data.namePattern, "i");
+    } catch {
+      throw new Error(`${name}: namePattern is not a valid regular expression`);
+    }
+  }
+  if (
+    data.advertisedServices !== undefined &&
+    !Array.isArray(data.advertisedServices)
+  ) {
+    throw new Error(`${name}: advertisedServices must be a list of UUIDs`);
+  }
+
+  const channels: Partial<Record<SensorChannel, ChannelMapping>> = {};
+  for (const channel of SENSOR_CHANNELS) {
+    const mapping = data.channels?.[channel];
+    if (mapping === undefined) continue;
+    if (!mapping || typeof mapping !== "object") {
+      throw new Error(`${name}: channel "${channel}" must be an object`);
+    }
+    if (
+      typeof mapping.characteristicUUID !== "string" ||
+      !mapping.characteristicUUID.trim()
+    ) {
+      throw new Error(`${name}: ${channel} needs a characteristicUUID`);
+    }
+    if (typeof mapping.decoder !== "string" || !parseDecoder(mapping.decoder)) {
+      throw new Error(
+        `${name}: ${channel} has an unknown decoder "${mapping.decoder}"`,
+      );
+    }
+
+    channels[channel] = {
+      characteristicUUID: expandUuid(mapping.characteristicUUID),
+      decoder: mapping.decoder.trim().toLowerCase(),
+      byteOffset: optionalNumber(
+        mapping.byteOffset,
+        `${name}: ${channel} byteOffset`,
+      ),
+      scale: optionalNumber(mapping.scale, `${name}: ${channel} scale`),
+      offset: optionalNumber(mapping.offset, `${name}: ${channel} offset`),
+      unit: typeof mapping.unit === "string" ? mapping.unit : undefined,
+      displayName:
+        typeof mapping.displayName === "string"
+          ? mapping.displayName
+          : undefined,
+      invalid: optionalNumber(mapping.invalid, `${name}: ${channel} invalid`),
+      optional: mapping.optional === true ? true : undefined,
+      framed: mapping.framed === true ? true : undefined,
+    };
+  }
+  if (Object.keys(channels).length === 0) {
+    throw new Error(`${name}: map at least one channel`);
+  }
+
+  let polling: PollingConfig | undefined;
+  if (data.polling !== undefined) {
+    try {
+      polling = validatePollingConfig(data.polling);
+    } catch (error: any) {
+      throw new Error(`${name}: ${error.message}`);
+    }
+    polling.characteristics = polling.characteristics?.map(expandUuid);
+  }
+
+  let merge: MergePolicy | undefined;
+  if (data.merge !== undefined) {
+    try {
+      merge = validateMergePolicy(data.merge);
+    } catch (error: any) {
+      throw new Error(`${name}: ${error.message}`);
+    }
+  }
+
+  return {
+    id:
+      typeof data.id === "string" && data.id.trim()
+        ? data.id.trim()
+        : slugify(name),
+    name,
+    serviceUUID: expandUuid(data.serviceUUID),
+    namePattern: data.namePattern || undefined,
+    advertisedServices: data.advertisedServices?.map((uuid: unknown) =>
+      expandUuid(String(uuid)),
+    ),
+    channels,
+    polling,
+    merge,
+  };
+}
+
+// Accepts an exported file ({ profiles: [...] }), a bare list, or a single profile.
+export function parseProfilesJson(text: string): DeviceProfile[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Profiles file is not valid JSON");
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.profiles)
+      ? data.profiles
+      : [data];
+  return list.map(validateProfile);
+}
+
+export function exportProfilesJson(profiles: DeviceProfile[]): string {
+  const exported = profiles.map(({ builtIn, ...profile }) => profile);
+  return JSON.stringify({ version: 1, profiles: exported }, null, 2);
+}
+
+// Checks the profile against the characteristics the device has, registers one layout
+// protocol per characteristic and returns the bindings to monitor. Returns null when a
+// required characteristic is missing or nothing would be measured.
+export function resolveProfile(
+  profile: DeviceProfile,
+  characteristicUUIDs: string[],
+): ResolvedProfile | null {
+  const available = characteristicUUIDs.map(expandUuid);
+  const fieldsByCharacteristic = new Map<string, FieldLayout[]>();
+  const framed = new Set<string>();
+  const channels: SensorChannel[] = [];
+
+  for (const channel of SENSOR_CHANNELS) {
+    const mapping = profile.channels[channel];
+    if (!mapping) continue;
+    if (!available.includes(mapping.characteristicUUID)) {
+      if (mapping.optional) continue;
+      return null;
+    }
+    const decoder = parseDecoder(mapping.decoder);
+    if (!decoder) continue;
+
+    const fields = fieldsByCharacteristic.get(mapping.characteristicUUID) ?? [];
+    fields.push({
+      channel,
+      type: decoder.type,
+      endianness: decoder.endianness,
+      byteOffset: mapping.byteOffset ?? 0,
+      scale: mapping.scale,
+      offset: mapping.offset,
+      invalid: mapping.invalid,
+    });
+    fieldsByCharacteristic.set(mapping.characteristicUUID, fields);
+    if (mapping.framed) framed.add(mapping.characteristicUUID);
+    channels.push(channel);
+  }
+  if (channels.length === 0) return null;
+
+  const bindings = Array.from(fieldsByCharacteristic.entries()).map(
+    ([characteristicUUID, fields]) => {
+      const protocol = `${PROFILE_PROTOCOL_PREFIX}${profile.id}:${characteristicUUID}`;
+      ProtocolRegistry.register(
+        createLayoutProtocol(protocol, fields, `${profile.name} profile`),
+      );
+      return {
+        serviceUUID: profile.serviceUUID,
+        characteristicUUID,
+        protocol,
+        framed: framed.has(characteristicUUID) || undefined,
+      };
+    },
+  );
+  return { bindings, channels };
+}
+
+// Bindings for every mapped channel, as if the device had all of its characteristics.
+export function profileBindings(
+  profile: DeviceProfile,
+): CharacteristicBinding[] {
+  const uuids = Object.values(profile.channels).map(
+    (mapping) => mapping.characteristicUUID,
+  );
+  return resolveProfile(profile, uuids)?.bindings ?? [];
+}
+
+export function channelDisplayName(
+  profile: DeviceProfile | null,
+  channel: SensorChannel,
+): string {
+  return (
+    profile?.channels[channel]?.displayName ||
+    DEFAULT_CHANNEL_META[channel].displayName
+  );
+}
+
+export function channelUnit(
+  profile: DeviceProfile | null,
+  channel: SensorChannel,
+): string {
+  return profile?.channels[channel]?.unit ?? DEFAULT_CHANNEL_META[channel].unit;
+}
+
+async function readText(uri: string): Promise<string> {
+  if (Platform.OS === "web") {
+    const response = await fetch(uri);
+    return response.text();
+  }
+  return new File(uri).text();
+}
+
+export async function pickProfilesFile(): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: "application/json",
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+  return readText(result.assets[0].uri);
+}
+
+type ProfilesListener = () => void;
+
+class DeviceProfileStore {
+  private profiles: DeviceProfile[] = [];
+  private assignments: Map<string, string> = new Map();
+  private listeners: Set<ProfilesListener> = new Set();
+  private loaded: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readStoredText(STORAGE_NAME)
+        .then((text) => {
+          if (text) this.profiles = parseProfilesJson(text);
+        })
+        .catch((error) => console.log("Failed to load device profiles:", error))
+        .finally(() => this.notify());
+    }
+    return this.loaded;
+  }
+
+  list(): DeviceProfile[] {
+    return [...this.profiles, ...BUILT_IN_PROFILES];
+  }
+
+  get(id: string): DeviceProfile | null {
+    return this.list().find((profile) => profile.id === id) ?? null;
+  }
+
+  save(profile: DeviceProfile): void {
+    this.saveAll([profile]);
+  }
+
+  remove(id: string): void {
+    this.profiles = this.profiles.filter((profile) => profile.id !== id);
+    this.persist();
+  }
+
+  importJson(text: string): DeviceProfile[] {
+    const imported = parseProfilesJson(text);
+    this.saveAll(imported);
+    return imported;
+  }
+
+  exportJson(): string {
+    return exportProfilesJson(this.profiles);
+  }
+
+  // Profiles whose name pattern matches come first, then those matching an advertised
+  // or discovered service. User profiles win over built-in ones in each group.
+  match(candidate: ProfileCandidate): DeviceProfile[] {
+    const services = candidate.serviceUUIDs.map(expandUuid);
+    const byName = this.list().filter(
+      (profile) =>
+        profile.namePattern &&
+        candidate.name &&
+        new RegExp(profile.namePattern, "i").test(candidate.name),
+    );
+    const byService = this.list().filter(
+      (profile) =>
+        !byName.includes(profile) &&
+        (profile.advertisedServices ?? [profile.serviceUUID]).some((uuid) =>
+          services.includes(uuid),
+        ),
+    );
+    return [...byName, ...byService];
+  }
+
+  assign(deviceId: string, profileId: string | null): void {
+    if (profileId) {
+      this.assignments.set(deviceId, profileId);
+    } else {
+      this.assignments.delete(deviceId);
+    }
+    this.notify();
+  }
+
+  getAssigned(deviceId: string): DeviceProfile | null {
+    const id = this.assignments.get(deviceId);
+    return id ? this.get(id) : null;
+  }
+
+  subscribe(listener: ProfilesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Every profile is checked before any is stored, so one rejected profile leaves the
+  // stored list as it was.
+  private saveAll(profiles: DeviceProfile[]): void {
+    const builtIn = profiles.find((profile) =>
+      BUILT_IN_PROFILES.some((existing) => existing.id === profile.id),
+    );
+    if (builtIn) {
+      throw new Error(
+        `${builtIn.name}: built-in profiles cannot be replaced; give the profile another id`,
+      );
+    }
+
+    let updated = this.profiles;
+    for (const profile of profiles) {
+      const index = updated.findIndex((existing) => existing.id === profile.id);
+      updated =
+        index === -1
+          ? [...updated, profile]
+          : updated.map((existing, i) => (i === index ? profile : existing));
+    }
+    this.profiles = updated;
+    this.persist();
+  }
+
+  private persist(): void {
+    try {
+      writeStoredText(STORAGE_NAME, exportProfilesJson(this.profiles));
+    } catch (error) {
+      console.log("Failed to save device profiles:", error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const DeviceProfiles = new DeviceProfileStore();
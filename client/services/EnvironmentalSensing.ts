@@ -0,0 +1,47 @@
+import { SensorChannel } from "@/services/SensorProtocol";
+
+export const ENVIRONMENTAL_SENSING_SERVICE_UUID =
+  "0000181A-0000-1000-8000-00805F9B34FB";
+
+export interface EnvironmentalCharacteristic {
+  uuid: string;
+  name: string;
+  // The app measurement the value is shown as.
+  channel: SensorChannel;
+  decoder: string;
+  scale: number;
+  unit: string;
+  // Raw value meaning "not known" in the SIG format, if any.
+  invalid?: number;
+}
+
+// Formats from the Bluetooth SIG GATT Specification Supplement. Pressure arrives in
+// 0.1 Pa steps and is shown in hPa.
+export const ENVIRONMENTAL_CHARACTERISTICS: EnvironmentalCharacteristic[] = [
+  {
+    uuid: "00002A6E-0000-1000-8000-00805F9B34FB",
+    name: "Temperature",
+    channel: "temperature",
+    decoder: "int16-le",
+    scale: 0.01,
+    unit: "C",
+    invalid: -0x8000,
+  },
+  {
+    uuid: "00002A6F-0000-1000-8000-00805F9B34FB",
+    name: "Humidity",
+    channel: "current",
+    decoder: "uint16-le",
+    scale: 0.01,
+    unit: "%",
+    invalid: 0xffff,
+  },
+  {
+    uuid: "00002A6D-0000-1000-8000-00805F9B34FB",
+    name: "Pressure",
+    channel: "voltage",
+    decoder: "uint32-le",
+    scale: 0.001,
+    unit: "hPa",
+  },
+];
@@ -0,0 +1,162 @@
+import { Platform } from "react-native";
+import * as DocumentPicker from "expo-document-picker";
+import { File, Paths } from "expo-file-system";
+import { crc32, readUint32LE, writeUint32LE } from "@/lib/bytes";
+import { getApiUrl } from "@/lib/query-client";
+
+export interface FirmwareImage {
+  name: string;
+  version: string;
+  payload: Uint8Array;
+  crc32: number;
+}
+
+export interface ServerFirmware {
+  name: string;
+  size: number;
+}
+
+// Image layout: "SMFW" magic, format version, major, minor, patch,
+// payload length (u32 LE), payload CRC32 (u32 LE), then the payload itself.
+const MAGIC = [0x53, 0x4d, 0x46, 0x57];
+const FORMAT_VERSION = 1;
+const HEADER_SIZE = 16;
+
+export function parseFirmwareImage(
+  bytes: Uint8Array,
+  name: string,
+): FirmwareImage {
+  if (bytes.length < HEADER_SIZE) {
+    throw new Error("File is too small to be a firmware image");
+  }
+  if (MAGIC.some((byte, index) => bytes[index] !== byte)) {
+    throw new Error("Not a sensor firmware image (bad header)");
+  }
+  if (bytes[4] !== FORMAT_VERSION) {
+    throw new Error(`Unsupported firmware image format ${bytes[4]}`);
+  }
+
+  const length = readUint32LE(bytes, 8);
+  const expectedCrc = readUint32LE(bytes, 12);
+  const payload = bytes.slice(HEADER_SIZE);
+
+  if (payload.length !== length) {
+    throw new Error(
+      `Image is truncated: expected ${length} bytes, found ${payload.length}`,
+    );
+  }
+
+  const actualCrc = crc32(payload);
+  if (actualCrc !== expectedCrc) {
+    throw new Error("Image CRC check failed; the file is corrupted");
+  }
+
+  return {
+    name,
+    version: `${bytes[5]}.${bytes[6]}.${bytes[7]}`,
+    payload,
+    crc32: actualCrc,
+  };
+}
+
+// Device Information firmware revisions often carry a prefix or suffix ("v1.2.1",
+// "1.2.1 (build 7)"), so the first standalone major.minor.patch triple is used.
+export function parseFirmwareVersion(
+  version: string,
+): [number, number, number] | null {
+  const match = /(?:^|[^\d.])(\d+)\.(\d+)\.(\d+)(?!\.?\d)/.exec(version);
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+export function isSameFirmwareVersion(a: string, b: string): boolean {
+  const left = parseFirmwareVersion(a);
+  const right = parseFirmwareVersion(b);
+  return (
+    !!left && !!right && left.every((part, index) => part === right[index])
+  );
+}
+
+export function buildFirmwareImage(
+  version: string,
+  payload: Uint8Array,
+): Uint8Array {
+  const [major = 0, minor = 0, patch = 0] = version
+    .split(".")
+    .map((part) => parseInt(part, 10) || 0);
+  const header = [
+    ...MAGIC,
+    FORMAT_VERSION,
+    major & 0xff,
+    minor & 0xff,
+    patch & 0xff,
+    ...writeUint32LE(payload.length),
+    ...writeUint32LE(crc32(payload)),
+  ];
+
+  const image = new Uint8Array(HEADER_SIZE + payload.length);
+  image.set(header, 0);
+  image.set(payload, HEADER_SIZE);
+  return image;
+}
+
+export function createTestFirmwareImage(
+  version: string,
+  size: number = 32 * 1024,
+): FirmwareImage {
+  const payload = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    payload[i] = Math.floor(Math.random() * 256);
+  }
+  return parseFirmwareImage(
+    buildFirmwareImage(version, payload),
+    `test-${version}.bin`,
+  );
+}
+
+async function readBytes(uri: string): Promise<Uint8Array> {
+  if (Platform.OS === "web") {
+    const response = await fetch(uri);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+  return new File(uri).bytes();
+}
+
+export async function pickFirmwareFile(): Promise<FirmwareImage | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: "application/octet-stream",
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  return parseFirmwareImage(await readBytes(asset.uri), asset.name);
+}
+
+export async function listServerFirmware(): Promise<ServerFirmware[]> {
+  const response = await fetch(
+    new URL("/api/firmware", getApiUrl()).toString(),
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to list firmware: ${response.status}`);
+  }
+  return response.json();
+}
+
+export async function downloadServerFirmware(
+  name: string,
+): Promise<FirmwareImage> {
+  const url = new URL(
+    `/api/firmware/${encodeURIComponent(name)}`,
+    getApiUrl(),
+  ).toString();
+
+  if (Platform.OS === "web") {
+    return parseFirmwareImage(await readBytes(url), name);
+  }
+
+  const file = await File.downloadFileAsync(url, Paths.cache, {
+    idempotent: true,
+  });
+  return parseFirmwareImage(await file.bytes(), name);
+}
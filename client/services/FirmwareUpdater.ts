@@ -0,0 +1,297 @@
+import { DeviceConnections } from "@/services/ConnectionStateMachine";
+import { FirmwareImage, isSameFirmwareVersion } from "@/services/FirmwareImage";
+
+export type FirmwareUpdateStatus =
+  | "idle"
+  | "starting"
+  | "transferring"
+  | "paused"
+  | "validating"
+  | "activating"
+  | "verifying"
+  | "completed"
+  | "aborted"
+  | "error";
+
+export interface FirmwareUpdateProgress {
+  status: FirmwareUpdateStatus;
+  bytesSent: number;
+  totalBytes: number;
+  installedVersion: string | null;
+  error: string | null;
+}
+
+export interface DfuTarget {
+  chunkSize: number;
+  packetsPerReceipt: number;
+  start(image: FirmwareImage): Promise<void>;
+  sendChunk(chunk: Uint8Array): Promise<void>;
+  waitForReceipt(offset: number, timeoutMs: number): Promise<void>;
+  validate(): Promise<void>;
+  activate(): Promise<void>;
+  readVersion(timeoutMs: number): Promise<string | null>;
+  abort(): Promise<void>;
+  dispose(): void;
+}
+
+export const INITIAL_FIRMWARE_PROGRESS: FirmwareUpdateProgress = {
+  status: "idle",
+  bytesSent: 0,
+  totalBytes: 0,
+  installedVersion: null,
+  error: null,
+};
+
+const RECEIPT_TIMEOUT_MS = 5000;
+const RECONNECT_TIMEOUT_MS = 60000;
+
+export function isUpdateRunning(status: FirmwareUpdateStatus): boolean {
+  return (
+    status === "starting" ||
+    status === "transferring" ||
+    status === "paused" ||
+    status === "validating" ||
+    status === "activating" ||
+    status === "verifying"
+  );
+}
+
+export function waitForReconnect(
+  deviceId: string,
+  timeoutMs: number,
+): Promise<void> {
+  const machine = DeviceConnections.get(deviceId);
+
+  return new Promise((resolve, reject) => {
+    let droppedLink = machine.getState().status !== "subscribed";
+
+    const finish = (error?: Error) => {
+      clearTimeout(timer);
+      unsubscribe();
+      if (error) reject(error);
+      else resolve();
+    };
+
+    const timer = setTimeout(() => {
+      finish(new Error("Device did not reconnect after the update"));
+    }, timeoutMs);
+
+    const unsubscribe = machine.subscribe((state) => {
+      if (state.status === "subscribed") {
+        if (droppedLink) finish();
+      } else if (state.status === "idle" || state.status === "error") {
+        finish(
+          new Error(state.error ?? "Device disconnected during the update"),
+        );
+      } else {
+        droppedLink = true;
+      }
+    });
+  });
+}
+
+export class FirmwareUpdater {
+  private progress: FirmwareUpdateProgress;
+  private resumeWaiter: (() => void) | null = null;
+  private pauseRequested: boolean = false;
+  private abortRequested: boolean = false;
+
+  constructor(
+    private target: DfuTarget,
+    private image: FirmwareImage,
+    private onProgress: (progress: FirmwareUpdateProgress) => void,
+  ) {
+    this.progress = {
+      ...INITIAL_FIRMWARE_PROGRESS,
+      totalBytes: image.payload.length,
+    };
+  }
+
+  getProgress(): FirmwareUpdateProgress {
+    return this.progress;
+  }
+
+  async run(): Promise<FirmwareUpdateProgress> {
+    const { payload } = this.image;
+    const { chunkSize, packetsPerReceipt } = this.target;
+
+    try {
+      this.update({ status: "starting" });
+      await this.target.start(this.image);
+
+      this.update({ status: "transferring" });
+      let offset = 0;
+      let packetsSinceReceipt = 0;
+
+      while (offset < payload.length) {
+        if (this.abortRequested) return this.finishAborted();
+        if (this.pauseRequested) {
+          this.update({ status: "paused" });
+          await new Promise<void>((resolve) => {
+            this.resumeWaiter = resolve;
+          });
+          if (this.abortRequested) return this.finishAborted();
+          this.update({ status: "transferring" });
+        }
+
+        const chunk = payload.slice(offset, offset + chunkSize);
+        await this.target.sendChunk(chunk);
+        offset += chunk.length;
+        packetsSinceReceipt++;
+
+        if (
+          packetsSinceReceipt >= packetsPerReceipt ||
+          offset === payload.length
+        ) {
+          await this.target.waitForReceipt(offset, RECEIPT_TIMEOUT_MS);
+          packetsSinceReceipt = 0;
+          this.update({ bytesSent: offset });
+        }
+      }
+
+      this.update({ status: "validating" });
+      await this.target.validate();
+
+      this.update({ status: "activating" });
+      await this.target.activate();
+
+      this.update({ status: "verifying" });
+      const installedVersion =
+        await this.target.readVersion(RECONNECT_TIMEOUT_MS);
+      if (
+        !installedVersion ||
+        !isSameFirmwareVersion(installedVersion, this.image.version)
+      ) {
+        throw new Error(
+          `Device reports firmware ${installedVersion ?? "unknown"}, expected ${this.image.version}`,
+        );
+      }
+
+      this.update({ status: "completed", installedVersion });
+    } catch (error: any) {
+      if (this.abortRequested) return this.finishAborted();
+      this.update({
+        status: "error",
+        error: error?.message ?? "Firmware update failed",
+      });
+    } finally {
+      this.target.dispose();
+    }
+
+    return this.progress;
+  }
+
+  pause(): void {
+    if (this.progress.status === "transferring") {
+      this.pauseRequested = true;
+    }
+  }
+
+  resume(): void {
+    this.pauseRequested = false;
+    this.resumeWaiter?.();
+    this.resumeWaiter = null;
+  }
+
+  abort(): void {
+    this.abortRequested = true;
+    this.resume();
+  }
+
+  private async finishAborted(): Promise<FirmwareUpdateProgress> {
+    try {
+      await this.target.abort();
+    } catch (error) {
+      console.log("DFU abort error:", error);
+    }
+    this.update({ status: "aborted" });
+    return this.progress;
+  }
+
+  private update(patch: Partial<FirmwareUpdateProgress>): void {
+    this.progress = { ...this.progress, ...patch };
+    this.onProgress(this.progress);
+  }
+}
+
+export class SimulatedDfuTarget implements DfuTarget {
+  chunkSize = 180;
+  packetsPerReceipt = 8;
+  private image: FirmwareImage | null = null;
+  private received = 0;
+  private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+
+  constructor(
+    private deviceId: string,
+    private onInstalled: (version: string) => void,
+  ) {}
+
+  async start(image: FirmwareImage): Promise<void> {
+    this.image = image;
+    this.received = 0;
+    await this.delay(300);
+  }
+
+  async sendChunk(chunk: Uint8Array): Promise<void> {
+    this.received += chunk.length;
+  }
+
+  async waitForReceipt(offset: number): Promise<void> {
+    await this.delay(30);
+    if (this.received !== offset) {
+      throw new Error(
+        `Receipt mismatch: target has ${this.received} bytes, sent ${offset}`,
+      );
+    }
+  }
+
+  async validate(): Promise<void> {
+    await this.delay(500);
+    if (!this.image || this.received !== this.image.payload.length) {
+      throw new Error("Simulated target rejected an incomplete image");
+    }
+  }
+
+  async activate(): Promise<void> {
+    const machine = DeviceConnections.get(this.deviceId);
+    machine.transition(
+      "reconnecting",
+      { attempt: 1 },
+      "rebooting into new firmware",
+    );
+
+    this.schedule(() => {
+      machine.transition("connecting", {}, "reconnect");
+      machine.transition("discovering");
+      if (this.image) this.onInstalled(this.image.version);
+      machine.transition("subscribed");
+    }, 1500);
+  }
+
+  async readVersion(timeoutMs: number): Promise<string | null> {
+    await waitForReconnect(this.deviceId, timeoutMs);
+    return this.image?.version ?? null;
+  }
+
+  async abort(): Promise<void> {
+    this.received = 0;
+    this.image = null;
+  }
+
+  dispose(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => this.schedule(resolve, ms));
+  }
+
+  private schedule(callback: () => void, ms: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, ms);
+    this.timers.add(timer);
+  }
+}
@@ -0,0 +1,1132 @@
+import { SensorReading } from "@/hooks/useSensorData";
+import { fromUtf8 } from "@/lib/bytes";
+import type {
+  AdapterState,
+  CharacteristicBinding,
+  GattCharacteristic,
+  GattService,
+} from "@/services/BleService";
+import { expandUuid } from "@/services/BleService";
+import { ProtocolRegistry, SENSOR_CHANNELS } from "@/services/SensorProtocol";
+import { ReadingMerger, MergePolicy } from "@/services/ReadingMerger";
+import {
+  ReconnectSupervisor,
+  ReconnectOptions,
+} from "@/services/ReconnectSupervisor";
+import {
+  CommandChannel,
+  CommandResult,
+  SensorCommand,
+  CONTROL_SERVICE_UUID,
+  CONTROL_CHAR_UUID,
+  CONTROL_ACK_CHAR_UUID,
+} from "@/services/CommandChannel";
+import { isAuthenticationError, withPairing } from "@/services/Bonding";
+import {
+  ConnectionQuality,
+  ConnectionQualityMonitor,
+} from "@/services/ConnectionQuality";
+import { ClockEstimate, ClockSync, exchangeClock } from "@/services/TimeSync";
+import { FrameAssembler, fragmentFrame } from "@/services/MessageFraming";
+import { CharacteristicPoller, PollingConfig } from "@/services/PollingReader";
+import {
+  LineAssembler,
+  LineParserConfig,
+  NUS_RX_CHAR_UUID,
+  NUS_SERVICE_UUID,
+  NUS_TX_CHAR_UUID,
+  UartLine,
+  lineParserChannels,
+  parseSensorLine,
+} from "@/services/NordicUart";
+import { UartConsole } from "@/services/UartConsole";
+import { DeviceProfiles, resolveProfile } from "@/services/DeviceProfiles";
+import {
+  HISTORY_CONTROL_CHAR_UUID,
+  HISTORY_DATA_CHAR_UUID,
+  HISTORY_SERVICE_UUID,
+} from "@/services/HistorySync";
+import {
+  DeviceInfo,
+  BATTERY_LEVEL_CHAR_UUID,
+  readDeviceInfo,
+} from "@/services/DeviceInformation";
+import {
+  ConnectionStateMachine,
+  DeviceConnections,
+} from "@/services/ConnectionStateMachine";
+
+export const DEFAULT_MTU = 23;
+const ATT_HEADER_SIZE = 3;
+const QUALITY_SAMPLE_MS = 2000;
+const SUBSCRIPTION_SETTLE_MS = 1000;
+
+export type GattCharacteristicListener = (
+  bytes: number[] | null,
+  error?: any,
+) => void;
+
+// One connected device as the platform's Bluetooth stack exposes it. UUIDs are passed
+// in the app's upper-case form; adapters convert them as their API requires.
+export interface GattLink {
+  name: string | null;
+  // Services from the advertisement, which may list more than the GATT server offers.
+  advertisedServices: string[];
+  // Negotiated ATT MTU, or the default where the platform does not report it.
+  mtu: number;
+  listServices(): Promise<string[]>;
+  // Rejects when the service is not present.
+  listCharacteristics(serviceUUID: string): Promise<GattCharacteristic[]>;
+  read(serviceUUID: string, characteristicUUID: string): Promise<number[]>;
+  write(
+    serviceUUID: string,
+    characteristicUUID: string,
+    bytes: number[],
+    withResponse: boolean,
+  ): Promise<void>;
+  // Resolves once notifications are on; errors after that reach the listener.
+  monitor(
+    serviceUUID: string,
+    characteristicUUID: string,
+    listener: GattCharacteristicListener,
+  ): Promise<() => void>;
+  // Null where the platform cannot read the RSSI of a connected device.
+  readRssi(): Promise<number | null>;
+  disconnect(): Promise<void>;
+}
+
+export interface GattPlatform {
+  getAdapterState(): AdapterState;
+  // Connects and discovers services. onDisconnected fires once, when the link drops
+  // without disconnect() having been called.
+  connect(deviceId: string, onDisconnected: () => void): Promise<GattLink>;
+}
+
+// Where sessions look up per-device settings; BleService keeps them for every platform.
+export interface GattSessionConfig {
+  getDeviceBindings(deviceId: string): CharacteristicBinding[];
+  hasExplicitBindings(deviceId: string): boolean;
+  getPollingConfig(deviceId: string): PollingConfig;
+  getMergePolicy(deviceId: string): MergePolicy;
+  getReconnectOptions(): Partial<ReconnectOptions>;
+}
+
+export interface GattSessionEvents {
+  reading(deviceId: string, reading: SensorReading): void;
+  deviceInfo(deviceId: string, info: DeviceInfo): void;
+  quality(deviceId: string, quality: ConnectionQuality): void;
+  uartLine(deviceId: string, line: UartLine): void;
+  error(message: string): void;
+}
+
+interface GattSession {
+  id: string;
+  link: GattLink | null;
+  bindings: CharacteristicBinding[];
+  subscriptions: (() => void)[];
+  poller: CharacteristicPoller<CharacteristicBinding> | null;
+  qualityInterval: ReturnType<typeof setInterval> | null;
+  quality: ConnectionQualityMonitor;
+  clock: ClockSync;
+  framers: Map<string, FrameAssembler>;
+  merger: ReadingMerger;
+  reconnect: ReconnectSupervisor;
+  machine: ConnectionStateMachine;
+  commands: CommandChannel | null;
+  uart: UartSession | null;
+  // Set while the user pairs after a protected characteristic refused access, and left
+  // set when pairing fails so the user is not asked again until the next connection.
+  pairing: Promise<void> | null;
+  historySupported: boolean;
+  deviceInfo: DeviceInfo | null;
+  keepAlive: boolean;
+}
+
+interface UartSession {
+  lines: LineAssembler;
+  // Set when the UART is the device's data source and lines are parsed into readings.
+  parser: LineParserConfig | null;
+}
+
+// Everything that happens on a connected sensor once the platform has a link: profile
+// selection, data streams and polling, the command channel, UART, clock sync, pairing,
+// link quality and reconnects. The ble-plx and Web Bluetooth transports each supply
+// only a GattPlatform.
+export class GattSessions {
+  private sessions: Map<string, GattSession> = new Map();
+  // Devices whose firmware does not answer clock reads. Kept across sessions, since
+  // every connect starts a new ClockSync and the firmware does not change in between.
+  private clockReadUnsupported: Set<string> = new Set();
+
+  constructor(
+    private platform: GattPlatform,
+    private config: GattSessionConfig,
+    private events: GattSessionEvents,
+  ) {}
+
+  has(deviceId: string): boolean {
+    return this.sessions.has(deviceId);
+  }
+
+  getDeviceIds(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  async connect(
+    deviceId: string,
+    deviceName?: string | null,
+  ): Promise<boolean> {
+    const existing = this.sessions.get(deviceId);
+    const session = this.createSession(deviceId);
+    this.sessions.set(deviceId, session);
+
+    if (existing) {
+      this.teardownSession(existing);
+      await this.retireSession(existing, "replaced by a new connection");
+      if (!this.isCurrent(session)) return false;
+    }
+
+    const patch = deviceName === undefined ? {} : { deviceName };
+    if (
+      !session.machine.transition("connecting", {
+        deviceId,
+        simulated: false,
+        ...patch,
+      })
+    ) {
+      return false;
+    }
+
+    try {
+      await this.establishConnection(session);
+      session.keepAlive = true;
+      return true;
+    } catch (error: any) {
+      this.stopDataNotifications(session);
+      await this.closeLink(session);
+      if (!this.isCurrent(session)) return false;
+
+      console.log("Connection error:", error);
+      session.machine.transition(
+        "error",
+        { error: error.message },
+        "connect failed",
+      );
+      this.events.error(`Connection failed: ${error.message}`);
+      return false;
+    }
+  }
+
+  async disconnect(deviceId: string): Promise<void> {
+    const session = this.sessions.get(deviceId);
+    if (!session) return;
+
+    this.teardownSession(session);
+    this.sessions.delete(deviceId);
+    await this.retireSession(session, "user request");
+  }
+
+  // Kept sessions wait while the adapter is unusable and reconnect once it powers on.
+  handleAdapterState(state: AdapterState): void {
+    if (state === "PoweredOn") {
+      this.sessions.forEach((session) => {
+        if (session.keepAlive && !session.link) session.reconnect.start();
+      });
+      return;
+    }
+    if (state === "Resetting" || state === "Unknown") return;
+
+    this.sessions.forEach((session) => {
+      if (session.keepAlive) this.waitForAdapter(session);
+    });
+  }
+
+  // Looks each session's policy up again after the app-wide one changed.
+  updateMergePolicies(): void {
+    this.sessions.forEach((session) =>
+      session.merger.setPolicy(this.config.getMergePolicy(session.id)),
+    );
+  }
+
+  setReconnectOptions(options: Partial<ReconnectOptions>): void {
+    this.sessions.forEach((session) => session.reconnect.setOptions(options));
+  }
+
+  isReconnecting(deviceId: string): boolean {
+    return this.sessions.get(deviceId)?.reconnect.isActive() ?? false;
+  }
+
+  isConnected(deviceId?: string): boolean {
+    if (deviceId) {
+      return this.sessions.get(deviceId)?.link != null;
+    }
+    return Array.from(this.sessions.values()).some(
+      (session) => session.link !== null,
+    );
+  }
+
+  getConnectedDeviceIds(): string[] {
+    return Array.from(this.sessions.values())
+      .filter((session) => session.link !== null)
+      .map((session) => session.id);
+  }
+
+  getConnectionQuality(deviceId: string): ConnectionQuality | null {
+    return this.sessions.get(deviceId)?.quality.snapshot() ?? null;
+  }
+
+  getClockEstimate(deviceId: string): ClockEstimate | null {
+    return this.sessions.get(deviceId)?.clock.getEstimate() ?? null;
+  }
+
+  getMtu(deviceId: string): number {
+    return this.sessions.get(deviceId)?.link?.mtu ?? DEFAULT_MTU;
+  }
+
+  getDeviceInfo(deviceId: string): DeviceInfo | null {
+    return this.sessions.get(deviceId)?.deviceInfo ?? null;
+  }
+
+  supportsCommands(deviceId: string): boolean {
+    return this.sessions.get(deviceId)?.commands != null;
+  }
+
+  supportsUart(deviceId: string): boolean {
+    return this.sessions.get(deviceId)?.uart != null;
+  }
+
+  supportsHistory(deviceId: string): boolean {
+    return this.sessions.get(deviceId)?.historySupported ?? false;
+  }
+
+  async sendUart(deviceId: string, text: string): Promise<void> {
+    const session = this.sessions.get(deviceId);
+    const link = session?.link;
+    if (!session || !link) throw new Error("Device not connected");
+    if (!session.uart)
+      throw new Error("Device does not expose the Nordic UART Service");
+
+    for (const chunk of fragmentFrame(
+      fromUtf8(`${text}\n`),
+      link.mtu - ATT_HEADER_SIZE,
+    )) {
+      await this.secured(session, link, NUS_RX_CHAR_UUID, () =>
+        link.write(NUS_SERVICE_UUID, NUS_RX_CHAR_UUID, chunk, true),
+      );
+    }
+  }
+
+  async sendCommand(
+    deviceId: string,
+    command: SensorCommand,
+    timeoutMs?: number,
+  ): Promise<CommandResult> {
+    const session = this.sessions.get(deviceId);
+    if (!session?.link) {
+      return {
+        ok: false,
+        command: command.type,
+        error: "not-connected",
+        message: "Device not connected",
+      };
+    }
+    if (!session.commands) {
+      return {
+        ok: false,
+        command: command.type,
+        error: "unsupported",
+        message: "Device does not expose a control characteristic",
+      };
+    }
+
+    return session.commands.send(command, timeoutMs);
+  }
+
+  async discoverGatt(deviceId: string): Promise<GattService[]> {
+    const link = this.requireLink(deviceId);
+    const result: GattService[] = [];
+
+    for (const uuid of await link.listServices()) {
+      result.push({
+        uuid,
+        characteristics: await link.listCharacteristics(uuid),
+      });
+    }
+    return result;
+  }
+
+  async readRawCharacteristic(
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string,
+  ): Promise<number[]> {
+    const session = this.sessions.get(deviceId)!;
+    const link = this.requireLink(deviceId);
+    return this.secured(session, link, characteristicUUID, () =>
+      link.read(serviceUUID, characteristicUUID),
+    );
+  }
+
+  async writeRawCharacteristic(
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string,
+    bytes: number[],
+    withResponse: boolean = true,
+  ): Promise<void> {
+    const session = this.sessions.get(deviceId)!;
+    const link = this.requireLink(deviceId);
+    await this.secured(session, link, characteristicUUID, () =>
+      link.write(serviceUUID, characteristicUUID, bytes, withResponse),
+    );
+  }
+
+  // Returns straight away; a subscription that cannot be set up is reported to the
+  // listener like any later notification error.
+  monitorRawCharacteristic(
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string,
+    listener: (bytes: number[] | null, error?: string) => void,
+  ): () => void {
+    const session = this.sessions.get(deviceId)!;
+    const link = this.requireLink(deviceId);
+    let unsubscribe: (() => void) | null = null;
+    let closed = false;
+
+    link
+      .monitor(serviceUUID, characteristicUUID, (bytes, error) =>
+        error
+          ? listener(null, error?.message ?? String(error))
+          : listener(bytes ?? []),
+      )
+      .then(
+        (stop) => {
+          if (closed) {
+            stop();
+            return;
+          }
+          unsubscribe = stop;
+          session.subscriptions.push(stop);
+        },
+        (error: any) => listener(null, error?.message ?? String(error)),
+      );
+
+    return () => {
+      closed = true;
+      if (!unsubscribe) return;
+      const stop = unsubscribe;
+      session.subscriptions = session.subscriptions.filter(
+        (entry) => entry !== stop,
+      );
+      stop();
+    };
+  }
+
+  private requireLink(deviceId: string): GattLink {
+    const link = this.sessions.get(deviceId)?.link;
+    if (!link) {
+      throw new Error("Device not connected");
+    }
+    return link;
+  }
+
+  private createSession(deviceId: string): GattSession {
+    const machine = DeviceConnections.get(deviceId);
+
+    const session: GattSession = {
+      id: deviceId,
+      link: null,
+      bindings: this.config.getDeviceBindings(deviceId),
+      subscriptions: [],
+      poller: null,
+      qualityInterval: null,
+      quality: new ConnectionQualityMonitor(),
+      clock: new ClockSync(),
+      framers: new Map(),
+      merger: new ReadingMerger(
+        this.config.getMergePolicy(deviceId),
+        (received, deviceTime) => {
+          this.events.reading(
+            deviceId,
+            session.clock.stamp(received, deviceTime),
+          );
+        },
+      ),
+      reconnect: new ReconnectSupervisor(() => this.reconnectSession(session), {
+        onAttempt: (attempt, maxAttempts) => {
+          machine.transition(
+            "reconnecting",
+            { attempt },
+            `attempt ${attempt} of ${maxAttempts}`,
+          );
+        },
+        onSuccess: () => {
+          console.log("Reconnected to", session.link?.name);
+        },
+        onGiveUp: () => {
+          const message =
+            "Lost connection to the sensor. Reconnection attempts exhausted.";
+          session.keepAlive = false;
+          machine.transition("error", { error: message }, "reconnect gave up");
+          this.events.error(message);
+        },
+      }),
+      machine,
+      commands: null,
+      uart: null,
+      pairing: null,
+      historySupported: false,
+      deviceInfo: null,
+      keepAlive: false,
+    };
+
+    if (this.clockReadUnsupported.has(deviceId))
+      session.clock.markReadUnsupported();
+    session.reconnect.setOptions(this.config.getReconnectOptions());
+    return session;
+  }
+
+  // Every await below can outlast the session: a new connect replaces it and a disconnect
+  // removes it. A stale session throws so the caller closes the link it was setting up.
+  private async establishConnection(session: GattSession): Promise<void> {
+    const link: GattLink = await this.platform.connect(session.id, () =>
+      this.handleLinkLost(session, link),
+    );
+    session.link = link;
+    this.ensureCurrent(session);
+
+    session.pairing = null;
+    session.machine.transition("discovering", { deviceName: link.name });
+    await this.selectProfile(session, link);
+    this.ensureCurrent(session);
+    session.merger.setPolicy(this.config.getMergePolicy(session.id));
+
+    session.clock.reset();
+    await this.startDataNotifications(session);
+    this.ensureCurrent(session);
+    await this.setupCommandChannel(session);
+    this.ensureCurrent(session);
+    if (session.commands) {
+      await exchangeClock(
+        (command) => session.commands!.send(command),
+        session.clock,
+      );
+      if (!session.clock.isReadSupported())
+        this.clockReadUnsupported.add(session.id);
+      this.ensureCurrent(session);
+    }
+    await this.setupUart(session);
+    this.ensureCurrent(session);
+    await this.detectHistoryService(session);
+    this.ensureCurrent(session);
+    await this.loadDeviceInfo(session);
+    this.ensureCurrent(session);
+    this.startQualitySampling(session);
+    session.machine.transition("subscribed");
+  }
+
+  private isCurrent(session: GattSession): boolean {
+    return this.sessions.get(session.id) === session;
+  }
+
+  private ensureCurrent(session: GattSession): void {
+    if (!this.isCurrent(session))
+      throw new Error("Connection was replaced or closed");
+  }
+
+  private handleLinkLost(session: GattSession, link: GattLink): void {
+    if (session.link !== link) return;
+    console.log("Device disconnected:", link.name);
+    this.stopDataNotifications(session);
+    session.link = null;
+
+    if (session.keepAlive && this.platform.getAdapterState() !== "PoweredOn") {
+      this.waitForAdapter(session);
+    } else if (session.keepAlive) {
+      session.reconnect.start();
+    } else if (session.machine.transition("disconnecting", {}, "link lost")) {
+      session.machine.transition("idle");
+    }
+  }
+
+  private waitForAdapter(session: GattSession): void {
+    session.reconnect.cancel();
+    session.machine.transition(
+      "reconnecting",
+      { attempt: null },
+      `waiting for Bluetooth (${this.platform.getAdapterState()})`,
+    );
+  }
+
+  private async reconnectSession(session: GattSession): Promise<boolean> {
+    if (!session.keepAlive) return false;
+
+    session.machine.transition("connecting", {}, "reconnect");
+
+    try {
+      await this.establishConnection(session);
+    } catch (error) {
+      this.stopDataNotifications(session);
+      await this.closeLink(session);
+      if (!this.isCurrent(session)) return false;
+
+      console.log("Reconnection error:", error);
+      session.machine.transition(
+        "reconnecting",
+        {},
+        "reconnect attempt failed",
+      );
+      return false;
+    }
+
+    if (!session.keepAlive) {
+      await this.disconnect(session.id);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Closes the link with the device's machine going through disconnecting to idle, so a
+  // connection started afterwards begins from idle. Sessions of one device share the
+  // machine: one that already moved on to another connection is left alone.
+  private async retireSession(
+    session: GattSession,
+    reason: string,
+  ): Promise<void> {
+    const { machine } = session;
+    machine.transition("disconnecting", {}, reason);
+    await this.closeLink(session);
+    const { status } = machine.getState();
+    if (status === "disconnecting" || status === "error") {
+      machine.transition("idle");
+    }
+  }
+
+  private async closeLink(session: GattSession): Promise<void> {
+    const link = session.link;
+    session.link = null;
+    if (!link) return;
+
+    try {
+      await link.disconnect();
+    } catch (error) {
+      console.log("Disconnect error:", error);
+    }
+  }
+
+  private async selectProfile(
+    session: GattSession,
+    link: GattLink,
+  ): Promise<void> {
+    session.merger.setChannels(SENSOR_CHANNELS);
+    if (this.config.hasExplicitBindings(session.id)) return;
+
+    await DeviceProfiles.load();
+    let serviceUUIDs = link.advertisedServices;
+    try {
+      serviceUUIDs = [...serviceUUIDs, ...(await link.listServices())];
+    } catch (error) {
+      console.log("Service listing error:", error);
+    }
+
+    for (const profile of DeviceProfiles.match({
+      name: link.name,
+      serviceUUIDs,
+    })) {
+      const resolved = resolveProfile(
+        profile,
+        await this.listCharacteristics(link, profile.serviceUUID),
+      );
+      if (resolved) {
+        DeviceProfiles.assign(session.id, profile.id);
+        session.bindings = resolved.bindings;
+        session.merger.setChannels(resolved.channels);
+        return;
+      }
+    }
+
+    DeviceProfiles.assign(session.id, null);
+    session.bindings = [];
+    // Text firmware on the Nordic UART Service is read through the line parser instead.
+    if (
+      this.hasUartCharacteristics(
+        await this.listCharacteristics(link, NUS_SERVICE_UUID),
+      )
+    )
+      return;
+    this.events.error(
+      `No device profile matches ${link.name ?? session.id}. Add one under Settings > Device Profiles.`,
+    );
+  }
+
+  // Upper-case UUIDs of a service's characteristics, or none when it is missing.
+  private async listCharacteristics(
+    link: GattLink,
+    serviceUUID: string,
+  ): Promise<string[]> {
+    try {
+      const characteristics = await link.listCharacteristics(serviceUUID);
+      return characteristics.map((characteristic) =>
+        expandUuid(characteristic.uuid),
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  private async startDataNotifications(session: GattSession): Promise<void> {
+    const link = session.link;
+    if (!link) return;
+
+    session.merger.reset();
+    session.quality.resumeStreams();
+    session.framers.forEach((framer) => framer.reset());
+
+    const config = this.config.getPollingConfig(session.id);
+    const polled = await this.selectPolledBindings(session, link, config);
+    for (const binding of session.bindings) {
+      if (polled.includes(binding)) continue;
+
+      try {
+        const unsubscribe = await link.monitor(
+          binding.serviceUUID,
+          binding.characteristicUUID,
+          (bytes, error) => {
+            if (error) {
+              console.log(
+                `Notification error on ${binding.characteristicUUID}:`,
+                error,
+              );
+              if (isAuthenticationError(error))
+                this.pairSession(session, binding, "subscribe");
+              return;
+            }
+            if (bytes) this.handleSensorBytes(session, binding, bytes);
+          },
+        );
+        session.subscriptions.push(unsubscribe);
+      } catch (error) {
+        if (isAuthenticationError(error)) {
+          this.pairSession(session, binding, "subscribe");
+          continue;
+        }
+        console.log(
+          `Notifications unavailable on ${binding.characteristicUUID}, polling instead:`,
+          error,
+        );
+        polled.push(binding);
+      }
+    }
+    this.startPolling(session, polled, config);
+  }
+
+  // An explicit list wins; otherwise "auto" polls the characteristics that can be read
+  // but neither notify nor indicate.
+  private async selectPolledBindings(
+    session: GattSession,
+    link: GattLink,
+    config: PollingConfig,
+  ): Promise<CharacteristicBinding[]> {
+    if (config.characteristics) {
+      const listed = config.characteristics.map(expandUuid);
+      return session.bindings.filter((binding) =>
+        listed.includes(expandUuid(binding.characteristicUUID)),
+      );
+    }
+    if (config.mode === "always") return [...session.bindings];
+
+    const polled: CharacteristicBinding[] = [];
+    for (const binding of session.bindings) {
+      try {
+        const characteristics = await link.listCharacteristics(
+          binding.serviceUUID,
+        );
+        const match = characteristics.find(
+          (characteristic) =>
+            expandUuid(characteristic.uuid) ===
+            expandUuid(binding.characteristicUUID),
+        );
+        if (match?.isReadable && !match.isNotifiable && !match.isIndicatable) {
+          polled.push(binding);
+        }
+      } catch (error) {
+        console.log("Characteristic listing error:", error);
+      }
+    }
+    return polled;
+  }
+
+  private startPolling(
+    session: GattSession,
+    bindings: CharacteristicBinding[],
+    config: PollingConfig,
+  ): void {
+    if (!session.link || bindings.length === 0) return;
+
+    session.poller = new CharacteristicPoller(
+      bindings,
+      async (binding) => {
+        const link = session.link;
+        if (!link) return null;
+        try {
+          const bytes = await link.read(
+            binding.serviceUUID,
+            binding.characteristicUUID,
+          );
+          return bytes.length > 0 ? bytes : null;
+        } catch (error) {
+          if (isAuthenticationError(error))
+            this.pairSession(session, binding, "read");
+          throw error;
+        }
+      },
+      (binding, bytes) => this.handleSensorBytes(session, binding, bytes),
+      config,
+      (stats) => session.quality.recordPolling(stats),
+    );
+    session.poller.start();
+  }
+
+  private secured<T>(
+    session: GattSession,
+    link: GattLink,
+    characteristicUUID: string,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    return withPairing(
+      { deviceId: session.id, deviceName: link.name, characteristicUUID },
+      operation,
+    );
+  }
+
+  // A protected characteristic refused a subscription or read. Retrying the same
+  // operation through the pairing flow bonds the link, then every stream is set up again.
+  private pairSession(
+    session: GattSession,
+    binding: CharacteristicBinding,
+    refused: "subscribe" | "read",
+  ): void {
+    const link = session.link;
+    if (!link || session.pairing) return;
+
+    const retry = (): Promise<unknown> =>
+      refused === "read"
+        ? link.read(binding.serviceUUID, binding.characteristicUUID)
+        : this.probeSubscription(link, binding);
+
+    session.pairing = this.secured(
+      session,
+      link,
+      binding.characteristicUUID,
+      retry,
+    )
+      .then(
+        () => {
+          session.pairing = null;
+          if (session.link === link) return this.restartStreams(session);
+        },
+        (error: any) => {
+          this.events.error(
+            `Pairing with ${link.name ?? session.id} failed: ${error.message}`,
+          );
+        },
+      )
+      .catch((error: any) => {
+        console.log("Stream restart error:", error);
+        this.events.error(
+          `Paired with ${link.name ?? session.id}, but its data streams could not restart: ${error.message}`,
+        );
+      });
+  }
+
+  // Some stacks report a refused subscription on the listener rather than from monitor()
+  // itself, so a subscription counts as working once it delivers a value or stays quiet
+  // for a moment.
+  private probeSubscription(
+    link: GattLink,
+    binding: CharacteristicBinding,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let unsubscribe: (() => void) | null = null;
+      let settled = false;
+
+      const settle = (error?: any) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        unsubscribe?.();
+        if (error) reject(error);
+        else resolve();
+      };
+      const timer = setTimeout(() => settle(), SUBSCRIPTION_SETTLE_MS);
+
+      link
+        .monitor(
+          binding.serviceUUID,
+          binding.characteristicUUID,
+          (_bytes, error) => settle(error),
+        )
+        .then((stop) => {
+          if (settled) stop();
+          else unsubscribe = stop;
+        }, settle);
+    });
+  }
+
+  private async restartStreams(session: GattSession): Promise<void> {
+    if (!session.link) return;
+    this.stopDataNotifications(session);
+    await this.startDataNotifications(session);
+    await this.setupCommandChannel(session);
+    await this.setupUart(session);
+    this.startQualitySampling(session);
+  }
+
+  private async setupCommandChannel(session: GattSession): Promise<void> {
+    const link = session.link;
+    if (!link) return;
+
+    const uuids = await this.listCharacteristics(link, CONTROL_SERVICE_UUID);
+    if (
+      !uuids.includes(CONTROL_CHAR_UUID) ||
+      !uuids.includes(CONTROL_ACK_CHAR_UUID)
+    )
+      return;
+
+    const commands = new CommandChannel(async (bytes) => {
+      const current = session.link;
+      if (!current) throw new Error("Device not connected");
+      await this.secured(session, current, CONTROL_CHAR_UUID, () =>
+        current.write(CONTROL_SERVICE_UUID, CONTROL_CHAR_UUID, bytes, true),
+      );
+    });
+
+    try {
+      const unsubscribe = await link.monitor(
+        CONTROL_SERVICE_UUID,
+        CONTROL_ACK_CHAR_UUID,
+        (bytes, error) => {
+          if (error) {
+            console.log("Command ack error:", error);
+            return;
+          }
+          if (bytes) commands.handleAck(bytes);
+        },
+      );
+      session.subscriptions.push(unsubscribe);
+    } catch (error) {
+      console.log("Command acks not available:", error);
+      return;
+    }
+    session.commands = commands;
+  }
+
+  private hasUartCharacteristics(uuids: string[]): boolean {
+    return uuids.includes(NUS_RX_CHAR_UUID) && uuids.includes(NUS_TX_CHAR_UUID);
+  }
+
+  private async setupUart(session: GattSession): Promise<void> {
+    const link = session.link;
+    if (!link) return;
+    if (
+      !this.hasUartCharacteristics(
+        await this.listCharacteristics(link, NUS_SERVICE_UUID),
+      )
+    )
+      return;
+
+    await UartConsole.load();
+    const uart: UartSession = {
+      lines: new LineAssembler((text) => this.handleUartLine(session, text)),
+      parser: null,
+    };
+    const readings = session.bindings.length === 0;
+
+    try {
+      const unsubscribe = await link.monitor(
+        NUS_SERVICE_UUID,
+        NUS_TX_CHAR_UUID,
+        (bytes, error) => {
+          if (error) {
+            console.log("UART notification error:", error);
+            return;
+          }
+          if (bytes) uart.lines.push(bytes);
+        },
+      );
+      session.subscriptions.push(unsubscribe);
+    } catch (error) {
+      console.log("UART notifications not available:", error);
+      return;
+    }
+    session.uart = uart;
+    if (readings) this.useLineParser(session, UartConsole.getParser());
+  }
+
+  private handleUartLine(session: GattSession, text: string): void {
+    this.events.uartLine(session.id, { direction: "rx", text, at: Date.now() });
+    if (!session.uart?.parser) return;
+
+    // Pick up parser changes made in the console while connected.
+    const parser = UartConsole.getParser();
+    if (parser !== session.uart.parser) this.useLineParser(session, parser);
+
+    const values = parseSensorLine(text, parser);
+    if (!values) return;
+    session.quality.recordPacket(NUS_TX_CHAR_UUID);
+    session.merger.push(values);
+  }
+
+  private useLineParser(session: GattSession, parser: LineParserConfig): void {
+    if (!session.uart) return;
+    session.uart.parser = parser;
+    session.merger.setChannels(lineParserChannels(parser));
+  }
+
+  private async detectHistoryService(session: GattSession): Promise<void> {
+    session.historySupported = false;
+    if (!session.link) return;
+
+    const uuids = await this.listCharacteristics(
+      session.link,
+      HISTORY_SERVICE_UUID,
+    );
+    session.historySupported =
+      uuids.includes(HISTORY_CONTROL_CHAR_UUID) &&
+      uuids.includes(HISTORY_DATA_CHAR_UUID);
+  }
+
+  private async loadDeviceInfo(session: GattSession): Promise<void> {
+    const link = session.link;
+    if (!link) return;
+
+    // The default sensor profile streams voltage on the Battery Level characteristic,
+    // so only treat it as a battery percentage when no binding claims it.
+    const readBattery = !session.bindings.some(
+      (binding) =>
+        binding.characteristicUUID.toUpperCase() === BATTERY_LEVEL_CHAR_UUID,
+    );
+
+    session.deviceInfo = await readDeviceInfo(
+      async (serviceUUID, characteristicUUID) => {
+        try {
+          const bytes = await link.read(serviceUUID, characteristicUUID);
+          return bytes.length > 0 ? bytes : null;
+        } catch {
+          return null;
+        }
+      },
+      { readBattery },
+    );
+
+    this.events.deviceInfo(session.id, session.deviceInfo);
+  }
+
+  private startQualitySampling(session: GattSession): void {
+    if (session.qualityInterval) clearInterval(session.qualityInterval);
+
+    session.qualityInterval = setInterval(async () => {
+      const link = session.link;
+      if (!link) return;
+
+      try {
+        const rssi = await link.readRssi();
+        if (rssi !== null) session.quality.recordRssi(rssi);
+      } catch (error) {
+        console.log("RSSI read error:", error);
+      }
+      this.events.quality(session.id, session.quality.snapshot());
+    }, QUALITY_SAMPLE_MS);
+  }
+
+  private handleSensorBytes(
+    session: GattSession,
+    binding: CharacteristicBinding,
+    bytes: number[],
+  ): boolean {
+    try {
+      if (!binding.framed) {
+        return this.decodeSensorBytes(session, binding, bytes);
+      }
+
+      let framer = session.framers.get(binding.characteristicUUID);
+      if (!framer) {
+        framer = new FrameAssembler((payload) =>
+          this.decodeSensorBytes(session, binding, payload),
+        );
+        session.framers.set(binding.characteristicUUID, framer);
+      }
+      framer.push(bytes);
+      session.quality.recordFraming(
+        binding.characteristicUUID,
+        framer.getStats(),
+      );
+      return true;
+    } catch (error) {
+      console.log("Data decode error:", error);
+      return false;
+    }
+  }
+
+  private decodeSensorBytes(
+    session: GattSession,
+    binding: CharacteristicBinding,
+    bytes: number[],
+  ): boolean {
+    try {
+      const protocol = ProtocolRegistry.get(binding.protocol);
+      const values = protocol?.decode(bytes);
+      if (!values) return false;
+
+      session.quality.recordPacket(binding.characteristicUUID);
+      if (values.sequence !== undefined && protocol?.sequenceModulus) {
+        session.quality.recordSequence(
+          binding.characteristicUUID,
+          values.sequence,
+          protocol.sequenceModulus,
+        );
+      }
+      if (values.deviceTime !== undefined && protocol?.deviceTimeWrapMs) {
+        const deviceTime = session.clock.unwrap(
+          values.deviceTime,
+          protocol.deviceTimeWrapMs,
+        );
+        session.clock.addSample(deviceTime, Date.now());
+        values.deviceTime = deviceTime;
+      }
+      session.merger.push(values);
+      return true;
+    } catch (error) {
+      console.log("Data decode error:", error);
+      return false;
+    }
+  }
+
+  private stopDataNotifications(session: GattSession): void {
+    session.commands?.cancelAll();
+    session.commands = null;
+    session.uart = null;
+    session.poller?.stop();
+    session.poller = null;
+    if (session.qualityInterval) {
+      clearInterval(session.qualityInterval);
+      session.qualityInterval = null;
+    }
+    for (const unsubscribe of session.subscriptions) {
+      try {
+        unsubscribe();
+      } catch (error) {
+        console.log("Subscription remove error:", error);
+      }
+    }
+    session.subscriptions = [];
+  }
+
+  private teardownSession(session: GattSession): void {
+    session.keepAlive = false;
+    session.reconnect.cancel();
+    this.stopDataNotifications(session);
+  }
+}
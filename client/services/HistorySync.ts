@@ -0,0 +1,322 @@
+import { SensorReading } from "@/hooks/useSensorData";
+import { FieldLayout, readField } from "@/services/SensorProtocol";
+import { readUint32LE, writeUint32LE } from "@/lib/bytes";
+import { readStoredText, writeStoredText } from "@/lib/storage";
+import { DeviceConnections } from "@/services/ConnectionStateMachine";
+import { SessionRecorder } from "@/services/SessionRecorder";
+
+export const HISTORY_SERVICE_UUID = "0000FF20-0000-1000-8000-00805F9B34FB";
+export const HISTORY_CONTROL_CHAR_UUID = "0000FF21-0000-1000-8000-00805F9B34FB";
+export const HISTORY_DATA_CHAR_UUID = "0000FF22-0000-1000-8000-00805F9B34FB";
+
+export const OP_HISTORY_REQUEST = 0x01;
+export const OP_HISTORY_RESPONSE = 0x60;
+export const HISTORY_STATUS_SUCCESS = 0x01;
+
+// sequence u32, unix seconds u32, then mV, mA, centi-degrees C and centi-pH as 16-bit values.
+export const HISTORY_RECORD_SIZE = 16;
+
+const RECORD_FIELDS: FieldLayout[] = [
+  { channel: "voltage", type: "int16", byteOffset: 8, scale: 0.001 },
+  { channel: "current", type: "int16", byteOffset: 10, scale: 0.001 },
+  { channel: "temperature", type: "int16", byteOffset: 12, scale: 0.01 },
+  { channel: "ph", type: "uint16", byteOffset: 14, scale: 0.01 },
+];
+
+const CURSOR_STORAGE_NAME = "history-cursors";
+const DEFAULT_CHUNK_RECORDS = 32;
+const SIMULATED_CHUNK_DELAY_MS = 150;
+
+export interface HistoryRecord {
+  sequence: number;
+  reading: SensorReading;
+}
+
+export interface HistoryChunk {
+  records: HistoryRecord[];
+  // Records the device still holds after this chunk.
+  remaining: number;
+}
+
+export interface HistorySource {
+  requestChunk(fromSequence: number, maxRecords: number): Promise<HistoryChunk>;
+  dispose(): void;
+}
+
+export type HistorySyncStatus = "idle" | "syncing" | "completed" | "error";
+
+export interface HistorySyncProgress {
+  status: HistorySyncStatus;
+  received: number;
+  total: number;
+  lastSequence: number | null;
+  error: string | null;
+}
+
+export const INITIAL_HISTORY_PROGRESS: HistorySyncProgress = {
+  status: "idle",
+  received: 0,
+  total: 0,
+  lastSequence: null,
+  error: null,
+};
+
+export function encodeHistoryRequest(
+  fromSequence: number,
+  maxRecords: number,
+): number[] {
+  return [
+    OP_HISTORY_REQUEST,
+    ...writeUint32LE(fromSequence),
+    maxRecords & 0xff,
+    (maxRecords >> 8) & 0xff,
+  ];
+}
+
+export function decodeHistoryRecords(bytes: number[]): HistoryRecord[] {
+  const records: HistoryRecord[] = [];
+
+  for (
+    let start = 0;
+    start + HISTORY_RECORD_SIZE <= bytes.length;
+    start += HISTORY_RECORD_SIZE
+  ) {
+    const record = bytes.slice(start, start + HISTORY_RECORD_SIZE);
+    const [voltage, current, temperature, ph] = RECORD_FIELDS.map((field) =>
+      readField(record, field),
+    );
+    if (
+      voltage === null ||
+      current === null ||
+      temperature === null ||
+      ph === null
+    )
+      continue;
+
+    records.push({
+      sequence: readUint32LE(record, 0),
+      reading: {
+        voltage,
+        current,
+        temperature,
+        ph,
+        timestamp: new Date(readUint32LE(record, 4) * 1000),
+      },
+    });
+  }
+
+  return records;
+}
+
+class HistoryCursorStore {
+  private cursors: Map<string, number> = new Map();
+  private loaded: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readStoredText(CURSOR_STORAGE_NAME)
+        .then((text) => {
+          if (!text) return;
+          const data = JSON.parse(text);
+          Object.entries(data.cursors ?? {}).forEach(([key, sequence]) => {
+            if (typeof sequence === "number" && !this.cursors.has(key)) {
+              this.cursors.set(key, sequence);
+            }
+          });
+        })
+        .catch((error) =>
+          console.log("Failed to load history cursors:", error),
+        );
+    }
+    return this.loaded;
+  }
+
+  get(key: string): number | null {
+    return this.cursors.get(key) ?? null;
+  }
+
+  set(key: string, sequence: number): void {
+    this.cursors.set(key, sequence);
+    try {
+      writeStoredText(
+        CURSOR_STORAGE_NAME,
+        JSON.stringify({ cursors: Object.fromEntries(this.cursors) }),
+      );
+    } catch (error) {
+      console.log("Failed to save history cursors:", error);
+    }
+  }
+}
+
+// Last synced sequence per device, kept across launches so an interrupted sync resumes
+// where it stopped.
+export const HistoryCursors = new HistoryCursorStore();
+
+export class HistorySyncer {
+  private progress: HistorySyncProgress = INITIAL_HISTORY_PROGRESS;
+  private cancelled: boolean = false;
+
+  constructor(
+    private source: HistorySource,
+    private cursorKey: string,
+    private onRecords: (records: HistoryRecord[]) => void,
+    private onProgress: (progress: HistorySyncProgress) => void,
+    private chunkRecords: number = DEFAULT_CHUNK_RECORDS,
+  ) {}
+
+  getProgress(): HistorySyncProgress {
+    return this.progress;
+  }
+
+  async run(): Promise<HistorySyncProgress> {
+    await HistoryCursors.load();
+    let lastSequence = HistoryCursors.get(this.cursorKey);
+    let received = 0;
+    this.update({
+      status: "syncing",
+      received: 0,
+      total: 0,
+      lastSequence,
+      error: null,
+    });
+
+    try {
+      while (!this.cancelled) {
+        const from = lastSequence === null ? 0 : lastSequence + 1;
+        const chunk = await this.source.requestChunk(from, this.chunkRecords);
+        if (this.cancelled) break;
+
+        // Devices may resend records after a dropped chunk; keep each sequence once.
+        const bySequence = new Map<number, HistoryRecord>();
+        chunk.records
+          .filter((record) => record.sequence >= from)
+          .forEach((record) => bySequence.set(record.sequence, record));
+        const fresh = Array.from(bySequence.values()).sort(
+          (a, b) => a.sequence - b.sequence,
+        );
+
+        // The cursor only moves past records that were handed on without an error, so
+        // a failure downloads them again on the next sync instead of losing them.
+        if (fresh.length > 0) {
+          this.onRecords(fresh);
+          lastSequence = fresh[fresh.length - 1].sequence;
+          HistoryCursors.set(this.cursorKey, lastSequence);
+          received += fresh.length;
+        }
+
+        this.update({
+          received,
+          total: received + chunk.remaining,
+          lastSequence,
+        });
+        if (chunk.remaining === 0 || fresh.length === 0) break;
+      }
+
+      this.update({ status: this.cancelled ? "idle" : "completed" });
+    } catch (error: any) {
+      this.update(
+        this.cancelled
+          ? { status: "idle" }
+          : { status: "error", error: error?.message ?? "History sync failed" },
+      );
+    } finally {
+      this.source.dispose();
+    }
+
+    return this.progress;
+  }
+
+  // Closing the source fails the pending chunk right away; a cancelled run reports
+  // nothing more, so it cannot overwrite the progress of a sync started after it.
+  cancel(): void {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.source.dispose();
+  }
+
+  private update(patch: Partial<HistorySyncProgress>): void {
+    this.progress = { ...this.progress, ...patch };
+    if (!this.cancelled) this.onProgress(this.progress);
+  }
+}
+
+// Keeps at most one sync running per device for a transport.
+export class HistorySyncSessions {
+  private syncers: Map<string, HistorySyncer> = new Map();
+
+  constructor(
+    private onRecords: (deviceId: string, records: HistoryRecord[]) => void,
+    private onProgress: (
+      deviceId: string,
+      progress: HistorySyncProgress,
+    ) => void,
+  ) {}
+
+  isSyncing(deviceId: string): boolean {
+    return this.syncers.has(deviceId);
+  }
+
+  start(
+    deviceId: string,
+    source: HistorySource,
+    cursorKey: string = deviceId,
+  ): void {
+    if (this.syncers.has(deviceId)) {
+      source.dispose();
+      return;
+    }
+
+    // Records go into the session recording before anyone else sees them, so a saved
+    // session holds the whole download.
+    const syncer = new HistorySyncer(
+      source,
+      cursorKey,
+      (records) => {
+        SessionRecorder.recordHistory(
+          deviceId,
+          DeviceConnections.getState(deviceId)?.deviceName ?? null,
+          records,
+        );
+        this.onRecords(deviceId, records);
+      },
+      (progress) => this.onProgress(deviceId, progress),
+    );
+    this.syncers.set(deviceId, syncer);
+    syncer.run().finally(() => {
+      if (this.syncers.get(deviceId) === syncer) this.syncers.delete(deviceId);
+    });
+  }
+
+  cancel(deviceId: string): void {
+    const syncer = this.syncers.get(deviceId);
+    if (!syncer) return;
+
+    syncer.cancel();
+    this.syncers.delete(deviceId);
+    if (syncer.getProgress().status === "syncing") {
+      this.onProgress(deviceId, { ...syncer.getProgress(), status: "idle" });
+    }
+  }
+}
+
+export class SimulatedHistorySource implements HistorySource {
+  constructor(private log: HistoryRecord[]) {}
+
+  async requestChunk(
+    fromSequence: number,
+    maxRecords: number,
+  ): Promise<HistoryChunk> {
+    await new Promise((resolve) =>
+      setTimeout(resolve, SIMULATED_CHUNK_DELAY_MS),
+    );
+    const pending = this.log.filter(
+      (record) => record.sequence >= fromSequence,
+    );
+    return {
+      records: pending.slice(0, maxRecords),
+      remaining: Math.max(0, pending.length - maxRecords),
+    };
+  }
+
+  dispose(): void {}
+}
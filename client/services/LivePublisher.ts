@@ -0,0 +1,83 @@
+import { SensorReading } from "@/hooks/useSensorData";
+import { getLiveStreamUrl } from "@/services/WebSocketTransport";
+import { LiveClientMessage } from "@shared/live";
+
+const RETRY_DELAY_MS = 5000;
+// Skip readings rather than queue them while the socket is backed up.
+const MAX_BUFFERED_BYTES = 64 * 1024;
+
+// Pushes readings from local devices to the /api/live relay so other clients can watch.
+class LivePublisherClass {
+  private enabled: boolean = false;
+  private socket: WebSocket | null = null;
+  private lastAttempt: number = 0;
+  private dropped: number = 0;
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.socket?.close();
+      this.socket = null;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+
+  publish(
+    deviceId: string,
+    deviceName: string | null,
+    reading: SensorReading,
+  ): void {
+    if (!this.enabled) return;
+
+    const socket = this.ensureSocket();
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+    if (socket.bufferedAmount > MAX_BUFFERED_BYTES) {
+      this.dropped++;
+      return;
+    }
+
+    const message: LiveClientMessage = {
+      type: "publish",
+      deviceId,
+      deviceName: deviceName ?? undefined,
+      reading: {
+        voltage: reading.voltage,
+        current: reading.current,
+        temperature: reading.temperature,
+        ph: reading.ph,
+        timestamp: reading.timestamp.getTime(),
+      },
+    };
+    socket.send(JSON.stringify(message));
+  }
+
+  private ensureSocket(): WebSocket | null {
+    if (this.socket && this.socket.readyState <= WebSocket.OPEN)
+      return this.socket;
+
+    const now = Date.now();
+    if (now - this.lastAttempt < RETRY_DELAY_MS) return null;
+    this.lastAttempt = now;
+
+    try {
+      const socket = new WebSocket(getLiveStreamUrl());
+      socket.onclose = () => {
+        if (this.socket === socket) this.socket = null;
+      };
+      this.socket = socket;
+    } catch (error) {
+      console.log("Live publisher error:", error);
+      this.socket = null;
+    }
+    return this.socket;
+  }
+}
+
+export const LivePublisher = new LivePublisherClass();
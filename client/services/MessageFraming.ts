@@ -0,0 +1,170 @@
+import { crc16, readUint16LE, writeUint16LE } from "@/lib/bytes";
+
+// Frame layout: sync 0xA5, sequence u8, payload length u16 LE, payload, then a CRC16
+// (CCITT-FALSE, LE) over everything after the sync byte. A frame may be split across any
+// number of notifications, and one notification may carry the end of one frame and the
+// start of the next.
+export const FRAME_SYNC = 0xa5;
+export const FRAME_HEADER_SIZE = 4;
+export const FRAME_CRC_SIZE = 2;
+export const MAX_FRAME_PAYLOAD = 4096;
+
+const SEQUENCE_MODULUS = 256;
+const DEFAULT_FRAGMENT_TIMEOUT_MS = 2000;
+
+export interface FramingStats {
+  frames: number;
+  crcErrors: number;
+  lengthErrors: number;
+  // Partial frames abandoned because the rest never arrived.
+  timeouts: number;
+  // Frames missing between two good ones, inferred from the sequence number.
+  missedFrames: number;
+  discardedBytes: number;
+}
+
+export const EMPTY_FRAMING_STATS: FramingStats = {
+  frames: 0,
+  crcErrors: 0,
+  lengthErrors: 0,
+  timeouts: 0,
+  missedFrames: 0,
+  discardedBytes: 0,
+};
+
+export function countFramingErrors(stats: FramingStats): number {
+  return stats.crcErrors + stats.lengthErrors + stats.timeouts;
+}
+
+export function sumFramingStats(all: FramingStats[]): FramingStats {
+  return all.reduce(
+    (total, stats) => ({
+      frames: total.frames + stats.frames,
+      crcErrors: total.crcErrors + stats.crcErrors,
+      lengthErrors: total.lengthErrors + stats.lengthErrors,
+      timeouts: total.timeouts + stats.timeouts,
+      missedFrames: total.missedFrames + stats.missedFrames,
+      discardedBytes: total.discardedBytes + stats.discardedBytes,
+    }),
+    EMPTY_FRAMING_STATS,
+  );
+}
+
+export function encodeFrame(payload: number[], sequence: number): number[] {
+  const body = [sequence & 0xff, ...writeUint16LE(payload.length), ...payload];
+  return [FRAME_SYNC, ...body, ...writeUint16LE(crc16(body))];
+}
+
+// Splits an encoded frame into notification-sized pieces.
+export function fragmentFrame(
+  frame: number[],
+  fragmentSize: number,
+): number[][] {
+  const fragments: number[][] = [];
+  for (let start = 0; start < frame.length; start += fragmentSize) {
+    fragments.push(frame.slice(start, start + fragmentSize));
+  }
+  return fragments;
+}
+
+export class FrameAssembler {
+  private buffer: number[] = [];
+  private lastByteAt = 0;
+  private lastSequence: number | null = null;
+  // After an error the stream is scanned for the next good frame; false sync bytes found
+  // along the way are not counted as further errors.
+  private resyncing = false;
+  private stats: FramingStats = { ...EMPTY_FRAMING_STATS };
+
+  constructor(
+    private onFrame: (payload: number[], sequence: number) => void,
+    private fragmentTimeoutMs: number = DEFAULT_FRAGMENT_TIMEOUT_MS,
+  ) {}
+
+  push(bytes: number[], now: number = Date.now()): void {
+    if (
+      this.buffer.length > 0 &&
+      now - this.lastByteAt > this.fragmentTimeoutMs
+    ) {
+      this.stats.timeouts++;
+      this.stats.discardedBytes += this.buffer.length;
+      this.buffer = [];
+      this.resyncing = true;
+    }
+    this.lastByteAt = now;
+    this.buffer.push(...bytes);
+
+    while (this.buffer.length > 0) {
+      if (this.buffer[0] !== FRAME_SYNC) {
+        this.skipToSync();
+        continue;
+      }
+      if (this.buffer.length < FRAME_HEADER_SIZE) return;
+
+      const length = readUint16LE(this.buffer, 2);
+      if (length > MAX_FRAME_PAYLOAD) {
+        if (!this.resyncing) this.stats.lengthErrors++;
+        this.resyncing = true;
+        this.discard(1);
+        continue;
+      }
+
+      const frameSize = FRAME_HEADER_SIZE + length + FRAME_CRC_SIZE;
+      if (this.buffer.length < frameSize) return;
+
+      const body = this.buffer.slice(1, FRAME_HEADER_SIZE + length);
+      if (
+        crc16(body) !== readUint16LE(this.buffer, FRAME_HEADER_SIZE + length)
+      ) {
+        // The sync byte may have been payload; rescan from the next byte.
+        if (!this.resyncing) this.stats.crcErrors++;
+        this.resyncing = true;
+        this.discard(1);
+        continue;
+      }
+
+      const sequence = this.buffer[1];
+      const payload = this.buffer.slice(
+        FRAME_HEADER_SIZE,
+        FRAME_HEADER_SIZE + length,
+      );
+      this.buffer = this.buffer.slice(frameSize);
+      this.resyncing = false;
+      this.countSequence(sequence);
+      this.stats.frames++;
+      this.onFrame(payload, sequence);
+    }
+  }
+
+  getStats(): FramingStats {
+    return { ...this.stats };
+  }
+
+  // Drops any partial frame, e.g. after a reconnect. Counters are kept.
+  reset(): void {
+    this.buffer = [];
+    this.lastSequence = null;
+    this.resyncing = false;
+  }
+
+  private countSequence(sequence: number): void {
+    if (this.lastSequence !== null) {
+      const step =
+        (sequence - this.lastSequence + SEQUENCE_MODULUS) % SEQUENCE_MODULUS;
+      if (step > 1 && step < SEQUENCE_MODULUS / 2) {
+        this.stats.missedFrames += step - 1;
+      }
+    }
+    this.lastSequence = sequence;
+  }
+
+  private skipToSync(): void {
+    const next = this.buffer.indexOf(FRAME_SYNC);
+    this.discard(next === -1 ? this.buffer.length : next);
+  }
+
+  private discard(count: number): void {
+    this.stats.discardedBytes += count;
+    this.buffer = this.buffer.slice(count);
+  }
+}
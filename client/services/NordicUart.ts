@@ -0,0 +1,165 @@
+import { SensorReading } from "@/hooks/useSensorData";
+import { toUtf8 } from "@/lib/bytes";
+import {
+  DecodedValues,
+  SENSOR_CHANNELS,
+  SensorChannel,
+} from "@/services/SensorProtocol";
+
+// Nordic UART Service: the phone writes to RX and the device notifies on TX.
+export const NUS_SERVICE_UUID = "6E400001-B5A3-F393-E0A9-E50E24DCCA9E";
+export const NUS_RX_CHAR_UUID = "6E400002-B5A3-F393-E0A9-E50E24DCCA9E";
+export const NUS_TX_CHAR_UUID = "6E400003-B5A3-F393-E0A9-E50E24DCCA9E";
+
+const MAX_LINE_BYTES = 1024;
+
+// "rx" lines came from the device, "tx" lines were sent to it.
+export interface UartLine {
+  direction: "rx" | "tx";
+  text: string;
+  at: number;
+}
+
+// Parses lines such as `V=3.31,I=0.82,T=36.5,PH=7.02`. Keys are matched case-insensitively,
+// and pairs with unknown keys or non-numeric values are ignored.
+export interface LineParserConfig {
+  pairSeparator: string;
+  keySeparator: string;
+  keys: Partial<Record<SensorChannel, string>>;
+}
+
+export const DEFAULT_LINE_PARSER: LineParserConfig = {
+  pairSeparator: ",",
+  keySeparator: "=",
+  keys: { voltage: "V", current: "I", temperature: "T", ph: "PH" },
+};
+
+export function lineParserChannels(config: LineParserConfig): SensorChannel[] {
+  return SENSOR_CHANNELS.filter((channel) => config.keys[channel]);
+}
+
+export function parseSensorLine(
+  line: string,
+  config: LineParserConfig,
+): DecodedValues | null {
+  const channelsByKey = new Map<string, SensorChannel>();
+  for (const channel of lineParserChannels(config)) {
+    channelsByKey.set(config.keys[channel]!.trim().toUpperCase(), channel);
+  }
+
+  const values: DecodedValues = {};
+  let found = false;
+  for (const pair of line.split(config.pairSeparator)) {
+    const separator = pair.indexOf(config.keySeparator);
+    if (separator === -1) continue;
+
+    const channel = channelsByKey.get(
+      pair.slice(0, separator).trim().toUpperCase(),
+    );
+    const raw = pair.slice(separator + config.keySeparator.length).trim();
+    const value = Number(raw);
+    if (!channel || raw === "" || !Number.isFinite(value)) continue;
+
+    values[channel] = value;
+    found = true;
+  }
+  return found ? values : null;
+}
+
+export function formatSensorLine(
+  reading: SensorReading,
+  config: LineParserConfig,
+): string {
+  return lineParserChannels(config)
+    .map(
+      (channel) =>
+        `${config.keys[channel]}${config.keySeparator}${reading[channel].toFixed(2)}`,
+    )
+    .join(config.pairSeparator);
+}
+
+export function validateLineParser(input: unknown): LineParserConfig {
+  if (!input || typeof input !== "object")
+    throw new Error("Parser settings must be an object");
+  const data = input as Record<string, any>;
+
+  for (const field of ["pairSeparator", "keySeparator"]) {
+    if (typeof data[field] !== "string" || data[field] === "") {
+      throw new Error(`${field} must be a non-empty string`);
+    }
+  }
+  if (data.pairSeparator === data.keySeparator) {
+    throw new Error("The pair and key separators must differ");
+  }
+
+  const keys: Partial<Record<SensorChannel, string>> = {};
+  for (const channel of SENSOR_CHANNELS) {
+    const key = data.keys?.[channel];
+    if (typeof key === "string" && key.trim()) keys[channel] = key.trim();
+  }
+  if (Object.keys(keys).length === 0)
+    throw new Error("Map at least one channel to a key");
+
+  return {
+    pairSeparator: data.pairSeparator,
+    keySeparator: data.keySeparator,
+    keys,
+  };
+}
+
+// Splits a notification stream into text lines. A line may span notifications, and
+// carriage returns and blank lines are dropped.
+export class LineAssembler {
+  private buffer: number[] = [];
+
+  constructor(private onLine: (text: string) => void) {}
+
+  push(bytes: number[]): void {
+    for (const byte of bytes) {
+      if (byte === 0x0a) {
+        this.flush();
+      } else {
+        this.buffer.push(byte);
+        if (this.buffer.length >= MAX_LINE_BYTES) this.flush();
+      }
+    }
+  }
+
+  reset(): void {
+    this.buffer = [];
+  }
+
+  private flush(): void {
+    const text = toUtf8(this.buffer).replace(/\r$/, "");
+    this.buffer = [];
+    if (text.trim()) this.onLine(text);
+  }
+}
+
+const SIMULATED_COMMANDS = ["help", "version", "read", "uptime", "echo <text>"];
+const simulatedBootAt = Date.now();
+
+// A tiny shell for the simulated sensor, so the console can be tried without hardware.
+export function simulateUartCommand(
+  command: string,
+  reading: SensorReading,
+  config: LineParserConfig,
+): string[] {
+  const [name = "", ...args] = command.trim().split(/\s+/);
+  switch (name.toLowerCase()) {
+    case "help":
+      return [`Commands: ${SIMULATED_COMMANDS.join(", ")}`];
+    case "version":
+      return ["Sensor Monitor SIM-4CH 1.0.0-sim"];
+    case "read":
+      return [formatSensorLine(reading, config)];
+    case "uptime":
+      return [`uptime=${Math.round((Date.now() - simulatedBootAt) / 1000)}s`];
+    case "echo":
+      return [args.join(" ")];
+    case "":
+      return [];
+    default:
+      return [`ERR unknown command: ${name}`];
+  }
+}
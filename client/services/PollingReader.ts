@@ -0,0 +1,226 @@
+// Reads characteristics on a schedule for sensors that cannot notify. Failed reads are
+// retried with exponential backoff and counted in the stats; they never stop the loop.
+export interface PollingConfig {
+  // "auto" polls only characteristics without notify or indicate support; "always" polls
+  // every bound characteristic.
+  mode: "auto" | "always";
+  // Characteristic UUIDs to poll instead of deciding by mode.
+  characteristics?: string[];
+  intervalMs: number;
+  readTimeoutMs: number;
+  // Further attempts for a failed read within one cycle.
+  maxRetries: number;
+  // Delay before the first retry, doubled for each one after.
+  backoffMs: number;
+  // Upper bound for retry delays and for the pause after a cycle in which every read failed.
+  maxBackoffMs: number;
+}
+
+export const DEFAULT_POLLING_CONFIG: PollingConfig = {
+  mode: "auto",
+  intervalMs: 1000,
+  readTimeoutMs: 2000,
+  maxRetries: 2,
+  backoffMs: 250,
+  maxBackoffMs: 10000,
+};
+
+export interface PollingStats {
+  cycles: number;
+  reads: number;
+  failures: number;
+  timeouts: number;
+  retries: number;
+  // Cycles in a row in which no read succeeded; each one lengthens the pause.
+  failedCycles: number;
+  lastError: string | null;
+}
+
+export const EMPTY_POLLING_STATS: PollingStats = {
+  cycles: 0,
+  reads: 0,
+  failures: 0,
+  timeouts: 0,
+  retries: 0,
+  failedCycles: 0,
+  lastError: null,
+};
+
+const NUMBER_FIELDS = [
+  "intervalMs",
+  "readTimeoutMs",
+  "maxRetries",
+  "backoffMs",
+  "maxBackoffMs",
+] as const;
+const MIN_INTERVAL_MS = 100;
+const MIN_READ_TIMEOUT_MS = 100;
+
+export class ReadTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Read timed out after ${timeoutMs} ms`);
+    this.name = "ReadTimeoutError";
+  }
+}
+
+export function validatePollingConfig(input: unknown): PollingConfig {
+  if (!input || typeof input !== "object")
+    throw new Error("Polling settings must be an object");
+  const data = input as Record<string, any>;
+  const config: PollingConfig = { ...DEFAULT_POLLING_CONFIG };
+
+  if (data.mode !== undefined) {
+    if (data.mode !== "auto" && data.mode !== "always") {
+      throw new Error('Polling mode must be "auto" or "always"');
+    }
+    config.mode = data.mode;
+  }
+  if (data.characteristics !== undefined) {
+    if (
+      !Array.isArray(data.characteristics) ||
+      data.characteristics.some((uuid: unknown) => typeof uuid !== "string")
+    ) {
+      throw new Error("Polled characteristics must be a list of UUIDs");
+    }
+    config.characteristics = data.characteristics;
+  }
+  for (const field of NUMBER_FIELDS) {
+    const value = data[field];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Polling ${field} must be a non-negative number`);
+    }
+    config[field] = value;
+  }
+  if (config.intervalMs < MIN_INTERVAL_MS) {
+    throw new Error(`Polling intervalMs must be at least ${MIN_INTERVAL_MS}`);
+  }
+  if (config.readTimeoutMs < MIN_READ_TIMEOUT_MS) {
+    throw new Error(
+      `Polling readTimeoutMs must be at least ${MIN_READ_TIMEOUT_MS}`,
+    );
+  }
+  // A failing device must never be polled faster than a healthy one.
+  if (config.maxBackoffMs < config.intervalMs) {
+    throw new Error("Polling maxBackoffMs must be at least intervalMs");
+  }
+  return config;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new ReadTimeoutError(timeoutMs)),
+      timeoutMs,
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class CharacteristicPoller<T> {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private stats: PollingStats = { ...EMPTY_POLLING_STATS };
+
+  constructor(
+    private targets: T[],
+    private read: (target: T) => Promise<number[] | null>,
+    private onData: (target: T, bytes: number[]) => void,
+    private config: PollingConfig,
+    private onStats?: (stats: PollingStats) => void,
+  ) {}
+
+  start(): void {
+    if (this.running || this.targets.length === 0) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  getStats(): PollingStats {
+    return { ...this.stats };
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => this.runCycle(), delayMs);
+  }
+
+  private async runCycle(): Promise<void> {
+    const startedAt = Date.now();
+    let succeeded = 0;
+
+    // Reads run one at a time; most stacks reject overlapping GATT operations.
+    for (const target of this.targets) {
+      if (!this.running) return;
+      const bytes = await this.readWithRetries(target);
+      if (bytes) {
+        succeeded++;
+        this.onData(target, bytes);
+      }
+    }
+    if (!this.running) return;
+
+    this.stats.cycles++;
+    this.stats.failedCycles = succeeded > 0 ? 0 : this.stats.failedCycles + 1;
+    this.onStats?.(this.getStats());
+
+    const pause =
+      this.stats.failedCycles > 0
+        ? Math.min(
+            this.config.intervalMs * 2 ** this.stats.failedCycles,
+            this.config.maxBackoffMs,
+          )
+        : this.config.intervalMs;
+    this.schedule(Math.max(0, pause - (Date.now() - startedAt)));
+  }
+
+  private async readWithRetries(target: T): Promise<number[] | null> {
+    for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+      if (!this.running) return null;
+      if (attempt > 0) {
+        this.stats.retries++;
+        await delay(
+          Math.min(
+            this.config.backoffMs * 2 ** (attempt - 1),
+            this.config.maxBackoffMs,
+          ),
+        );
+      }
+
+      this.stats.reads++;
+      try {
+        const bytes = await withTimeout(
+          this.read(target),
+          this.config.readTimeoutMs,
+        );
+        if (bytes && bytes.length > 0) return bytes;
+        this.stats.failures++;
+        this.stats.lastError = "Empty value";
+      } catch (error: any) {
+        this.stats.failures++;
+        if (error instanceof ReadTimeoutError) this.stats.timeouts++;
+        this.stats.lastError = error?.message ?? String(error);
+      }
+    }
+    return null;
+  }
+}
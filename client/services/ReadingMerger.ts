@@ -0,0 +1,111 @@
+import { SensorReading } from "@/hooks/useSensorData";
+import {
+  DecodedValues,
+  SensorChannel,
+  SENSOR_CHANNELS,
+  toSensorReading,
+} from "@/services/SensorProtocol";
+
+export type MergePolicy =
+  | { mode: "every-update" }
+  | { mode: "window"; windowMs: number };
+
+export const DEFAULT_MERGE_POLICY: MergePolicy = { mode: "every-update" };
+
+const MIN_WINDOW_MS = 10;
+
+export function validateMergePolicy(input: unknown): MergePolicy {
+  if (!input || typeof input !== "object")
+    throw new Error("Merge settings must be an object");
+  const data = input as Record<string, any>;
+
+  if (data.mode === "every-update") return { mode: "every-update" };
+  if (data.mode !== "window") {
+    throw new Error('Merge mode must be "every-update" or "window"');
+  }
+  if (
+    typeof data.windowMs !== "number" ||
+    !Number.isFinite(data.windowMs) ||
+    data.windowMs < MIN_WINDOW_MS
+  ) {
+    throw new Error(`Merge windowMs must be at least ${MIN_WINDOW_MS}`);
+  }
+  return { mode: "window", windowMs: data.windowMs };
+}
+
+export class ReadingMerger {
+  private values: DecodedValues = {};
+  private arrivedAt: Partial<Record<SensorChannel, number>> = {};
+  private deviceTime: number | null = null;
+  private channels: SensorChannel[] = SENSOR_CHANNELS;
+
+  // deviceTime is the latest device clock value seen in the merged updates, if any.
+  constructor(
+    private policy: MergePolicy,
+    private onReading: (
+      reading: SensorReading,
+      deviceTime: number | null,
+    ) => void,
+  ) {}
+
+  setPolicy(policy: MergePolicy): void {
+    this.policy = policy;
+    this.reset();
+  }
+
+  getPolicy(): MergePolicy {
+    return this.policy;
+  }
+
+  // The channels the device actually measures; readings wait for these only.
+  setChannels(channels: SensorChannel[]): void {
+    this.channels = channels;
+    this.reset();
+  }
+
+  push(update: DecodedValues, now: number = Date.now()): void {
+    for (const channel of SENSOR_CHANNELS) {
+      const value = update[channel];
+      if (value === undefined) continue;
+      this.values[channel] = value;
+      this.arrivedAt[channel] = now;
+    }
+    if (update.deviceTime !== undefined) {
+      this.deviceTime = update.deviceTime;
+    }
+
+    if (this.policy.mode === "every-update") {
+      const reading = toSensorReading(
+        this.values,
+        new Date(now),
+        this.channels,
+      );
+      if (reading) {
+        this.onReading(reading, this.deviceTime);
+      }
+      return;
+    }
+
+    const oldest = now - this.policy.windowMs;
+    for (const channel of SENSOR_CHANNELS) {
+      const arrived = this.arrivedAt[channel];
+      if (arrived !== undefined && arrived < oldest) {
+        delete this.values[channel];
+        delete this.arrivedAt[channel];
+      }
+    }
+
+    const reading = toSensorReading(this.values, new Date(now), this.channels);
+    if (reading) {
+      const deviceTime = this.deviceTime;
+      this.reset();
+      this.onReading(reading, deviceTime);
+    }
+  }
+
+  reset(): void {
+    this.values = {};
+    this.arrivedAt = {};
+    this.deviceTime = null;
+  }
+}
@@ -0,0 +1,101 @@
+export interface ReconnectOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  maxAttempts: number;
+}
+
+export interface ReconnectCallbacks {
+  onAttempt: (attempt: number, maxAttempts: number) => void;
+  onSuccess: () => void;
+  onGiveUp: () => void;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  maxAttempts: 6,
+};
+
+export class ReconnectSupervisor {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private attempt: number = 0;
+  private active: boolean = false;
+
+  constructor(
+    private connect: () => Promise<boolean>,
+    private callbacks: ReconnectCallbacks,
+    private options: ReconnectOptions = DEFAULT_RECONNECT_OPTIONS,
+  ) {}
+
+  setOptions(options: Partial<ReconnectOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  start(): void {
+    if (this.active) return;
+    this.active = true;
+    this.attempt = 0;
+    this.scheduleNext();
+  }
+
+  cancel(): void {
+    this.active = false;
+    this.attempt = 0;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  getAttempt(): number {
+    return this.attempt;
+  }
+
+  getDelayForAttempt(attempt: number): number {
+    const delay =
+      this.options.initialDelayMs *
+      Math.pow(this.options.multiplier, attempt - 1);
+    return Math.min(delay, this.options.maxDelayMs);
+  }
+
+  private scheduleNext(): void {
+    if (!this.active) return;
+
+    if (this.attempt >= this.options.maxAttempts) {
+      this.cancel();
+      this.callbacks.onGiveUp();
+      return;
+    }
+
+    this.attempt += 1;
+    const attempt = this.attempt;
+    this.callbacks.onAttempt(attempt, this.options.maxAttempts);
+
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      if (!this.active) return;
+
+      let connected = false;
+      try {
+        connected = await this.connect();
+      } catch (error) {
+        console.log(`Reconnect attempt ${attempt} failed:`, error);
+      }
+
+      if (!this.active) return;
+
+      if (connected) {
+        this.cancel();
+        this.callbacks.onSuccess();
+      } else {
+        this.scheduleNext();
+      }
+    }, this.getDelayForAttempt(attempt));
+  }
+}
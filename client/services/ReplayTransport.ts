@@ -0,0 +1,538 @@
+import { Platform } from "react-native";
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+import { BleDevice } from "@/services/BleService";
+import { ConnectionQuality } from "@/services/ConnectionQuality";
+import { EMPTY_DEVICE_INFO } from "@/services/DeviceInformation";
+import {
+  DeviceConnections,
+  ScanMachine,
+} from "@/services/ConnectionStateMachine";
+import {
+  SensorTransport,
+  TransportEvents,
+  TransportListener,
+} from "@/services/SensorTransport";
+
+export interface RecordedReading {
+  offsetMs: number;
+  voltage: number;
+  current: number;
+  temperature: number;
+  ph: number;
+}
+
+// Link health sampled while the session was recorded.
+export interface RecordedQuality {
+  offsetMs: number;
+  rssi: number | null;
+  packetsPerSecond: number;
+  meanIntervalMs: number | null;
+  jitterMs: number | null;
+  packetsReceived: number;
+  packetsLost: number;
+  lossPercent: number | null;
+}
+
+export interface RecordedSession {
+  version: 1;
+  deviceId: string;
+  deviceName: string;
+  // The sensor the readings came from, from its Device Information service; null when
+  // it did not report them or the recording predates them.
+  serialNumber: string | null;
+  firmwareRevision: string | null;
+  startedAt: string;
+  readings: RecordedReading[];
+  // Absent in recordings made before quality was stored.
+  quality?: RecordedQuality[];
+}
+
+export type ReplaySpeed = 1 | 2 | 10 | "instant";
+
+export const REPLAY_SPEEDS: ReplaySpeed[] = [1, 2, 10, "instant"];
+
+export interface ReplayPlaybackState {
+  deviceId: string;
+  positionMs: number;
+  durationMs: number;
+  speed: ReplaySpeed;
+  paused: boolean;
+  loop: boolean;
+}
+
+type PlaybackListener = (
+  deviceId: string,
+  state: ReplayPlaybackState | null,
+) => void;
+
+interface Playback {
+  deviceId: string;
+  session: RecordedSession;
+  // Index of the next reading to emit.
+  index: number;
+  // Index of the next quality sample to emit.
+  qualityIndex: number;
+  // Session position at clockStartedAt; while playing the position keeps
+  // advancing with wall time scaled by the playback speed.
+  positionMs: number;
+  clockStartedAt: number;
+  speed: ReplaySpeed;
+  paused: boolean;
+  loop: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const CONNECT_DELAY_MS = 300;
+const MAX_RSSI_SAMPLES = 30;
+const SENSOR_CHANNELS = ["voltage", "current", "temperature", "ph"];
+// Instant playback emits readings in batches so the UI keeps rendering between them.
+const INSTANT_BATCH_SIZE = 200;
+
+export function parseRecordedSession(
+  text: string,
+  fileName: string,
+): RecordedSession {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${fileName} is not valid JSON`);
+  }
+
+  if (data?.version !== 1 || !Array.isArray(data.readings)) {
+    throw new Error(`${fileName} is not a recorded sensor session`);
+  }
+
+  // Channels the sensor did not report were saved as NaN, which JSON writes as null.
+  const readings: RecordedReading[] = data.readings
+    .filter(
+      (reading: any) =>
+        typeof reading?.offsetMs === "number" &&
+        SENSOR_CHANNELS.every(
+          (channel) =>
+            typeof reading[channel] === "number" || reading[channel] === null,
+        ),
+    )
+    .map((reading: any) => ({
+      offsetMs: reading.offsetMs,
+      voltage: reading.voltage ?? NaN,
+      current: reading.current ?? NaN,
+      temperature: reading.temperature ?? NaN,
+      ph: reading.ph ?? NaN,
+    }))
+    .sort((a: RecordedReading, b: RecordedReading) => a.offsetMs - b.offsetMs);
+
+  if (readings.length === 0) {
+    throw new Error(`${fileName} does not contain any readings`);
+  }
+
+  const quality: RecordedQuality[] = (
+    Array.isArray(data.quality) ? data.quality : []
+  )
+    .filter(
+      (sample: any) =>
+        typeof sample?.offsetMs === "number" &&
+        typeof sample.packetsPerSecond === "number" &&
+        typeof sample.packetsReceived === "number" &&
+        typeof sample.packetsLost === "number",
+    )
+    .map((sample: any) => ({
+      offsetMs: sample.offsetMs,
+      rssi: typeof sample.rssi === "number" ? sample.rssi : null,
+      packetsPerSecond: sample.packetsPerSecond,
+      meanIntervalMs:
+        typeof sample.meanIntervalMs === "number"
+          ? sample.meanIntervalMs
+          : null,
+      jitterMs: typeof sample.jitterMs === "number" ? sample.jitterMs : null,
+      packetsReceived: sample.packetsReceived,
+      packetsLost: sample.packetsLost,
+      lossPercent:
+        typeof sample.lossPercent === "number" ? sample.lossPercent : null,
+    }))
+    .sort((a: RecordedQuality, b: RecordedQuality) => a.offsetMs - b.offsetMs);
+
+  const baseName = fileName.replace(/\.json$/i, "");
+  return {
+    version: 1,
+    deviceId: `replay-${data.deviceId ?? baseName}`,
+    deviceName: data.deviceName ?? baseName,
+    serialNumber:
+      typeof data.serialNumber === "string" ? data.serialNumber : null,
+    firmwareRevision:
+      typeof data.firmwareRevision === "string" ? data.firmwareRevision : null,
+    startedAt:
+      typeof data.startedAt === "string"
+        ? data.startedAt
+        : new Date().toISOString(),
+    readings,
+    quality,
+  };
+}
+
+export function toRecordedQuality(
+  quality: ConnectionQuality,
+  offsetMs: number,
+): RecordedQuality {
+  return {
+    offsetMs,
+    rssi: quality.rssi,
+    packetsPerSecond: quality.packetsPerSecond,
+    meanIntervalMs: quality.meanIntervalMs,
+    jitterMs: quality.jitterMs,
+    packetsReceived: quality.packetsReceived,
+    packetsLost: quality.packetsLost,
+    lossPercent: quality.lossPercent,
+  };
+}
+
+async function readText(uri: string): Promise<string> {
+  if (Platform.OS === "web") {
+    const response = await fetch(uri);
+    return response.text();
+  }
+  return new File(uri).text();
+}
+
+class ReplayTransportClass implements SensorTransport {
+  kind = "replay" as const;
+  label = "Replay";
+  title = "File Replay";
+  description = "Play back a recorded session file";
+  icon = "film" as const;
+  private events = new TransportEvents();
+  private sessions: Map<string, RecordedSession> = new Map();
+  private playbacks: Map<string, Playback> = new Map();
+  private playbackListeners: Set<PlaybackListener> = new Set();
+  private defaultSpeed: ReplaySpeed = 1;
+
+  async initialize(): Promise<boolean> {
+    return true;
+  }
+
+  getInitError(): string | null {
+    return null;
+  }
+
+  // Discovery lists the recordings loaded so far and offers a file picker for another.
+  async startDiscovery(): Promise<void> {
+    if (!ScanMachine.transition("scanning", {}, "choose recording")) return;
+    this.sessions.forEach((session) =>
+      this.events.deviceFound(this.toDevice(session)),
+    );
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: "application/json",
+        copyToCacheDirectory: true,
+      });
+      if (!result.canceled && result.assets.length > 0) {
+        const asset = result.assets[0];
+        const session = parseRecordedSession(
+          await readText(asset.uri),
+          asset.name,
+        );
+        this.sessions.set(session.deviceId, session);
+        this.events.deviceFound(this.toDevice(session));
+      }
+    } catch (error: any) {
+      this.events.error(error?.message ?? "Failed to load recording");
+    } finally {
+      this.stopDiscovery();
+    }
+  }
+
+  stopDiscovery(): void {
+    if (ScanMachine.getState().status === "scanning") {
+      ScanMachine.transition("idle", {}, "scan stopped");
+    }
+  }
+
+  async connect(deviceId: string): Promise<boolean> {
+    const session = this.sessions.get(deviceId);
+    const machine = DeviceConnections.get(deviceId);
+    if (!session) {
+      this.events.error("Recording is no longer loaded");
+      return false;
+    }
+    if (
+      !machine.transition("connecting", {
+        deviceId,
+        deviceName: session.deviceName,
+        simulated: false,
+      })
+    ) {
+      return false;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, CONNECT_DELAY_MS));
+    if (
+      !machine.transition("discovering") ||
+      !machine.transition("subscribed", {}, "replay started")
+    ) {
+      return false;
+    }
+
+    // Replayed readings carry the recorded sensor as their source.
+    if (session.serialNumber !== null || session.firmwareRevision !== null) {
+      this.events.deviceInfo(deviceId, {
+        ...EMPTY_DEVICE_INFO,
+        serialNumber: session.serialNumber,
+        firmwareRevision: session.firmwareRevision,
+      });
+    }
+
+    const playback: Playback = {
+      deviceId,
+      session,
+      index: 0,
+      qualityIndex: 0,
+      positionMs: session.readings[0].offsetMs,
+      clockStartedAt: Date.now(),
+      speed: this.defaultSpeed,
+      paused: false,
+      loop: false,
+      timer: null,
+    };
+    this.playbacks.set(deviceId, playback);
+    this.schedule(playback);
+    this.notify(playback);
+    return true;
+  }
+
+  async disconnect(deviceId: string): Promise<void> {
+    this.stopPlayback(deviceId);
+
+    const machine = DeviceConnections.get(deviceId);
+    if (machine.transition("disconnecting", {}, "user request")) {
+      machine.transition("idle");
+    }
+  }
+
+  subscribe(listener: TransportListener): () => void {
+    return this.events.subscribe(listener);
+  }
+
+  getPlayback(deviceId: string): ReplayPlaybackState | null {
+    const playback = this.playbacks.get(deviceId);
+    return playback ? this.snapshot(playback) : null;
+  }
+
+  subscribePlayback(listener: PlaybackListener): () => void {
+    this.playbackListeners.add(listener);
+    return () => {
+      this.playbackListeners.delete(listener);
+    };
+  }
+
+  pause(deviceId: string): void {
+    const playback = this.playbacks.get(deviceId);
+    if (!playback || playback.paused) return;
+
+    this.clearTimer(playback);
+    playback.positionMs = this.currentPosition(playback);
+    playback.paused = true;
+    this.notify(playback);
+  }
+
+  resume(deviceId: string): void {
+    const playback = this.playbacks.get(deviceId);
+    if (!playback || !playback.paused) return;
+
+    if (playback.index >= playback.session.readings.length) {
+      this.restart(playback);
+    }
+    playback.paused = false;
+    playback.clockStartedAt = Date.now();
+    this.schedule(playback);
+    this.notify(playback);
+  }
+
+  setSpeed(deviceId: string, speed: ReplaySpeed): void {
+    this.defaultSpeed = speed;
+    const playback = this.playbacks.get(deviceId);
+    if (!playback || playback.speed === speed) return;
+
+    playback.positionMs = this.currentPosition(playback);
+    playback.clockStartedAt = Date.now();
+    playback.speed = speed;
+    this.schedule(playback);
+    this.notify(playback);
+  }
+
+  setLoop(deviceId: string, loop: boolean): void {
+    const playback = this.playbacks.get(deviceId);
+    if (!playback) return;
+
+    playback.loop = loop;
+    this.notify(playback);
+  }
+
+  // Jumps to a position in the recording. The device history restarts there, and the
+  // reading in effect at that moment is shown straight away, even while paused.
+  seek(deviceId: string, positionMs: number): void {
+    const playback = this.playbacks.get(deviceId);
+    if (!playback) return;
+
+    const { readings } = playback.session;
+    const target = Math.min(Math.max(positionMs, 0), this.duration(playback));
+    const nextIndex = readings.findIndex(
+      (reading) => reading.offsetMs > target,
+    );
+
+    this.events.historyReset(deviceId);
+    playback.index = nextIndex === -1 ? readings.length : nextIndex;
+    playback.qualityIndex = 0;
+    if (playback.index > 0) {
+      this.emitReading(playback, readings[playback.index - 1]);
+    }
+    playback.positionMs = target;
+    playback.clockStartedAt = Date.now();
+    this.schedule(playback);
+    this.notify(playback);
+  }
+
+  private schedule(playback: Playback): void {
+    this.clearTimer(playback);
+    if (playback.paused) return;
+
+    const { readings } = playback.session;
+    if (playback.index >= readings.length) {
+      if (!playback.loop) {
+        playback.positionMs = this.duration(playback);
+        playback.paused = true;
+        return;
+      }
+      this.restart(playback);
+    }
+
+    const delay =
+      playback.speed === "instant"
+        ? 0
+        : Math.max(
+            0,
+            readings[playback.index].offsetMs - this.currentPosition(playback),
+          ) / playback.speed;
+    playback.timer = setTimeout(() => this.tick(playback), delay);
+  }
+
+  private tick(playback: Playback): void {
+    playback.timer = null;
+    const { readings } = playback.session;
+    const count = playback.speed === "instant" ? INSTANT_BATCH_SIZE : 1;
+
+    for (let i = 0; i < count && playback.index < readings.length; i++) {
+      this.emitReading(playback, readings[playback.index]);
+      playback.index++;
+    }
+
+    playback.positionMs = readings[playback.index - 1].offsetMs;
+    playback.clockStartedAt = Date.now();
+    this.schedule(playback);
+    this.notify(playback);
+  }
+
+  private restart(playback: Playback): void {
+    this.events.historyReset(playback.deviceId);
+    playback.index = 0;
+    playback.qualityIndex = 0;
+    playback.positionMs = playback.session.readings[0].offsetMs;
+    playback.clockStartedAt = Date.now();
+  }
+
+  private emitReading(playback: Playback, reading: RecordedReading): void {
+    const startedAt = new Date(playback.session.startedAt).getTime();
+    const { offsetMs, ...values } = reading;
+    this.events.reading(playback.deviceId, {
+      ...values,
+      timestamp: new Date(startedAt + offsetMs),
+    });
+    this.emitQuality(playback, offsetMs);
+  }
+
+  // Shows the link health recorded up to this point, with the RSSI trend rebuilt from
+  // the samples before it.
+  private emitQuality(playback: Playback, offsetMs: number): void {
+    const samples = playback.session.quality ?? [];
+    let next = playback.qualityIndex;
+    while (next < samples.length && samples[next].offsetMs <= offsetMs) next++;
+    if (next === playback.qualityIndex) return;
+
+    playback.qualityIndex = next;
+    const sample = samples[next - 1];
+    const rssiHistory = samples
+      .slice(0, next)
+      .map((recorded) => recorded.rssi)
+      .filter((rssi): rssi is number => rssi !== null)
+      .slice(-MAX_RSSI_SAMPLES);
+    const startedAt = new Date(playback.session.startedAt).getTime();
+    const { offsetMs: sampleOffsetMs, ...metrics } = sample;
+
+    this.events.quality(playback.deviceId, {
+      ...metrics,
+      rssiHistory,
+      framing: null,
+      polling: null,
+      updatedAt: new Date(startedAt + sampleOffsetMs),
+    });
+  }
+
+  private currentPosition(playback: Playback): number {
+    if (playback.paused || playback.speed === "instant")
+      return playback.positionMs;
+    const elapsed = (Date.now() - playback.clockStartedAt) * playback.speed;
+    return Math.min(playback.positionMs + elapsed, this.duration(playback));
+  }
+
+  private duration(playback: Playback): number {
+    const { readings } = playback.session;
+    return readings[readings.length - 1].offsetMs;
+  }
+
+  private snapshot(playback: Playback): ReplayPlaybackState {
+    return {
+      deviceId: playback.deviceId,
+      positionMs: this.currentPosition(playback),
+      durationMs: this.duration(playback),
+      speed: playback.speed,
+      paused: playback.paused,
+      loop: playback.loop,
+    };
+  }
+
+  private notify(playback: Playback): void {
+    const state = this.snapshot(playback);
+    this.playbackListeners.forEach((listener) =>
+      listener(playback.deviceId, state),
+    );
+  }
+
+  private clearTimer(playback: Playback): void {
+    if (playback.timer) clearTimeout(playback.timer);
+    playback.timer = null;
+  }
+
+  private stopPlayback(deviceId: string): void {
+    const playback = this.playbacks.get(deviceId);
+    if (!playback) return;
+
+    this.clearTimer(playback);
+    this.playbacks.delete(deviceId);
+    this.playbackListeners.forEach((listener) => listener(deviceId, null));
+  }
+
+  private toDevice(session: RecordedSession): BleDevice {
+    return {
+      id: session.deviceId,
+      name: session.deviceName,
+      rssi: 0,
+      isConnectable: true,
+      txPowerLevel: null,
+      serviceUUIDs: [],
+      manufacturerData: null,
+    };
+  }
+}
+
+export const ReplayTransport = new ReplayTransportClass();
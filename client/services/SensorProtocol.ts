@@ -0,0 +1,319 @@
+import { SensorReading } from "@/hooks/useSensorData";
+
+export type SensorChannel = "voltage" | "current" | "temperature" | "ph";
+
+export type FieldType =
+  | "uint8"
+  | "int8"
+  | "uint16"
+  | "int16"
+  | "uint32"
+  | "int32"
+  | "float32";
+
+export type Endianness = "little" | "big";
+
+// A "sequence" field carries a wrapping packet counter used to detect dropped notifications.
+// A "deviceTime" field is the sensor's own clock; scale it to milliseconds (for a 32768 Hz
+// tick counter use a scale of 1000 / 32768).
+export interface FieldLayout {
+  channel: SensorChannel | "sequence" | "deviceTime";
+  type: FieldType;
+  byteOffset: number;
+  endianness?: Endianness;
+  scale?: number;
+  offset?: number;
+  // Raw value the device sends when it has no measurement, e.g. 0x8000 for an unknown
+  // Bluetooth SIG temperature. The notification is then skipped.
+  invalid?: number;
+}
+
+export type DecodedValues = Partial<Record<SensorChannel, number>> & {
+  sequence?: number;
+  deviceTime?: number;
+};
+
+export interface SensorProtocol {
+  name: string;
+  description?: string;
+  sequenceModulus?: number;
+  deviceTimeWrapMs?: number;
+  decode: (bytes: number[]) => DecodedValues | null;
+}
+
+export const SENSOR_CHANNELS: SensorChannel[] = [
+  "voltage",
+  "current",
+  "temperature",
+  "ph",
+];
+
+const FIELD_SIZES: Record<FieldType, number> = {
+  uint8: 1,
+  int8: 1,
+  uint16: 2,
+  int16: 2,
+  uint32: 4,
+  int32: 4,
+  float32: 4,
+};
+
+export function getFieldSize(type: FieldType): number {
+  return FIELD_SIZES[type];
+}
+
+export function readField(bytes: number[], field: FieldLayout): number | null {
+  const size = FIELD_SIZES[field.type];
+  if (field.byteOffset < 0 || field.byteOffset + size > bytes.length) {
+    return null;
+  }
+
+  const view = new DataView(
+    Uint8Array.from(
+      bytes.slice(field.byteOffset, field.byteOffset + size),
+    ).buffer,
+  );
+  const littleEndian = (field.endianness ?? "little") === "little";
+
+  let raw: number;
+  switch (field.type) {
+    case "uint8":
+      raw = view.getUint8(0);
+      break;
+    case "int8":
+      raw = view.getInt8(0);
+      break;
+    case "uint16":
+      raw = view.getUint16(0, littleEndian);
+      break;
+    case "int16":
+      raw = view.getInt16(0, littleEndian);
+      break;
+    case "uint32":
+      raw = view.getUint32(0, littleEndian);
+      break;
+    case "int32":
+      raw = view.getInt32(0, littleEndian);
+      break;
+    case "float32":
+      raw = view.getFloat32(0, littleEndian);
+      break;
+  }
+
+  if (!Number.isFinite(raw) || raw === field.invalid) return null;
+
+  return raw * (field.scale ?? 1) + (field.offset ?? 0);
+}
+
+export function createLayoutProtocol(
+  name: string,
+  fields: FieldLayout[],
+  description?: string,
+): SensorProtocol {
+  const sequenceField = fields.find((field) => field.channel === "sequence");
+  const timeField = fields.find((field) => field.channel === "deviceTime");
+
+  return {
+    name,
+    description,
+    sequenceModulus: sequenceField
+      ? 2 ** (FIELD_SIZES[sequenceField.type] * 8)
+      : undefined,
+    deviceTimeWrapMs: timeField
+      ? 2 ** (FIELD_SIZES[timeField.type] * 8) * (timeField.scale ?? 1)
+      : undefined,
+    decode: (bytes: number[]) => {
+      const values: DecodedValues = {};
+      for (const field of fields) {
+        const value = readField(bytes, field);
+        if (value === null) return null;
+        values[field.channel] = value;
+      }
+      return values;
+    },
+  };
+}
+
+// Only the listed channels are required; a device that does not measure the others
+// reports them as NaN.
+export function toSensorReading(
+  values: DecodedValues,
+  timestamp: Date = new Date(),
+  channels: SensorChannel[] = SENSOR_CHANNELS,
+): SensorReading | null {
+  if (channels.some((channel) => values[channel] === undefined)) {
+    return null;
+  }
+
+  return {
+    voltage: values.voltage ?? NaN,
+    current: values.current ?? NaN,
+    temperature: values.temperature ?? NaN,
+    ph: values.ph ?? NaN,
+    timestamp,
+  };
+}
+
+class ProtocolRegistryClass {
+  private protocols: Map<string, SensorProtocol> = new Map();
+
+  register(protocol: SensorProtocol): void {
+    this.protocols.set(protocol.name, protocol);
+  }
+
+  unregister(name: string): void {
+    this.protocols.delete(name);
+  }
+
+  get(name: string): SensorProtocol | undefined {
+    return this.protocols.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.protocols.has(name);
+  }
+
+  list(): SensorProtocol[] {
+    return Array.from(this.protocols.values());
+  }
+}
+
+export const ProtocolRegistry = new ProtocolRegistryClass();
+
+export const DEFAULT_PROTOCOL = "legacy-uint8";
+
+ProtocolRegistry.register(
+  createLayoutProtocol(
+    "legacy-uint8",
+    [
+      { channel: "voltage", type: "uint8", byteOffset: 0, scale: 0.01 },
+      { channel: "current", type: "uint8", byteOffset: 1, scale: 0.01 },
+      { channel: "temperature", type: "uint8", byteOffset: 2, scale: 0.1 },
+      { channel: "ph", type: "uint8", byteOffset: 3, scale: 0.1 },
+    ],
+    "Original 4-byte demo layout, one unsigned byte per channel",
+  ),
+);
+
+ProtocolRegistry.register(
+  createLayoutProtocol(
+    "int16-le",
+    [
+      { channel: "voltage", type: "int16", byteOffset: 0, scale: 0.001 },
+      { channel: "current", type: "int16", byteOffset: 2, scale: 0.001 },
+      { channel: "temperature", type: "int16", byteOffset: 4, scale: 0.01 },
+      { channel: "ph", type: "uint16", byteOffset: 6, scale: 0.01 },
+    ],
+    "mV, mA, centi-degrees C and centi-pH, little endian",
+  ),
+);
+
+ProtocolRegistry.register(
+  createLayoutProtocol(
+    "int16-le-seq",
+    [
+      { channel: "voltage", type: "int16", byteOffset: 0, scale: 0.001 },
+      { channel: "current", type: "int16", byteOffset: 2, scale: 0.001 },
+      { channel: "temperature", type: "int16", byteOffset: 4, scale: 0.01 },
+      { channel: "ph", type: "uint16", byteOffset: 6, scale: 0.01 },
+      { channel: "sequence", type: "uint16", byteOffset: 8 },
+    ],
+    "int16-le followed by a 16-bit packet sequence number",
+  ),
+);
+
+ProtocolRegistry.register(
+  createLayoutProtocol(
+    "int16-le-ts",
+    [
+      { channel: "voltage", type: "int16", byteOffset: 0, scale: 0.001 },
+      { channel: "current", type: "int16", byteOffset: 2, scale: 0.001 },
+      { channel: "temperature", type: "int16", byteOffset: 4, scale: 0.01 },
+      { channel: "ph", type: "uint16", byteOffset: 6, scale: 0.01 },
+      { channel: "deviceTime", type: "uint32", byteOffset: 8 },
+    ],
+    "int16-le followed by the device clock in milliseconds",
+  ),
+);
+
+ProtocolRegistry.register(
+  createLayoutProtocol(
+    "int16-be",
+    [
+      {
+        channel: "voltage",
+        type: "int16",
+        byteOffset: 0,
+        endianness: "big",
+        scale: 0.001,
+      },
+      {
+        channel: "current",
+        type: "int16",
+        byteOffset: 2,
+        endianness: "big",
+        scale: 0.001,
+      },
+      {
+        channel: "temperature",
+        type: "int16",
+        byteOffset: 4,
+        endianness: "big",
+        scale: 0.01,
+      },
+      {
+        channel: "ph",
+        type: "uint16",
+        byteOffset: 6,
+        endianness: "big",
+        scale: 0.01,
+      },
+    ],
+    "mV, mA, centi-degrees C and centi-pH, big endian",
+  ),
+);
+
+ProtocolRegistry.register(
+  createLayoutProtocol(
+    "float32-le",
+    [
+      { channel: "voltage", type: "float32", byteOffset: 0 },
+      { channel: "current", type: "float32", byteOffset: 4 },
+      { channel: "temperature", type: "float32", byteOffset: 8 },
+      { channel: "ph", type: "float32", byteOffset: 12 },
+    ],
+    "Four IEEE 754 floats in engineering units, little endian",
+  ),
+);
+
+ProtocolRegistry.register(
+  createLayoutProtocol(
+    "voltage-uint16-le",
+    [{ channel: "voltage", type: "uint16", byteOffset: 0, scale: 0.01 }],
+    "Voltage in centivolts",
+  ),
+);
+
+ProtocolRegistry.register(
+  createLayoutProtocol(
+    "current-uint16-le",
+    [{ channel: "current", type: "uint16", byteOffset: 0, scale: 0.01 }],
+    "Current in centiamps",
+  ),
+);
+
+ProtocolRegistry.register(
+  createLayoutProtocol(
+    "temperature-int16-le",
+    [{ channel: "temperature", type: "int16", byteOffset: 0, scale: 0.01 }],
+    "Temperature in centi-degrees C",
+  ),
+);
+
+ProtocolRegistry.register(
+  createLayoutProtocol(
+    "ph-uint16-le",
+    [{ channel: "ph", type: "uint16", byteOffset: 0, scale: 0.01 }],
+    "pH in hundredths",
+  ),
+);
@@ -0,0 +1,142 @@
+import type { Feather } from "@expo/vector-icons";
+import { SensorReading } from "@/hooks/useSensorData";
+import { AdapterState, BleDevice, ScanFilter } from "@/services/BleService";
+import { CommandResult, SensorCommand } from "@/services/CommandChannel";
+import { ConnectionQuality } from "@/services/ConnectionQuality";
+import { DeviceInfo } from "@/services/DeviceInformation";
+import { DfuTarget } from "@/services/FirmwareUpdater";
+import { HistoryRecord, HistorySyncProgress } from "@/services/HistorySync";
+import { UartLine } from "@/services/NordicUart";
+
+export type TransportKind = "simulated" | "ble" | "websocket" | "replay";
+
+export interface TransportListener {
+  onDeviceFound?: (device: BleDevice) => void;
+  onReading?: (deviceId: string, reading: SensorReading) => void;
+  onDeviceInfo?: (deviceId: string, info: DeviceInfo) => void;
+  onQuality?: (deviceId: string, quality: ConnectionQuality) => void;
+  onHistoryReset?: (deviceId: string) => void;
+  onHistoryRecords?: (deviceId: string, records: HistoryRecord[]) => void;
+  onHistorySync?: (deviceId: string, progress: HistorySyncProgress) => void;
+  onAdapterState?: (state: AdapterState) => void;
+  onUartLine?: (deviceId: string, line: UartLine) => void;
+  onError?: (error: string) => void;
+}
+
+export interface DiscoveryOptions {
+  timeoutMs?: number;
+  filter?: ScanFilter;
+}
+
+// A source of sensor readings. Transports own the per-device connection machines in
+// DeviceConnections and report everything else through their listeners, so the
+// sensor context can drive any of them without knowing where the data comes from.
+export interface SensorTransport {
+  kind: TransportKind;
+  label: string;
+  title: string;
+  description: string;
+  icon: keyof typeof Feather.glyphMap;
+  initialize(): Promise<boolean>;
+  getInitError(): string | null;
+  getAdapterState?(): AdapterState;
+  startDiscovery(options?: DiscoveryOptions): Promise<void>;
+  stopDiscovery(): void;
+  connect(deviceId: string, deviceName?: string): Promise<boolean>;
+  disconnect(deviceId: string): Promise<void>;
+  subscribe(listener: TransportListener): () => void;
+  startBeaconListening?(filter: ScanFilter): Promise<boolean>;
+  stopBeaconListening?(): void;
+  isBeaconListening?(): boolean;
+  sendCommand?(
+    deviceId: string,
+    command: SensorCommand,
+  ): Promise<CommandResult>;
+  createDfuTarget?(deviceId: string): DfuTarget;
+  supportsUart?(deviceId: string): boolean;
+  // Sends one line of text; the transport adds the line ending.
+  sendUart?(deviceId: string, text: string): Promise<void>;
+}
+
+export class TransportEvents {
+  private listeners: Set<TransportListener> = new Set();
+
+  subscribe(listener: TransportListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  deviceFound(device: BleDevice): void {
+    this.listeners.forEach((listener) => listener.onDeviceFound?.(device));
+  }
+
+  reading(deviceId: string, reading: SensorReading): void {
+    this.listeners.forEach((listener) =>
+      listener.onReading?.(deviceId, reading),
+    );
+  }
+
+  deviceInfo(deviceId: string, info: DeviceInfo): void {
+    this.listeners.forEach((listener) =>
+      listener.onDeviceInfo?.(deviceId, info),
+    );
+  }
+
+  quality(deviceId: string, quality: ConnectionQuality): void {
+    this.listeners.forEach((listener) =>
+      listener.onQuality?.(deviceId, quality),
+    );
+  }
+
+  historyReset(deviceId: string): void {
+    this.listeners.forEach((listener) => listener.onHistoryReset?.(deviceId));
+  }
+
+  historyRecords(deviceId: string, records: HistoryRecord[]): void {
+    this.listeners.forEach((listener) =>
+      listener.onHistoryRecords?.(deviceId, records),
+    );
+  }
+
+  historySync(deviceId: string, progress: HistorySyncProgress): void {
+    this.listeners.forEach((listener) =>
+      listener.onHistorySync?.(deviceId, progress),
+    );
+  }
+
+  adapterState(state: AdapterState): void {
+    this.listeners.forEach((listener) => listener.onAdapterState?.(state));
+  }
+
+  uartLine(deviceId: string, line: UartLine): void {
+    this.listeners.forEach((listener) => listener.onUartLine?.(deviceId, line));
+  }
+
+  error(error: string): void {
+    this.listeners.forEach((listener) => listener.onError?.(error));
+  }
+}
+
+class TransportRegistryClass {
+  private transports: Map<TransportKind, SensorTransport> = new Map();
+
+  register(transport: SensorTransport): void {
+    this.transports.set(transport.kind, transport);
+  }
+
+  get(kind: TransportKind): SensorTransport {
+    const transport = this.transports.get(kind);
+    if (!transport) {
+      throw new Error(`No sensor transport registered for "${kind}"`);
+    }
+    return transport;
+  }
+
+  list(): SensorTransport[] {
+    return Array.from(this.transports.values());
+  }
+}
+
+export const TransportRegistry = new TransportRegistryClass();
@@ -0,0 +1,177 @@
+import { SensorReading } from "@/hooks/useSensorData";
+import { ConnectionQuality } from "@/services/ConnectionQuality";
+import { DeviceInfo } from "@/services/DeviceInformation";
+import { HistoryRecord } from "@/services/HistorySync";
+import {
+  RecordedQuality,
+  RecordedReading,
+  RecordedSession,
+  toRecordedQuality,
+} from "@/services/ReplayTransport";
+
+const MAX_RECORDED_READINGS = 20000;
+const MAX_RECORDED_QUALITY = 5000;
+
+interface Recording {
+  deviceName: string;
+  serialNumber: string | null;
+  firmwareRevision: string | null;
+  // Set once the connection ended; the next reading starts a new recording.
+  finished: boolean;
+  startedAt: number;
+  readings: RecordedReading[];
+  quality: RecordedQuality[];
+  // Log sequences already recorded, so a resent history chunk is not stored twice.
+  historySequences: Set<number>;
+}
+
+// Keeps what each live connection produced since it connected, readings and link
+// health alike, so it can be saved as a session file for the replay transport.
+class SessionRecorderStore {
+  private recordings: Map<string, Recording> = new Map();
+  private deviceInfo: Map<string, DeviceInfo> = new Map();
+
+  recordReading(
+    deviceId: string,
+    deviceName: string | null,
+    reading: SensorReading,
+  ): void {
+    const recording = this.getRecording(
+      deviceId,
+      deviceName,
+      reading.timestamp.getTime(),
+    );
+    const { voltage, current, temperature, ph } = reading;
+    recording.readings.push({
+      offsetMs: reading.timestamp.getTime() - recording.startedAt,
+      voltage,
+      current,
+      temperature,
+      ph,
+    });
+    if (recording.readings.length > MAX_RECORDED_READINGS)
+      recording.readings.shift();
+  }
+
+  // Device information is read before the first reading arrives, so it is kept for the
+  // recording that reading starts as well as applied to a running one.
+  recordDeviceInfo(deviceId: string, info: DeviceInfo): void {
+    this.deviceInfo.set(deviceId, info);
+    const recording = this.recordings.get(deviceId);
+    if (!recording || recording.finished) return;
+
+    recording.serialNumber = info.serialNumber;
+    recording.firmwareRevision = info.firmwareRevision;
+  }
+
+  // Logged records are usually older than the live readings, so the recording's start
+  // moves back to the oldest of them and the readings are kept in time order.
+  recordHistory(
+    deviceId: string,
+    deviceName: string | null,
+    records: HistoryRecord[],
+  ): void {
+    if (records.length === 0) return;
+
+    const oldest = Math.min(
+      ...records.map((record) => record.reading.timestamp.getTime()),
+    );
+    const recording = this.getRecording(deviceId, deviceName, oldest);
+    if (oldest < recording.startedAt) {
+      const shift = recording.startedAt - oldest;
+      recording.readings.forEach((reading) => (reading.offsetMs += shift));
+      recording.quality.forEach((sample) => (sample.offsetMs += shift));
+      recording.startedAt = oldest;
+    }
+
+    records
+      .filter((record) => !recording.historySequences.has(record.sequence))
+      .forEach(({ sequence, reading }) => {
+        recording.historySequences.add(sequence);
+        const { voltage, current, temperature, ph } = reading;
+        recording.readings.push({
+          offsetMs: reading.timestamp.getTime() - recording.startedAt,
+          voltage,
+          current,
+          temperature,
+          ph,
+        });
+      });
+    recording.readings.sort((a, b) => a.offsetMs - b.offsetMs);
+    recording.readings.splice(
+      0,
+      Math.max(0, recording.readings.length - MAX_RECORDED_READINGS),
+    );
+  }
+
+  // Quality before the first reading has nothing to line up with and is skipped.
+  recordQuality(deviceId: string, quality: ConnectionQuality): void {
+    const recording = this.recordings.get(deviceId);
+    if (!recording || recording.finished) return;
+
+    recording.quality.push(
+      toRecordedQuality(
+        quality,
+        quality.updatedAt.getTime() - recording.startedAt,
+      ),
+    );
+    if (recording.quality.length > MAX_RECORDED_QUALITY)
+      recording.quality.shift();
+  }
+
+  hasRecording(deviceId: string): boolean {
+    return (this.recordings.get(deviceId)?.readings.length ?? 0) > 0;
+  }
+
+  toSession(deviceId: string): RecordedSession | null {
+    const recording = this.recordings.get(deviceId);
+    if (!recording || recording.readings.length === 0) return null;
+
+    return {
+      version: 1,
+      deviceId,
+      deviceName: recording.deviceName,
+      serialNumber: recording.serialNumber,
+      firmwareRevision: recording.firmwareRevision,
+      startedAt: new Date(recording.startedAt).toISOString(),
+      readings: recording.readings,
+      quality: recording.quality,
+    };
+  }
+
+  exportJson(deviceId: string): string | null {
+    const session = this.toSession(deviceId);
+    return session ? JSON.stringify(session) : null;
+  }
+
+  // Keeps the recording available for saving until the device sends data again.
+  finish(deviceId: string): void {
+    const recording = this.recordings.get(deviceId);
+    if (recording) recording.finished = true;
+  }
+
+  private getRecording(
+    deviceId: string,
+    deviceName: string | null,
+    startedAt: number,
+  ): Recording {
+    let recording = this.recordings.get(deviceId);
+    if (!recording || recording.finished) {
+      const info = this.deviceInfo.get(deviceId);
+      recording = {
+        deviceName: deviceName ?? deviceId,
+        serialNumber: info?.serialNumber ?? null,
+        firmwareRevision: info?.firmwareRevision ?? null,
+        finished: false,
+        startedAt,
+        readings: [],
+        quality: [],
+        historySequences: new Set(),
+      };
+      this.recordings.set(deviceId, recording);
+    }
+    return recording;
+  }
+}
+
+export const SessionRecorder = new SessionRecorderStore();
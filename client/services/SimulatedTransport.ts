@@ -0,0 +1,331 @@
+import { SensorReading } from "@/hooks/useSensorData";
+import { BleDevice } from "@/services/BleService";
+import {
+  CommandResult,
+  SensorCommand,
+  simulateCommand,
+} from "@/services/CommandChannel";
+import { ConnectionQualityMonitor } from "@/services/ConnectionQuality";
+import {
+  DeviceConnections,
+  ScanMachine,
+  isReceivingData,
+} from "@/services/ConnectionStateMachine";
+import {
+  DeviceInfo,
+  createSimulatedDeviceInfo,
+} from "@/services/DeviceInformation";
+import { DfuTarget, SimulatedDfuTarget } from "@/services/FirmwareUpdater";
+import {
+  HistoryRecord,
+  HistorySyncSessions,
+  SimulatedHistorySource,
+} from "@/services/HistorySync";
+import { simulateUartCommand } from "@/services/NordicUart";
+import { UartConsole } from "@/services/UartConsole";
+import {
+  SensorTransport,
+  TransportEvents,
+  TransportListener,
+} from "@/services/SensorTransport";
+
+const SCAN_DURATION_MS = 1500;
+const CONNECT_DELAY_MS = 1500;
+const READING_INTERVAL_MS = 1000;
+const SIMULATED_LOSS_RATE = 0.02;
+const SEQUENCE_MODULUS = 65536;
+const LOG_INTERVAL_MS = 5000;
+const INITIAL_BACKLOG_MS = 10 * 60 * 1000;
+const MAX_LOG_RECORDS = 1000;
+const UART_REPLY_DELAY_MS = 60;
+
+const SIMULATED_ADVERTISEMENT = {
+  isConnectable: true,
+  txPowerLevel: -59,
+  serviceUUIDs: ["0000180F-0000-1000-8000-00805F9B34FB"],
+};
+
+export const SIMULATED_DEVICES: BleDevice[] = [
+  {
+    ...SIMULATED_ADVERTISEMENT,
+    id: "sim-1",
+    name: "Simulated Sensor A",
+    rssi: -35,
+    manufacturerData: [0x59, 0x00, 0x01],
+  },
+  {
+    ...SIMULATED_ADVERTISEMENT,
+    id: "sim-2",
+    name: "Simulated Sensor B",
+    rssi: -42,
+    manufacturerData: [0x59, 0x00, 0x02],
+  },
+  {
+    ...SIMULATED_ADVERTISEMENT,
+    id: "sim-3",
+    name: "Demo Lab Monitor",
+    rssi: -55,
+    manufacturerData: null,
+  },
+];
+
+const SIMULATED_BEACONS = [
+  { id: "beacon-1", name: "Broadcast Probe 1" },
+  { id: "beacon-2", name: "Broadcast Probe 2" },
+  { id: "beacon-3", name: "Broadcast Probe 3" },
+];
+
+function generateRandomReading(): SensorReading {
+  return {
+    voltage: 3.0 + Math.random() * 2.0,
+    current: 0.5 + Math.random() * 1.5,
+    temperature: 35.0 + Math.random() * 5.0,
+    ph: 5.0 + Math.random() * 4.0,
+    timestamp: new Date(),
+  };
+}
+
+class SimulatedTransportClass implements SensorTransport {
+  kind = "simulated" as const;
+  label = "Simulated";
+  title = "Simulated Signal";
+  description = "Use generated test data";
+  icon = "activity" as const;
+  private events = new TransportEvents();
+  private devices: Set<string> = new Set();
+  private deviceInfo: Map<string, DeviceInfo> = new Map();
+  private quality: Map<
+    string,
+    { monitor: ConnectionQualityMonitor; sequence: number }
+  > = new Map();
+  private logs: Map<
+    string,
+    { records: HistoryRecord[]; nextSequence: number; loggedUntil: number }
+  > = new Map();
+  private history = new HistorySyncSessions(
+    (deviceId, records) => this.events.historyRecords(deviceId, records),
+    (deviceId, progress) => this.events.historySync(deviceId, progress),
+  );
+  private scanTimer: ReturnType<typeof setTimeout> | null = null;
+  private readingTimer: ReturnType<typeof setInterval> | null = null;
+  private beaconListening: boolean = false;
+
+  async initialize(): Promise<boolean> {
+    return true;
+  }
+
+  getInitError(): string | null {
+    return null;
+  }
+
+  async startDiscovery(): Promise<void> {
+    if (!ScanMachine.transition("scanning", {}, "simulated scan")) return;
+
+    this.scanTimer = setTimeout(() => {
+      this.scanTimer = null;
+      SIMULATED_DEVICES.forEach((device) => this.events.deviceFound(device));
+      ScanMachine.transition("idle", {}, "simulated scan complete");
+    }, SCAN_DURATION_MS);
+  }
+
+  stopDiscovery(): void {
+    if (this.scanTimer) {
+      clearTimeout(this.scanTimer);
+      this.scanTimer = null;
+      ScanMachine.transition("idle", {}, "scan stopped");
+    }
+  }
+
+  async connect(deviceId: string, deviceName?: string): Promise<boolean> {
+    const machine = DeviceConnections.get(deviceId);
+    const name = deviceName || "Simulated Device";
+    if (
+      !machine.transition("connecting", {
+        deviceId,
+        deviceName: name,
+        simulated: true,
+      })
+    ) {
+      return false;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, CONNECT_DELAY_MS));
+    if (!machine.transition("discovering")) return false;
+
+    const info =
+      this.deviceInfo.get(deviceId) ?? createSimulatedDeviceInfo(deviceId);
+    this.deviceInfo.set(deviceId, info);
+    this.events.deviceInfo(deviceId, info);
+
+    if (!machine.transition("subscribed")) return false;
+    this.quality.set(deviceId, {
+      monitor: new ConnectionQualityMonitor(),
+      sequence: 0,
+    });
+    this.addDevice(deviceId);
+    this.history.start(
+      deviceId,
+      new SimulatedHistorySource(this.catchUpLog(deviceId)),
+    );
+    return true;
+  }
+
+  async disconnect(deviceId: string): Promise<void> {
+    this.history.cancel(deviceId);
+    const log = this.logs.get(deviceId);
+    if (log) log.loggedUntil = Date.now();
+    this.removeDevice(deviceId);
+
+    const machine = DeviceConnections.get(deviceId);
+    if (machine.getState().status === "listening") {
+      machine.transition("idle", {}, "simulation stopped");
+    } else if (machine.transition("disconnecting", {}, "simulation stopped")) {
+      machine.transition("idle");
+    }
+  }
+
+  subscribe(listener: TransportListener): () => void {
+    return this.events.subscribe(listener);
+  }
+
+  async startBeaconListening(): Promise<boolean> {
+    for (const beacon of SIMULATED_BEACONS) {
+      const started = DeviceConnections.get(beacon.id).transition(
+        "listening",
+        { deviceId: beacon.id, deviceName: beacon.name, simulated: true },
+        "simulated beacon",
+      );
+      if (started) this.addDevice(beacon.id);
+    }
+    this.beaconListening = true;
+    return true;
+  }
+
+  stopBeaconListening(): void {
+    for (const beacon of SIMULATED_BEACONS) {
+      if (DeviceConnections.getState(beacon.id)?.status === "listening") {
+        this.disconnect(beacon.id);
+      }
+    }
+    this.beaconListening = false;
+  }
+
+  isBeaconListening(): boolean {
+    return this.beaconListening;
+  }
+
+  async sendCommand(
+    _deviceId: string,
+    command: SensorCommand,
+  ): Promise<CommandResult> {
+    return simulateCommand(command);
+  }
+
+  supportsUart(deviceId: string): boolean {
+    return DeviceConnections.getState(deviceId)?.status === "subscribed";
+  }
+
+  async sendUart(deviceId: string, text: string): Promise<void> {
+    if (!this.supportsUart(deviceId)) throw new Error("Device not connected");
+
+    const replies = simulateUartCommand(
+      text,
+      generateRandomReading(),
+      UartConsole.getParser(),
+    );
+    setTimeout(() => {
+      replies.forEach((reply) =>
+        this.events.uartLine(deviceId, {
+          direction: "rx",
+          text: reply,
+          at: Date.now(),
+        }),
+      );
+    }, UART_REPLY_DELAY_MS);
+  }
+
+  createDfuTarget(deviceId: string): DfuTarget {
+    return new SimulatedDfuTarget(deviceId, (version) => {
+      const info = this.deviceInfo.get(deviceId);
+      if (!info) return;
+
+      const updated = { ...info, firmwareRevision: version };
+      this.deviceInfo.set(deviceId, updated);
+      this.events.deviceInfo(deviceId, updated);
+    });
+  }
+
+  private addDevice(deviceId: string): void {
+    this.devices.add(deviceId);
+    if (this.readingTimer) return;
+
+    this.readingTimer = setInterval(() => {
+      this.devices.forEach((id) => {
+        const state = DeviceConnections.getState(id);
+        if (state && isReceivingData(state.status)) {
+          this.emitReading(id);
+        }
+      });
+    }, READING_INTERVAL_MS);
+  }
+
+  // The simulated sensor logs a record every few seconds while nobody is connected; the
+  // first connection finds a ten minute backlog.
+  private catchUpLog(deviceId: string): HistoryRecord[] {
+    const now = Date.now();
+    const log = this.logs.get(deviceId) ?? {
+      records: [],
+      nextSequence: 0,
+      loggedUntil: now - INITIAL_BACKLOG_MS,
+    };
+
+    for (
+      let time = log.loggedUntil + LOG_INTERVAL_MS;
+      time <= now;
+      time += LOG_INTERVAL_MS
+    ) {
+      log.records.push({
+        sequence: log.nextSequence++,
+        reading: { ...generateRandomReading(), timestamp: new Date(time) },
+      });
+      log.loggedUntil = time;
+    }
+    log.records = log.records.slice(-MAX_LOG_RECORDS);
+    this.logs.set(deviceId, log);
+    return log.records;
+  }
+
+  // Connected devices also report link quality: a wandering RSSI around the advertised
+  // value and the occasional dropped packet, visible through the sequence counter.
+  private emitReading(deviceId: string): void {
+    const quality = this.quality.get(deviceId);
+    if (!quality) {
+      this.events.reading(deviceId, generateRandomReading());
+      return;
+    }
+
+    const { monitor } = quality;
+    const baseRssi =
+      SIMULATED_DEVICES.find((device) => device.id === deviceId)?.rssi ?? -60;
+    monitor.recordRssi(Math.round(baseRssi - Math.random() * 8));
+
+    quality.sequence = (quality.sequence + 1) % SEQUENCE_MODULUS;
+    if (Math.random() >= SIMULATED_LOSS_RATE) {
+      monitor.recordPacket("data");
+      monitor.recordSequence("data", quality.sequence, SEQUENCE_MODULUS);
+      this.events.reading(deviceId, generateRandomReading());
+    }
+    this.events.quality(deviceId, monitor.snapshot());
+  }
+
+  private removeDevice(deviceId: string): void {
+    this.devices.delete(deviceId);
+    this.quality.delete(deviceId);
+    if (this.devices.size === 0 && this.readingTimer) {
+      clearInterval(this.readingTimer);
+      this.readingTimer = null;
+    }
+  }
+}
+
+export const SimulatedTransport = new SimulatedTransportClass();
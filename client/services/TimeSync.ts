@@ -0,0 +1,210 @@
+import { SensorReading } from "@/hooks/useSensorData";
+import { CommandResult, SensorCommand } from "@/services/CommandChannel";
+import { readUint32LE } from "@/lib/bytes";
+
+export interface ClockEstimate {
+  // Phone time minus device time at the reference point of the fit.
+  offsetMs: number;
+  // How much faster the phone clock runs than the device clock, in parts per million.
+  driftPpm: number;
+  samples: number;
+  updatedAt: Date;
+}
+
+interface ClockBucket {
+  deviceMs: number;
+  offsetMs: number;
+}
+
+const BUCKET_MS = 10000;
+const MAX_BUCKETS = 60;
+const MIN_DRIFT_SPAN_MS = 60000;
+const MIN_DRIFT_BUCKETS = 3;
+const MAX_DRIFT_PPM = 500;
+const LATE_SAMPLE_MS = 2000;
+
+const CLOCK_WRAP_MS = 2 ** 32;
+const DEFAULT_EXCHANGES = 5;
+
+// Maps a device clock onto phone time. Each sample pairs a device timestamp with the
+// moment the phone saw it; transmission and queueing only ever add delay, so the smallest
+// offset in each bucket is kept and drift is fitted across buckets.
+export class ClockSync {
+  private buckets: Map<number, ClockBucket> = new Map();
+  private lastRaw: Map<number, number> = new Map();
+  private wrapBase: Map<number, number> = new Map();
+  private samples = 0;
+  private referenceMs = 0;
+  private estimate: ClockEstimate | null = null;
+  // Survives reset(): whether the firmware answers clock reads does not change when it restarts.
+  private readSupported = true;
+
+  // Extends a wrapping counter to a monotonic value. A sample slightly older than the
+  // last one arrived late; a larger backwards step means the device restarted, which
+  // invalidates everything learned so far.
+  unwrap(raw: number, wrapMs: number): number {
+    const last = this.lastRaw.get(wrapMs);
+    let base = this.wrapBase.get(wrapMs) ?? 0;
+
+    if (last !== undefined && raw < last) {
+      if (last - raw > wrapMs / 2) {
+        base += wrapMs;
+      } else if (last - raw <= LATE_SAMPLE_MS) {
+        return base + raw;
+      } else {
+        this.reset();
+        base = 0;
+      }
+    }
+
+    this.lastRaw.set(wrapMs, raw);
+    this.wrapBase.set(wrapMs, base);
+    return base + raw;
+  }
+
+  addSample(deviceMs: number, phoneMs: number): void {
+    const key = Math.floor(deviceMs / BUCKET_MS);
+    const offsetMs = phoneMs - deviceMs;
+    const bucket = this.buckets.get(key);
+
+    if (!bucket || offsetMs < bucket.offsetMs) {
+      this.buckets.set(key, { deviceMs, offsetMs });
+    }
+    if (this.buckets.size > MAX_BUCKETS) {
+      this.buckets.delete(Math.min(...Array.from(this.buckets.keys())));
+    }
+
+    this.samples++;
+    this.fit();
+  }
+
+  toPhoneTime(deviceMs: number): number | null {
+    if (!this.estimate) return null;
+    const { offsetMs, driftPpm } = this.estimate;
+    return (
+      deviceMs + offsetMs + ((deviceMs - this.referenceMs) * driftPpm) / 1e6
+    );
+  }
+
+  // Restamps a reading in corrected device time, keeping the phone's receive time.
+  stamp(reading: SensorReading, deviceMs: number | null): SensorReading {
+    if (deviceMs === null) return reading;
+    const corrected = this.toPhoneTime(deviceMs);
+    if (corrected === null) return reading;
+    return {
+      ...reading,
+      timestamp: new Date(Math.round(corrected)),
+      receivedAt: reading.timestamp,
+    };
+  }
+
+  getEstimate(): ClockEstimate | null {
+    return this.estimate;
+  }
+
+  isReadSupported(): boolean {
+    return this.readSupported;
+  }
+
+  markReadUnsupported(): void {
+    this.readSupported = false;
+  }
+
+  reset(): void {
+    this.buckets.clear();
+    this.lastRaw.clear();
+    this.wrapBase.clear();
+    this.samples = 0;
+    this.referenceMs = 0;
+    this.estimate = null;
+  }
+
+  private fit(): void {
+    const points = Array.from(this.buckets.values());
+    const first = Math.min(...points.map((point) => point.deviceMs));
+    const last = Math.max(...points.map((point) => point.deviceMs));
+
+    let driftPpm = 0;
+    let offsetMs = Math.min(...points.map((point) => point.offsetMs));
+
+    if (
+      points.length >= MIN_DRIFT_BUCKETS &&
+      last - first >= MIN_DRIFT_SPAN_MS
+    ) {
+      const meanX =
+        points.reduce((sum, point) => sum + point.deviceMs, 0) / points.length;
+      const meanY =
+        points.reduce((sum, point) => sum + point.offsetMs, 0) / points.length;
+      let covariance = 0;
+      let variance = 0;
+      for (const point of points) {
+        covariance += (point.deviceMs - meanX) * (point.offsetMs - meanY);
+        variance += (point.deviceMs - meanX) ** 2;
+      }
+
+      const slope = variance > 0 ? covariance / variance : 0;
+      driftPpm = Math.max(-MAX_DRIFT_PPM, Math.min(MAX_DRIFT_PPM, slope * 1e6));
+      // Anchor the line under the lowest point so it stays a lower bound like the buckets.
+      offsetMs = Math.min(
+        ...points.map(
+          (point) =>
+            point.offsetMs - ((point.deviceMs - last) * driftPpm) / 1e6,
+        ),
+      );
+    }
+
+    this.referenceMs = last;
+    this.estimate = {
+      offsetMs,
+      driftPpm,
+      samples: this.samples,
+      updatedAt: new Date(),
+    };
+  }
+}
+
+// Runs a few NTP-style clock reads over the command channel and feeds the one with the
+// shortest round trip into the estimate, taking the device time as the midpoint.
+// Firmware that rejects or ignores the opcode is marked unsupported after the first
+// attempt, so later connects skip the exchange instead of waiting out the timeout.
+export async function exchangeClock(
+  send: (command: SensorCommand) => Promise<CommandResult>,
+  clock: ClockSync,
+  exchanges: number = DEFAULT_EXCHANGES,
+): Promise<ClockEstimate | null> {
+  if (!clock.isReadSupported()) return clock.getEstimate();
+
+  let best: { deviceMs: number; phoneMs: number; latencyMs: number } | null =
+    null;
+
+  for (let i = 0; i < exchanges; i++) {
+    const result = await send({ type: "readClock" });
+    const receivedAt = Date.now();
+    if (!result.ok) {
+      if (
+        result.error === "unsupported" ||
+        (result.error === "timeout" && !best)
+      ) {
+        clock.markReadUnsupported();
+        break;
+      }
+      if (result.error === "not-connected" || result.error === "timeout") break;
+      continue;
+    }
+    if (result.payload.length < 4) break;
+
+    const deviceMs = readUint32LE(result.payload, 0);
+    if (!best || result.latencyMs < best.latencyMs) {
+      best = {
+        deviceMs,
+        phoneMs: receivedAt - result.latencyMs / 2,
+        latencyMs: result.latencyMs,
+      };
+    }
+  }
+
+  if (best) {
+    clock.addSample(clock.unwrap(best.deviceMs, CLOCK_WRAP_MS), best.phoneMs);
+  }
+  return clock.getEstimate();
+}
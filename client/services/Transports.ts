@@ -0,0 +1,14 @@
+import { BleTransport } from "@/services/BleTransport";
+import { ReplayTransport } from "@/services/ReplayTransport";
+import { SimulatedTransport } from "@/services/SimulatedTransport";
+import { TransportKind, TransportRegistry } from "@/services/SensorTransport";
+import { WebSocketTransport } from "@/services/WebSocketTransport";
+
+export const DEFAULT_TRANSPORT: TransportKind = "simulated";
+
+TransportRegistry.register(SimulatedTransport);
+TransportRegistry.register(BleTransport);
+TransportRegistry.register(WebSocketTransport);
+TransportRegistry.register(ReplayTransport);
+
+export { TransportRegistry };
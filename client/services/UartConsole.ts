@@ -0,0 +1,131 @@
+import { readStoredText, writeStoredText } from "@/lib/storage";
+import {
+  DEFAULT_LINE_PARSER,
+  LineParserConfig,
+  UartLine,
+  validateLineParser,
+} from "@/services/NordicUart";
+
+export interface UartMacro {
+  name: string;
+  command: string;
+}
+
+const STORAGE_NAME = "uart-console";
+const MAX_SCROLLBACK = 500;
+const MAX_HISTORY = 50;
+
+type ConsoleListener = () => void;
+
+// Scrollback per device for this run of the app, plus the command history, saved macros
+// and line parser settings, which are kept across launches.
+class UartConsoleStore {
+  private scrollback: Map<string, UartLine[]> = new Map();
+  private history: string[] = [];
+  private macros: UartMacro[] = [];
+  private parser: LineParserConfig = DEFAULT_LINE_PARSER;
+  private listeners: Set<ConsoleListener> = new Set();
+  private loaded: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readStoredText(STORAGE_NAME)
+        .then((text) => {
+          if (!text) return;
+          const data = JSON.parse(text);
+          this.history = Array.isArray(data.history)
+            ? data.history.slice(-MAX_HISTORY)
+            : [];
+          this.macros = Array.isArray(data.macros) ? data.macros : [];
+          if (data.parser) this.parser = validateLineParser(data.parser);
+        })
+        .catch((error) =>
+          console.log("Failed to load console settings:", error),
+        )
+        .finally(() => this.notify());
+    }
+    return this.loaded;
+  }
+
+  getScrollback(deviceId: string): UartLine[] {
+    return this.scrollback.get(deviceId) ?? [];
+  }
+
+  append(deviceId: string, line: UartLine): void {
+    const lines = [...this.getScrollback(deviceId), line].slice(
+      -MAX_SCROLLBACK,
+    );
+    this.scrollback.set(deviceId, lines);
+    this.notify();
+  }
+
+  clear(deviceId: string): void {
+    this.scrollback.delete(deviceId);
+    this.notify();
+  }
+
+  getHistory(): string[] {
+    return this.history;
+  }
+
+  remember(command: string): void {
+    if (this.history[this.history.length - 1] === command) return;
+    this.history = [...this.history, command].slice(-MAX_HISTORY);
+    this.persist();
+  }
+
+  getMacros(): UartMacro[] {
+    return this.macros;
+  }
+
+  saveMacro(macro: UartMacro): void {
+    this.macros = [
+      ...this.macros.filter((existing) => existing.name !== macro.name),
+      macro,
+    ];
+    this.persist();
+  }
+
+  removeMacro(name: string): void {
+    this.macros = this.macros.filter((macro) => macro.name !== name);
+    this.persist();
+  }
+
+  getParser(): LineParserConfig {
+    return this.parser;
+  }
+
+  setParser(parser: LineParserConfig): void {
+    this.parser = parser;
+    this.persist();
+  }
+
+  subscribe(listener: ConsoleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private persist(): void {
+    try {
+      writeStoredText(
+        STORAGE_NAME,
+        JSON.stringify({
+          history: this.history,
+          macros: this.macros,
+          parser: this.parser,
+        }),
+      );
+    } catch (error) {
+      console.log("Failed to save console settings:", error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const UartConsole = new UartConsoleStore();
@@ -0,0 +1,278 @@
+import { getApiUrl } from "@/lib/query-client";
+import {
+  DeviceConnections,
+  ScanMachine,
+} from "@/services/ConnectionStateMachine";
+import {
+  DiscoveryOptions,
+  SensorTransport,
+  TransportEvents,
+  TransportListener,
+} from "@/services/SensorTransport";
+import {
+  LIVE_STREAM_PATH,
+  LiveClientMessage,
+  LiveServerMessage,
+  parseLiveMessage,
+} from "@shared/live";
+
+const OPEN_TIMEOUT_MS = 5000;
+const REQUEST_TIMEOUT_MS = 5000;
+
+interface PendingSubscribe {
+  resolve: (deviceName: string | null) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export function getLiveStreamUrl(): string {
+  const url = new URL(LIVE_STREAM_PATH, getApiUrl());
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  return url.toString();
+}
+
+class WebSocketTransportClass implements SensorTransport {
+  kind = "websocket" as const;
+  label = "Live";
+  title = "Live Stream";
+  description = "Receive readings relayed by the server";
+  icon = "globe" as const;
+  private events = new TransportEvents();
+  private socket: WebSocket | null = null;
+  private opening: Promise<WebSocket> | null = null;
+  private initError: string | null = null;
+  private subscriptions: Set<string> = new Set();
+  private pendingSubscribes: Map<string, PendingSubscribe> = new Map();
+  private discoveryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  async initialize(): Promise<boolean> {
+    try {
+      getLiveStreamUrl();
+      this.initError = null;
+      return true;
+    } catch (error: any) {
+      this.initError = error?.message ?? "Live stream server is not configured";
+      return false;
+    }
+  }
+
+  getInitError(): string | null {
+    return this.initError;
+  }
+
+  async startDiscovery(options: DiscoveryOptions = {}): Promise<void> {
+    if (!ScanMachine.transition("scanning", {}, "live stream")) return;
+
+    try {
+      await this.send({ type: "list" });
+    } catch (error: any) {
+      ScanMachine.transition(
+        "error",
+        { error: error.message },
+        "live stream unavailable",
+      );
+      ScanMachine.transition("idle");
+      this.events.error(`Live stream unavailable: ${error.message}`);
+      return;
+    }
+
+    this.discoveryTimer = setTimeout(() => {
+      this.discoveryTimer = null;
+      ScanMachine.transition("idle", {}, "live stream did not answer");
+    }, options.timeoutMs ?? REQUEST_TIMEOUT_MS);
+  }
+
+  stopDiscovery(): void {
+    if (this.discoveryTimer) {
+      clearTimeout(this.discoveryTimer);
+      this.discoveryTimer = null;
+      ScanMachine.transition("idle", {}, "scan stopped");
+    }
+  }
+
+  async connect(deviceId: string, deviceName?: string): Promise<boolean> {
+    const machine = DeviceConnections.get(deviceId);
+    if (
+      !machine.transition("connecting", {
+        deviceId,
+        deviceName: deviceName ?? null,
+        simulated: false,
+      })
+    ) {
+      return false;
+    }
+
+    try {
+      await this.send({ type: "subscribe", deviceId });
+    } catch (error: any) {
+      machine.transition(
+        "error",
+        { error: error.message },
+        "live stream unavailable",
+      );
+      this.events.error(`Connection failed: ${error.message}`);
+      return false;
+    }
+
+    machine.transition("discovering");
+    const name = await new Promise<string | null>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pendingSubscribes.delete(deviceId);
+        resolve(null);
+      }, REQUEST_TIMEOUT_MS);
+      this.pendingSubscribes.set(deviceId, { resolve, timer });
+    });
+
+    if (name === null) {
+      machine.transition(
+        "error",
+        { error: "Server did not confirm the subscription" },
+        "subscribe timeout",
+      );
+      return false;
+    }
+
+    this.subscriptions.add(deviceId);
+    return machine.transition("subscribed", {
+      deviceName: name || deviceName || deviceId,
+    });
+  }
+
+  async disconnect(deviceId: string): Promise<void> {
+    const wasSubscribed = this.subscriptions.delete(deviceId);
+    if (wasSubscribed && this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: "unsubscribe", deviceId }));
+    }
+
+    const machine = DeviceConnections.get(deviceId);
+    if (
+      machine.transition("disconnecting", {}, "user request") ||
+      machine.getState().status === "error"
+    ) {
+      machine.transition("idle");
+    }
+    this.closeIfIdle();
+  }
+
+  subscribe(listener: TransportListener): () => void {
+    return this.events.subscribe(listener);
+  }
+
+  private async send(message: LiveClientMessage): Promise<void> {
+    const socket = await this.open();
+    socket.send(JSON.stringify(message));
+  }
+
+  private open(): Promise<WebSocket> {
+    if (this.socket?.readyState === WebSocket.OPEN)
+      return Promise.resolve(this.socket);
+    if (this.opening) return this.opening;
+
+    this.opening = new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(getLiveStreamUrl());
+      const timer = setTimeout(() => {
+        socket.close();
+        reject(new Error("timed out opening the live stream"));
+      }, OPEN_TIMEOUT_MS);
+
+      socket.onopen = () => {
+        clearTimeout(timer);
+        this.socket = socket;
+        resolve(socket);
+      };
+      socket.onerror = () => {
+        clearTimeout(timer);
+        reject(new Error("could not reach the live stream"));
+      };
+      socket.onmessage = (event) => this.handleMessage(event.data);
+      socket.onclose = () => this.handleClose(socket);
+    }).finally(() => {
+      this.opening = null;
+    });
+
+    return this.opening;
+  }
+
+  private handleMessage(data: unknown): void {
+    const message = parseLiveMessage<LiveServerMessage>(data);
+    if (!message) return;
+
+    switch (message.type) {
+      case "devices":
+        message.devices.forEach((device) =>
+          this.events.deviceFound({
+            id: device.id,
+            name: device.name,
+            rssi: 0,
+            isConnectable: true,
+            txPowerLevel: null,
+            serviceUUIDs: [],
+            manufacturerData: null,
+          }),
+        );
+        this.stopDiscovery();
+        break;
+      case "subscribed": {
+        const pending = this.pendingSubscribes.get(message.deviceId);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingSubscribes.delete(message.deviceId);
+          pending.resolve(message.deviceName);
+        }
+        break;
+      }
+      case "unsubscribed":
+        if (this.subscriptions.delete(message.deviceId)) {
+          DeviceConnections.get(message.deviceId).transition(
+            "error",
+            { error: message.reason ?? "Publisher went away" },
+            "live stream ended",
+          );
+        }
+        break;
+      case "reading":
+        if (this.subscriptions.has(message.deviceId)) {
+          const { timestamp, ...values } = message.reading;
+          this.events.reading(message.deviceId, {
+            ...values,
+            timestamp: new Date(timestamp),
+          });
+        }
+        break;
+      case "error": {
+        const pending = message.deviceId
+          ? this.pendingSubscribes.get(message.deviceId)
+          : undefined;
+        if (pending && message.deviceId) {
+          clearTimeout(pending.timer);
+          this.pendingSubscribes.delete(message.deviceId);
+          pending.resolve(null);
+        }
+        this.events.error(message.message);
+        break;
+      }
+    }
+  }
+
+  private handleClose(socket: WebSocket): void {
+    if (this.socket !== socket) return;
+    this.socket = null;
+
+    this.subscriptions.forEach((deviceId) => {
+      DeviceConnections.get(deviceId).transition(
+        "error",
+        { error: "Live stream connection closed" },
+        "socket closed",
+      );
+    });
+    this.subscriptions.clear();
+  }
+
+  private closeIfIdle(): void {
+    if (this.subscriptions.size === 0 && this.pendingSubscribes.size === 0) {
+      this.socket?.close();
+      this.socket = null;
+    }
+  }
+}
+
+export const WebSocketTransport = new WebSocketTransportClass();
@@ -0,0 +1,170 @@
+import { writeStoredText } from "@/lib/storage";
+import { ProtocolRegistry } from "@/services/SensorProtocol";
+import {
+  DeviceProfiles,
+  REFERENCE_PROFILE,
+  parseProfilesJson,
+  resolveProfile,
+  validateProfile,
+} from "@/services/DeviceProfiles";
+
+jest.mock("@/lib/storage", () => ({
+  readStoredText: jest.fn(async () => null),
+  writeStoredText: jest.fn(),
+}));
+
+const SERVICE = "0000FFF0-0000-1000-8000-00805F9B34FB";
+const DATA = "0000FFF1-0000-1000-8000-00805F9B34FB";
+
+function profileJson(overrides: Record<string, unknown> = {}) {
+  return {
+    name: "Test sensor",
+    serviceUUID: "FFF0",
+    channels: { voltage: { characteristicUUID: "FFF1", decoder: "uint16-le" } },
+    ...overrides,
+  };
+}
+
+describe("validateProfile", () => {
+  it("expands short UUIDs, normalises decoders and derives the id from the name", () => {
+    const profile = validateProfile(
+      profileJson({
+        channels: {
+          voltage: { characteristicUUID: "fff1", decoder: " UINT16-LE " },
+        },
+        advertisedServices: ["fff0"],
+      }),
+    );
+
+    expect(profile).toMatchObject({
+      id: "test-sensor",
+      serviceUUID: SERVICE,
+      advertisedServices: [SERVICE],
+      channels: { voltage: { characteristicUUID: DATA, decoder: "uint16-le" } },
+    });
+  });
+
+  it("fills polling defaults and keeps a merge policy", () => {
+    const profile = validateProfile(
+      profileJson({
+        polling: { mode: "always", intervalMs: 500 },
+        merge: { mode: "window", windowMs: 250 },
+      }),
+    );
+
+    expect(profile.polling).toMatchObject({ mode: "always", intervalMs: 500 });
+    expect(profile.merge).toEqual({ mode: "window", windowMs: 250 });
+  });
+
+  it.each([
+    ["Profile must be an object", null],
+    ["Profile needs a name", profileJson({ name: " " })],
+    ["serviceUUID is required", profileJson({ serviceUUID: undefined })],
+    ["not a valid regular expression", profileJson({ namePattern: "(" })],
+    ["map at least one channel", profileJson({ channels: {} })],
+    [
+      'unknown decoder "undefined"',
+      profileJson({ channels: { ph: { characteristicUUID: "FFF1" } } }),
+    ],
+    [
+      "ph scale must be a number",
+      profileJson({
+        channels: {
+          ph: { characteristicUUID: "FFF1", decoder: "uint8", scale: "x" },
+        },
+      }),
+    ],
+    ["Polling mode", profileJson({ polling: { mode: "never" } })],
+    ["Merge windowMs", profileJson({ merge: { mode: "window" } })],
+  ])('fails with "%s"', (message, input) => {
+    expect(() => validateProfile(input)).toThrow(message);
+  });
+});
+
+describe("parseProfilesJson", () => {
+  it("accepts an exported file, a bare list or a single profile", () => {
+    const profile = profileJson();
+
+    expect(
+      parseProfilesJson(JSON.stringify({ profiles: [profile] })),
+    ).toHaveLength(1);
+    expect(parseProfilesJson(JSON.stringify([profile, profile]))).toHaveLength(
+      2,
+    );
+    expect(parseProfilesJson(JSON.stringify(profile))).toHaveLength(1);
+    expect(() => parseProfilesJson("{")).toThrow("not valid JSON");
+  });
+});
+
+describe("DeviceProfiles.importJson", () => {
+  beforeEach(() => jest.mocked(writeStoredText).mockClear());
+
+  it("stores every profile of a file in one write", () => {
+    const imported = DeviceProfiles.importJson(
+      JSON.stringify([
+        profileJson({ id: "import-a" }),
+        profileJson({ id: "import-b" }),
+      ]),
+    );
+
+    expect(imported.map((profile) => profile.id)).toEqual([
+      "import-a",
+      "import-b",
+    ]);
+    expect(DeviceProfiles.get("import-b")).not.toBeNull();
+    expect(writeStoredText).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ["an invalid profile", profileJson({ id: "partial-b", channels: {} })],
+    ["a built-in id", profileJson({ id: REFERENCE_PROFILE.id })],
+  ])("stores nothing when the file holds %s", (_, rejected) => {
+    const text = JSON.stringify([profileJson({ id: "partial-a" }), rejected]);
+
+    expect(() => DeviceProfiles.importJson(text)).toThrow();
+    expect(DeviceProfiles.get("partial-a")).toBeNull();
+    expect(writeStoredText).not.toHaveBeenCalled();
+  });
+});
+
+describe("resolveProfile", () => {
+  it("marks bindings of framed channels and decodes the reassembled payload", () => {
+    const profile = validateProfile({
+      id: "framed",
+      name: "Framed sensor",
+      serviceUUID: SERVICE,
+      channels: {
+        voltage: {
+          characteristicUUID: "FFF1",
+          decoder: "uint16-le",
+          framed: true,
+        },
+        current: {
+          characteristicUUID: "FFF1",
+          decoder: "uint16-le",
+          byteOffset: 2,
+        },
+      },
+    });
+
+    const resolved = resolveProfile(profile, [DATA]);
+
+    expect(resolved!.bindings).toHaveLength(1);
+    expect(resolved!.bindings[0]).toMatchObject({
+      characteristicUUID: DATA,
+      framed: true,
+    });
+    const protocol = ProtocolRegistry.get(resolved!.bindings[0].protocol)!;
+    expect(protocol.decode([1, 0, 2, 0])).toEqual({ voltage: 1, current: 2 });
+  });
+
+  it("leaves unframed bindings unmarked", () => {
+    const profile = validateProfile({
+      name: "Plain sensor",
+      serviceUUID: SERVICE,
+      channels: { voltage: { characteristicUUID: DATA, decoder: "uint8" } },
+    });
+
+    expect(resolveProfile(profile, [DATA])!.bindings[0].framed).toBeUndefined();
+  });
+});
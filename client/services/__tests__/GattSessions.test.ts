@@ -0,0 +1,110 @@
+// BleService creates its GattSessions when loaded, so it has to be loaded first, as
+// in the app.
+import "@/services/BleService";
+import { DeviceConnections } from "@/services/ConnectionStateMachine";
+import {
+  GattLink,
+  GattPlatform,
+  GattSessionConfig,
+  GattSessionEvents,
+  GattSessions,
+} from "@/services/GattSessions";
+import { DEFAULT_MERGE_POLICY } from "@/services/ReadingMerger";
+import { DEFAULT_POLLING_CONFIG } from "@/services/PollingReader";
+
+jest.mock("@/lib/storage", () => ({
+  readStoredText: jest.fn(async () => null),
+  writeStoredText: jest.fn(),
+}));
+
+// A device without any of the optional services; every lookup comes back empty.
+function createLink(): GattLink {
+  return {
+    name: "Sensor",
+    advertisedServices: [],
+    mtu: 23,
+    listServices: async () => [],
+    listCharacteristics: async () => {
+      throw new Error("Service not found");
+    },
+    read: async () => {
+      throw new Error("Not readable");
+    },
+    write: async () => {},
+    monitor: async () => () => {},
+    readRssi: async () => null,
+    disconnect: jest.fn(async () => {}),
+  };
+}
+
+const config: GattSessionConfig = {
+  getDeviceBindings: () => [],
+  hasExplicitBindings: () => true,
+  getPollingConfig: () => DEFAULT_POLLING_CONFIG,
+  getMergePolicy: () => DEFAULT_MERGE_POLICY,
+  getReconnectOptions: () => ({}),
+};
+
+const events: GattSessionEvents = {
+  reading: () => {},
+  deviceInfo: () => {},
+  quality: () => {},
+  uartLine: () => {},
+  error: () => {},
+};
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("GattSessions.connect", () => {
+  beforeEach(() => jest.spyOn(console, "log").mockImplementation(() => {}));
+  afterEach(() => jest.restoreAllMocks());
+
+  it("replaces a subscribed session through disconnecting and idle", async () => {
+    const links = [createLink(), createLink()];
+    const platform: GattPlatform = {
+      getAdapterState: () => "PoweredOn",
+      connect: jest.fn(async () => links.shift()!),
+    };
+    const gatt = new GattSessions(platform, config, events);
+    const machine = DeviceConnections.get("replace-subscribed");
+
+    expect(await gatt.connect("replace-subscribed")).toBe(true);
+    expect(await gatt.connect("replace-subscribed")).toBe(true);
+
+    expect(machine.getLog().map((entry) => entry.to)).toEqual([
+      "connecting",
+      "discovering",
+      "subscribed",
+      "disconnecting",
+      "idle",
+      "connecting",
+      "discovering",
+      "subscribed",
+    ]);
+    await gatt.disconnect("replace-subscribed");
+    expect(machine.getState().status).toBe("idle");
+  });
+
+  it("replaces a session that is still connecting", async () => {
+    const platform: GattPlatform = {
+      getAdapterState: () => "PoweredOn",
+      // The first attempt never gets a link.
+      connect: jest
+        .fn()
+        .mockReturnValueOnce(new Promise(() => {}))
+        .mockResolvedValueOnce(createLink()),
+    };
+    const gatt = new GattSessions(platform, config, events);
+    const machine = DeviceConnections.get("replace-connecting");
+
+    gatt.connect("replace-connecting");
+    await flush();
+    expect(machine.getState().status).toBe("connecting");
+
+    expect(await gatt.connect("replace-connecting")).toBe(true);
+    expect(machine.getState().status).toBe("subscribed");
+    await gatt.disconnect("replace-connecting");
+  });
+});
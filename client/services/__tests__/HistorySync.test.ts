@@ -0,0 +1,159 @@
+import {
+  HistoryChunk,
+  HistoryCursors,
+  HistoryRecord,
+  HistorySource,
+  HistorySyncProgress,
+  HistorySyncSessions,
+  HistorySyncer,
+} from "@/services/HistorySync";
+
+jest.mock("@/lib/storage", () => ({
+  readStoredText: jest.fn(async () => null),
+  writeStoredText: jest.fn(),
+}));
+
+function record(sequence: number): HistoryRecord {
+  return {
+    sequence,
+    reading: {
+      voltage: 3.3,
+      current: 0.5,
+      temperature: 25,
+      ph: 7,
+      timestamp: new Date(sequence * 1000),
+    },
+  };
+}
+
+// Serves the given chunks in order and remembers where each request started.
+class ScriptedSource implements HistorySource {
+  requests: number[] = [];
+  disposed = 0;
+
+  constructor(private chunks: (HistoryChunk | Promise<HistoryChunk>)[]) {}
+
+  requestChunk(fromSequence: number): Promise<HistoryChunk> {
+    this.requests.push(fromSequence);
+    const chunk = this.chunks.shift();
+    return chunk
+      ? Promise.resolve(chunk)
+      : Promise.resolve({ records: [], remaining: 0 });
+  }
+
+  dispose(): void {
+    this.disposed++;
+  }
+}
+
+describe("HistorySyncer", () => {
+  it("advances the cursor past the records it handed on", async () => {
+    const source = new ScriptedSource([
+      { records: [record(0), record(1)], remaining: 1 },
+      { records: [record(2)], remaining: 0 },
+    ]);
+    const received: number[] = [];
+
+    const progress = await new HistorySyncer(
+      source,
+      "advance",
+      (records) => received.push(...records.map((r) => r.sequence)),
+      () => {},
+    ).run();
+
+    expect(received).toEqual([0, 1, 2]);
+    expect(source.requests).toEqual([0, 2]);
+    expect(HistoryCursors.get("advance")).toBe(2);
+    expect(progress).toMatchObject({
+      status: "completed",
+      received: 3,
+      lastSequence: 2,
+    });
+  });
+
+  it("resumes from the saved cursor", async () => {
+    HistoryCursors.set("resume", 9);
+    const source = new ScriptedSource([]);
+
+    await new HistorySyncer(
+      source,
+      "resume",
+      () => {},
+      () => {},
+    ).run();
+
+    expect(source.requests).toEqual([10]);
+  });
+
+  it("keeps the cursor when the records could not be stored", async () => {
+    HistoryCursors.set("failing", 4);
+    const source = new ScriptedSource([
+      { records: [record(5), record(6)], remaining: 0 },
+    ]);
+
+    const progress = await new HistorySyncer(
+      source,
+      "failing",
+      () => {
+        throw new Error("Storage full");
+      },
+      () => {},
+    ).run();
+
+    expect(HistoryCursors.get("failing")).toBe(4);
+    expect(progress).toMatchObject({ status: "error", error: "Storage full" });
+  });
+
+  it("hands on each resent sequence once, in order", async () => {
+    const source = new ScriptedSource([
+      {
+        records: [record(3), record(1), record(2), record(3), record(0)],
+        remaining: 0,
+      },
+    ]);
+    const received: number[] = [];
+    HistoryCursors.set("resent", 0);
+
+    await new HistorySyncer(
+      source,
+      "resent",
+      (records) => received.push(...records.map((r) => r.sequence)),
+      () => {},
+    ).run();
+
+    expect(received).toEqual([1, 2, 3]);
+    expect(HistoryCursors.get("resent")).toBe(3);
+  });
+});
+
+describe("HistorySyncSessions", () => {
+  it("disposes the source on cancel and ignores the stale run afterwards", async () => {
+    let resolveChunk: (chunk: HistoryChunk) => void = () => {};
+    const source = new ScriptedSource([
+      new Promise<HistoryChunk>((resolve) => (resolveChunk = resolve)),
+    ]);
+    const progress: HistorySyncProgress[] = [];
+    const records = jest.fn();
+    const sessions = new HistorySyncSessions(records, (_, update) =>
+      progress.push(update),
+    );
+
+    sessions.start("device", source, "cancelled");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    sessions.cancel("device");
+
+    expect(source.disposed).toBe(1);
+    expect(sessions.isSyncing("device")).toBe(false);
+    expect(progress.map((update) => update.status)).toEqual([
+      "syncing",
+      "idle",
+    ]);
+
+    resolveChunk({ records: [record(0)], remaining: 0 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(records).not.toHaveBeenCalled();
+    expect(progress).toHaveLength(2);
+    expect(HistoryCursors.get("cancelled")).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import { crc16, fromUtf8 } from "@/lib/bytes";
+import {
+  FRAME_SYNC,
+  FrameAssembler,
+  encodeFrame,
+  fragmentFrame,
+} from "@/services/MessageFraming";
+
+function collect() {
+  const frames: { payload: number[]; sequence: number }[] = [];
+  const assembler = new FrameAssembler((payload, sequence) =>
+    frames.push({ payload, sequence }),
+  );
+  return { frames, assembler };
+}
+
+describe("crc16", () => {
+  it("matches the CCITT-FALSE check value", () => {
+    expect(crc16(fromUtf8("123456789"))).toBe(0x29b1);
+  });
+
+  it("starts from 0xFFFF for an empty input", () => {
+    expect(crc16([])).toBe(0xffff);
+  });
+});
+
+describe("encodeFrame", () => {
+  it("writes sync, sequence, length and a CRC over everything after the sync", () => {
+    const frame = encodeFrame([1, 2, 3], 7);
+    expect(frame.slice(0, 4)).toEqual([FRAME_SYNC, 7, 3, 0]);
+    expect(frame.slice(4, 7)).toEqual([1, 2, 3]);
+
+    const crc = crc16(frame.slice(1, 7));
+    expect(frame.slice(7)).toEqual([crc & 0xff, crc >> 8]);
+  });
+});
+
+describe("FrameAssembler", () => {
+  it("reassembles a frame split across notifications", () => {
+    const { frames, assembler } = collect();
+    const payload = Array.from({ length: 50 }, (_, i) => i);
+
+    fragmentFrame(encodeFrame(payload, 1), 20).forEach((fragment, i) =>
+      assembler.push(fragment, i),
+    );
+
+    expect(frames).toEqual([{ payload, sequence: 1 }]);
+    expect(assembler.getStats().frames).toBe(1);
+  });
+
+  it("handles the end of one frame and the start of the next in one notification", () => {
+    const { frames, assembler } = collect();
+    const stream = [...encodeFrame([10], 1), ...encodeFrame([20, 21], 2)];
+
+    assembler.push(stream.slice(0, 9), 0);
+    assembler.push(stream.slice(9), 1);
+
+    expect(frames.map((frame) => frame.payload)).toEqual([[10], [20, 21]]);
+  });
+
+  it("drops a corrupt frame, counts one CRC error and resyncs on the next frame", () => {
+    const { frames, assembler } = collect();
+    const corrupt = encodeFrame([1, 2, 3], 1);
+    corrupt[5] ^= 0xff;
+
+    assembler.push([...corrupt, ...encodeFrame([4], 2)], 0);
+
+    expect(frames).toEqual([{ payload: [4], sequence: 2 }]);
+    expect(assembler.getStats()).toMatchObject({ frames: 1, crcErrors: 1 });
+  });
+
+  it("skips bytes before the sync byte", () => {
+    const { frames, assembler } = collect();
+
+    assembler.push([0x00, 0x11, ...encodeFrame([9], 0)], 0);
+
+    expect(frames).toHaveLength(1);
+    expect(assembler.getStats().discardedBytes).toBe(2);
+  });
+
+  it("rejects lengths above the maximum payload", () => {
+    const { frames, assembler } = collect();
+
+    assembler.push([FRAME_SYNC, 0, 0xff, 0xff], 0);
+
+    expect(frames).toHaveLength(0);
+    expect(assembler.getStats().lengthErrors).toBe(1);
+  });
+
+  it("abandons a partial frame when the rest arrives too late", () => {
+    const { frames, assembler } = collect();
+    const frame = encodeFrame([1, 2, 3, 4], 0);
+
+    assembler.push(frame.slice(0, 5), 0);
+    assembler.push(frame.slice(5), 5000);
+
+    expect(frames).toHaveLength(0);
+    expect(assembler.getStats().timeouts).toBe(1);
+  });
+
+  it("counts frames missing between two sequence numbers, across the wrap", () => {
+    const { assembler } = collect();
+
+    assembler.push(encodeFrame([1], 254), 0);
+    assembler.push(encodeFrame([2], 1), 1);
+
+    expect(assembler.getStats().missedFrames).toBe(2);
+  });
+
+  it("forgets a partial frame on reset", () => {
+    const { frames, assembler } = collect();
+    const frame = encodeFrame([1, 2], 0);
+
+    assembler.push(frame.slice(0, 4), 0);
+    assembler.reset();
+    assembler.push(encodeFrame([3], 1), 1);
+
+    expect(frames.map((frame) => frame.payload)).toEqual([[3]]);
+  });
+});
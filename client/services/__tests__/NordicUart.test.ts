@@ -0,0 +1,108 @@
+import { fromUtf8 } from "@/lib/bytes";
+import {
+  DEFAULT_LINE_PARSER,
+  LineAssembler,
+  formatSensorLine,
+  parseSensorLine,
+  validateLineParser,
+} from "@/services/NordicUart";
+
+describe("parseSensorLine", () => {
+  it("reads every configured key, ignoring case and spaces", () => {
+    expect(
+      parseSensorLine("v=3.31, I = 0.82,T=36.5,ph=7.02", DEFAULT_LINE_PARSER),
+    ).toEqual({ voltage: 3.31, current: 0.82, temperature: 36.5, ph: 7.02 });
+  });
+
+  it("skips unknown keys, empty and non-numeric values", () => {
+    expect(
+      parseSensorLine("V=3.3,RSSI=-60,I=,T=warm,PH", DEFAULT_LINE_PARSER),
+    ).toEqual({ voltage: 3.3 });
+  });
+
+  it("returns null for lines without a single reading", () => {
+    expect(parseSensorLine("OK", DEFAULT_LINE_PARSER)).toBeNull();
+    expect(parseSensorLine("", DEFAULT_LINE_PARSER)).toBeNull();
+  });
+
+  it("uses custom separators and keys", () => {
+    const config = validateLineParser({
+      pairSeparator: ";",
+      keySeparator: ":",
+      keys: { temperature: "temp" },
+    });
+
+    expect(parseSensorLine("TEMP: 21.5; V: 3.3", config)).toEqual({
+      temperature: 21.5,
+    });
+  });
+
+  it("reads back what formatSensorLine writes", () => {
+    const line = formatSensorLine(
+      {
+        voltage: 3.3,
+        current: 0.5,
+        temperature: 25,
+        ph: 7,
+        timestamp: new Date(0),
+      },
+      DEFAULT_LINE_PARSER,
+    );
+
+    expect(line).toBe("V=3.30,I=0.50,T=25.00,PH=7.00");
+    expect(parseSensorLine(line, DEFAULT_LINE_PARSER)).toEqual({
+      voltage: 3.3,
+      current: 0.5,
+      temperature: 25,
+      ph: 7,
+    });
+  });
+});
+
+describe("validateLineParser", () => {
+  it("rejects missing or equal separators and empty key maps", () => {
+    expect(() =>
+      validateLineParser({ ...DEFAULT_LINE_PARSER, pairSeparator: "" }),
+    ).toThrow("pairSeparator");
+    expect(() =>
+      validateLineParser({ ...DEFAULT_LINE_PARSER, keySeparator: "," }),
+    ).toThrow("must differ");
+    expect(() =>
+      validateLineParser({ ...DEFAULT_LINE_PARSER, keys: { voltage: " " } }),
+    ).toThrow("at least one channel");
+  });
+});
+
+describe("LineAssembler", () => {
+  it("joins lines split across notifications and drops CR and blank lines", () => {
+    const lines: string[] = [];
+    const assembler = new LineAssembler((text) => lines.push(text));
+
+    assembler.push(fromUtf8("V=3.3,I="));
+    assembler.push(fromUtf8("0.5\r\n\r\nOK\n"));
+    assembler.push(fromUtf8("partial"));
+
+    expect(lines).toEqual(["V=3.3,I=0.5", "OK"]);
+  });
+
+  it("forgets a partial line on reset", () => {
+    const lines: string[] = [];
+    const assembler = new LineAssembler((text) => lines.push(text));
+
+    assembler.push(fromUtf8("stale"));
+    assembler.reset();
+    assembler.push(fromUtf8("fresh\n"));
+
+    expect(lines).toEqual(["fresh"]);
+  });
+
+  it("cuts lines that never end at 1024 bytes", () => {
+    const lines: string[] = [];
+    const assembler = new LineAssembler((text) => lines.push(text));
+
+    assembler.push(new Array(1500).fill(0x41));
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toHaveLength(1024);
+  });
+});
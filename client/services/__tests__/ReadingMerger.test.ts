@@ -0,0 +1,101 @@
+import { SensorReading } from "@/hooks/useSensorData";
+import {
+  MergePolicy,
+  ReadingMerger,
+  validateMergePolicy,
+} from "@/services/ReadingMerger";
+
+function collect(policy: MergePolicy) {
+  const readings: { reading: SensorReading; deviceTime: number | null }[] = [];
+  const merger = new ReadingMerger(policy, (reading, deviceTime) =>
+    readings.push({ reading, deviceTime }),
+  );
+  return { readings, merger };
+}
+
+describe("ReadingMerger", () => {
+  it("waits for every channel, then emits on each update", () => {
+    const { readings, merger } = collect({ mode: "every-update" });
+
+    merger.push({ voltage: 3.3, current: 0.5 }, 0);
+    merger.push({ temperature: 25 }, 10);
+    expect(readings).toHaveLength(0);
+
+    merger.push({ ph: 7 }, 20);
+    merger.push({ voltage: 3.4 }, 30);
+
+    expect(readings.map(({ reading }) => reading.voltage)).toEqual([3.3, 3.4]);
+    expect(readings[1].reading.timestamp).toEqual(new Date(30));
+  });
+
+  it("emits once per window and starts over afterwards", () => {
+    const { readings, merger } = collect({ mode: "window", windowMs: 100 });
+
+    merger.push({ voltage: 3.3, current: 0.5 }, 0);
+    merger.push({ temperature: 25, deviceTime: 1234 }, 40);
+    merger.push({ ph: 7 }, 80);
+    merger.push({ voltage: 3.4 }, 90);
+
+    expect(readings).toHaveLength(1);
+    expect(readings[0].reading).toMatchObject({
+      voltage: 3.3,
+      current: 0.5,
+      temperature: 25,
+      ph: 7,
+    });
+    expect(readings[0].deviceTime).toBe(1234);
+  });
+
+  it("drops values older than the window", () => {
+    const { readings, merger } = collect({ mode: "window", windowMs: 100 });
+
+    merger.push({ voltage: 3.3 }, 0);
+    merger.push({ current: 0.5, temperature: 25, ph: 7 }, 150);
+    expect(readings).toHaveLength(0);
+
+    merger.push({ voltage: 3.4 }, 200);
+    expect(readings[0].reading.voltage).toBe(3.4);
+  });
+
+  it("only waits for the channels the device measures", () => {
+    const { readings, merger } = collect({ mode: "window", windowMs: 100 });
+    merger.setChannels(["temperature"]);
+
+    merger.push({ temperature: 21.5 }, 0);
+
+    expect(readings[0].reading.temperature).toBe(21.5);
+    expect(readings[0].reading.voltage).toBeNaN();
+  });
+
+  it("discards collected values when the policy changes", () => {
+    const { readings, merger } = collect({ mode: "window", windowMs: 100 });
+
+    merger.push({ voltage: 3.3, current: 0.5, temperature: 25 }, 0);
+    merger.setPolicy({ mode: "every-update" });
+    merger.push({ ph: 7 }, 10);
+
+    expect(readings).toHaveLength(0);
+    expect(merger.getPolicy()).toEqual({ mode: "every-update" });
+  });
+});
+
+describe("validateMergePolicy", () => {
+  it("accepts both modes", () => {
+    expect(validateMergePolicy({ mode: "every-update", windowMs: 5 })).toEqual({
+      mode: "every-update",
+    });
+    expect(validateMergePolicy({ mode: "window", windowMs: 500 })).toEqual({
+      mode: "window",
+      windowMs: 500,
+    });
+  });
+
+  it("rejects unknown modes and missing or tiny windows", () => {
+    expect(() => validateMergePolicy("window")).toThrow("must be an object");
+    expect(() => validateMergePolicy({ mode: "latest" })).toThrow("Merge mode");
+    expect(() => validateMergePolicy({ mode: "window" })).toThrow("windowMs");
+    expect(() => validateMergePolicy({ mode: "window", windowMs: 1 })).toThrow(
+      "windowMs",
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  ProtocolRegistry,
+  createLayoutProtocol,
+  readField,
+  toSensorReading,
+} from "@/services/SensorProtocol";
+
+describe("readField", () => {
+  it("reads little and big endian integers with scale and offset", () => {
+    const bytes = [0x34, 0x12];
+    expect(
+      readField(bytes, { channel: "voltage", type: "uint16", byteOffset: 0 }),
+    ).toBe(0x1234);
+    expect(
+      readField(bytes, {
+        channel: "voltage",
+        type: "uint16",
+        byteOffset: 0,
+        endianness: "big",
+      }),
+    ).toBe(0x3412);
+    expect(
+      readField(bytes, {
+        channel: "voltage",
+        type: "uint8",
+        byteOffset: 1,
+        scale: 0.5,
+        offset: 1,
+      }),
+    ).toBe(10);
+  });
+
+  it("sign-extends signed fields", () => {
+    expect(
+      readField([0xfe, 0xff], {
+        channel: "temperature",
+        type: "int16",
+        byteOffset: 0,
+      }),
+    ).toBe(-2);
+    expect(
+      readField([0x80], {
+        channel: "temperature",
+        type: "int8",
+        byteOffset: 0,
+      }),
+    ).toBe(-128);
+  });
+
+  it("returns null when the field runs past the payload", () => {
+    expect(
+      readField([1, 2, 3], { channel: "ph", type: "uint32", byteOffset: 0 }),
+    ).toBeNull();
+  });
+
+  it("returns null for the field's invalid sentinel", () => {
+    expect(
+      readField([0x00, 0x80], {
+        channel: "temperature",
+        type: "int16",
+        byteOffset: 0,
+        invalid: -0x8000,
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("built-in protocols", () => {
+  it("decodes legacy-uint8", () => {
+    const values = ProtocolRegistry.get("legacy-uint8")!.decode([
+      200, 50, 250, 70,
+    ]);
+    expect(values!.voltage).toBeCloseTo(2);
+    expect(values!.current).toBeCloseTo(0.5);
+    expect(values!.temperature).toBeCloseTo(25);
+    expect(values!.ph).toBeCloseTo(7);
+  });
+
+  it("decodes int16-le-seq with its sequence number and modulus", () => {
+    const protocol = ProtocolRegistry.get("int16-le-seq")!;
+    const values = protocol.decode([
+      0xe8, 0x03, 0xf4, 0x01, 0xc4, 0x09, 0xbc, 0x02, 0x05, 0x00,
+    ]);
+    expect(values).toMatchObject({ sequence: 5 });
+    expect(values!.voltage).toBeCloseTo(1);
+    expect(values!.current).toBeCloseTo(0.5);
+    expect(values!.temperature).toBeCloseTo(25);
+    expect(values!.ph).toBeCloseTo(7);
+    expect(protocol.sequenceModulus).toBe(65536);
+  });
+
+  it("decodes float32-le", () => {
+    const buffer = new DataView(new ArrayBuffer(16));
+    [3.3, 0.25, 21.5, 6.8].forEach((value, i) =>
+      buffer.setFloat32(i * 4, value, true),
+    );
+    const values = ProtocolRegistry.get("float32-le")!.decode(
+      Array.from(new Uint8Array(buffer.buffer)),
+    );
+    expect(values!.voltage).toBeCloseTo(3.3);
+    expect(values!.ph).toBeCloseTo(6.8);
+  });
+
+  it("rejects short payloads", () => {
+    expect(ProtocolRegistry.get("int16-le")!.decode([1, 2, 3])).toBeNull();
+  });
+});
+
+describe("createLayoutProtocol", () => {
+  it("derives the device time wrap from the field size and scale", () => {
+    const protocol = createLayoutProtocol("test-ts", [
+      { channel: "deviceTime", type: "uint16", byteOffset: 0, scale: 2 },
+    ]);
+    expect(protocol.deviceTimeWrapMs).toBe(65536 * 2);
+  });
+});
+
+describe("toSensorReading", () => {
+  it("requires the listed channels and fills the rest with NaN", () => {
+    const timestamp = new Date(0);
+    expect(toSensorReading({ voltage: 1 }, timestamp)).toBeNull();
+
+    const reading = toSensorReading({ voltage: 1 }, timestamp, ["voltage"]);
+    expect(reading).toMatchObject({ voltage: 1, timestamp });
+    expect(reading!.ph).toBeNaN();
+  });
+});
@@ -0,0 +1,130 @@
+import { writeUint32LE } from "@/lib/bytes";
+import { CommandResult } from "@/services/CommandChannel";
+import { ClockSync, exchangeClock } from "@/services/TimeSync";
+
+function clockRead(deviceMs: number, latencyMs: number): CommandResult {
+  return {
+    ok: true,
+    command: "readClock",
+    payload: writeUint32LE(deviceMs),
+    latencyMs,
+  };
+}
+
+function failure(error: "unsupported" | "timeout"): CommandResult {
+  return { ok: false, command: "readClock", error, message: error };
+}
+
+describe("ClockSync", () => {
+  it("keeps the smallest offset seen in a bucket", () => {
+    const clock = new ClockSync();
+
+    clock.addSample(1000, 1120);
+    clock.addSample(2000, 2100);
+    clock.addSample(3000, 3150);
+
+    expect(clock.getEstimate()).toMatchObject({
+      offsetMs: 100,
+      driftPpm: 0,
+      samples: 3,
+    });
+    expect(clock.toPhoneTime(5000)).toBe(5100);
+  });
+
+  it("fits the drift once the samples span enough device time", () => {
+    const clock = new ClockSync();
+    // The phone clock runs 100 ppm fast and started 5 s ahead.
+    for (let deviceMs = 0; deviceMs <= 120000; deviceMs += 10000) {
+      clock.addSample(deviceMs, deviceMs * (1 + 100e-6) + 5000);
+    }
+
+    expect(clock.getEstimate()!.driftPpm).toBeCloseTo(100);
+    expect(clock.toPhoneTime(60000)).toBeCloseTo(65006);
+  });
+
+  it("has no estimate before the first sample", () => {
+    const clock = new ClockSync();
+    const reading = {
+      voltage: 1,
+      current: 1,
+      temperature: 1,
+      ph: 1,
+      timestamp: new Date(0),
+    };
+
+    expect(clock.toPhoneTime(1000)).toBeNull();
+    expect(clock.stamp(reading, 1000)).toBe(reading);
+  });
+
+  it("stamps readings in corrected device time and keeps the receive time", () => {
+    const clock = new ClockSync();
+    clock.addSample(1000, 1100);
+    const receivedAt = new Date(2150);
+
+    const stamped = clock.stamp(
+      { voltage: 1, current: 1, temperature: 1, ph: 1, timestamp: receivedAt },
+      2000,
+    );
+
+    expect(stamped.timestamp).toEqual(new Date(2100));
+    expect(stamped.receivedAt).toBe(receivedAt);
+  });
+
+  it("unwraps counters, tolerates late samples and resets on a device restart", () => {
+    const clock = new ClockSync();
+
+    expect(clock.unwrap(65000, 65536)).toBe(65000);
+    expect(clock.unwrap(100, 65536)).toBe(65636);
+    expect(clock.unwrap(50, 65536)).toBe(65586);
+
+    clock.addSample(65636, 70000);
+    expect(clock.unwrap(30000, 65536)).toBe(65536 + 30000);
+    expect(clock.unwrap(10000, 65536)).toBe(10000);
+    expect(clock.getEstimate()).toBeNull();
+  });
+});
+
+describe("exchangeClock", () => {
+  beforeEach(() => jest.spyOn(Date, "now").mockReturnValue(10000));
+  afterEach(() => jest.restoreAllMocks());
+
+  it("uses the exchange with the shortest round trip, at its midpoint", async () => {
+    const clock = new ClockSync();
+    const results = [
+      clockRead(8000, 40),
+      clockRead(9000, 10),
+      clockRead(8500, 30),
+    ];
+
+    const estimate = await exchangeClock(
+      async () => results.shift()!,
+      clock,
+      3,
+    );
+
+    expect(estimate!.offsetMs).toBe(10000 - 5 - 9000);
+  });
+
+  it("stops asking firmware that does not support clock reads", async () => {
+    const clock = new ClockSync();
+    const send = jest.fn(async () => failure("unsupported"));
+
+    await exchangeClock(send, clock);
+    await exchangeClock(send, clock);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(clock.isReadSupported()).toBe(false);
+  });
+
+  it("treats a first timeout as unsupported but not a later one", async () => {
+    const silent = new ClockSync();
+    await exchangeClock(async () => failure("timeout"), silent);
+    expect(silent.isReadSupported()).toBe(false);
+
+    const flaky = new ClockSync();
+    const results = [clockRead(9000, 10), failure("timeout")];
+    await exchangeClock(async () => results.shift()!, flaky);
+    expect(flaky.isReadSupported()).toBe(true);
+    expect(flaky.getEstimate()).not.toBeNull();
+  });
+});
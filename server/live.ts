@@ -0,0 +1,214 @@
+import type { Server } from "node:http";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  LIVE_STREAM_PATH,
+  type LiveClientMessage,
+  type LiveReading,
+  type LiveServerMessage,
+  parseLiveClientMessage,
+} from "@shared/live";
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const CATCH_UP_READINGS = 120;
+const CATCH_UP_WINDOW_MS = 60000;
+// Above this many queued bytes a subscriber stops receiving readings until it
+// drains; above the hard limit it is disconnected as too slow.
+const SOFT_BUFFER_LIMIT_BYTES = 256 * 1024;
+const HARD_BUFFER_LIMIT_BYTES = 4 * 1024 * 1024;
+
+interface LiveClient {
+  socket: WebSocket;
+  isAlive: boolean;
+  dropped: number;
+}
+
+interface LiveChannel {
+  deviceId: string;
+  deviceName: string;
+  publishers: Set<LiveClient>;
+  subscribers: Set<LiveClient>;
+  buffer: LiveReading[];
+}
+
+function send(client: LiveClient, message: LiveServerMessage): boolean {
+  const { socket } = client;
+  if (socket.readyState !== WebSocket.OPEN) return false;
+
+  if (socket.bufferedAmount > HARD_BUFFER_LIMIT_BYTES) {
+    socket.terminate();
+    return false;
+  }
+  if (
+    message.type === "reading" &&
+    socket.bufferedAmount > SOFT_BUFFER_LIMIT_BYTES
+  ) {
+    client.dropped++;
+    return false;
+  }
+
+  socket.send(JSON.stringify(message));
+  return true;
+}
+
+export function setupLiveRelay(httpServer: Server): WebSocketServer {
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: LIVE_STREAM_PATH,
+  });
+  const channels = new Map<string, LiveChannel>();
+  const clients = new Set<LiveClient>();
+
+  const getChannel = (deviceId: string, deviceName?: string): LiveChannel => {
+    let channel = channels.get(deviceId);
+    if (!channel) {
+      channel = {
+        deviceId,
+        deviceName: deviceName ?? deviceId,
+        publishers: new Set(),
+        subscribers: new Set(),
+        buffer: [],
+      };
+      channels.set(deviceId, channel);
+    } else if (deviceName) {
+      channel.deviceName = deviceName;
+    }
+    return channel;
+  };
+
+  const releaseChannel = (channel: LiveChannel) => {
+    if (channel.publishers.size > 0) return;
+
+    channel.subscribers.forEach((subscriber) =>
+      send(subscriber, {
+        type: "unsubscribed",
+        deviceId: channel.deviceId,
+        reason: "Publisher disconnected",
+      }),
+    );
+    channels.delete(channel.deviceId);
+  };
+
+  const publish = (
+    client: LiveClient,
+    message: Extract<LiveClientMessage, { type: "publish" }>,
+  ) => {
+    const channel = getChannel(message.deviceId, message.deviceName);
+    channel.publishers.add(client);
+
+    const cutoff = Date.now() - CATCH_UP_WINDOW_MS;
+    channel.buffer = [...channel.buffer, message.reading]
+      .filter((reading) => reading.timestamp >= cutoff)
+      .slice(-CATCH_UP_READINGS);
+
+    channel.subscribers.forEach((subscriber) =>
+      send(subscriber, {
+        type: "reading",
+        deviceId: channel.deviceId,
+        reading: message.reading,
+      }),
+    );
+  };
+
+  const subscribe = (client: LiveClient, deviceId: string) => {
+    const channel = channels.get(deviceId);
+    if (!channel || channel.publishers.size === 0) {
+      send(client, {
+        type: "error",
+        deviceId,
+        message: `No one is publishing ${deviceId}`,
+      });
+      return;
+    }
+
+    channel.subscribers.add(client);
+    send(client, {
+      type: "subscribed",
+      deviceId,
+      deviceName: channel.deviceName,
+    });
+    channel.buffer.forEach((reading) =>
+      send(client, { type: "reading", deviceId, reading }),
+    );
+  };
+
+  const handleMessage = (client: LiveClient, message: LiveClientMessage) => {
+    switch (message.type) {
+      case "list":
+        send(client, {
+          type: "devices",
+          devices: Array.from(channels.values())
+            .filter((channel) => channel.publishers.size > 0)
+            .map((channel) => ({
+              id: channel.deviceId,
+              name: channel.deviceName,
+              publishers: channel.publishers.size,
+            })),
+        });
+        break;
+      case "subscribe":
+        subscribe(client, message.deviceId);
+        break;
+      case "unsubscribe":
+        channels.get(message.deviceId)?.subscribers.delete(client);
+        break;
+      case "publish":
+        publish(client, message);
+        break;
+      default:
+        send(client, { type: "error", message: "Unknown message type" });
+    }
+  };
+
+  wss.on("connection", (socket) => {
+    const client: LiveClient = { socket, isAlive: true, dropped: 0 };
+    clients.add(client);
+
+    socket.on("pong", () => {
+      client.isAlive = true;
+    });
+
+    socket.on("message", (data, isBinary) => {
+      if (isBinary) {
+        send(client, { type: "error", message: "Malformed message" });
+        return;
+      }
+
+      const parsed = parseLiveClientMessage(data.toString());
+      if ("error" in parsed) {
+        send(client, { type: "error", message: parsed.error });
+        return;
+      }
+      handleMessage(client, parsed.message);
+    });
+
+    socket.on("close", () => {
+      clients.delete(client);
+      if (client.dropped > 0) {
+        console.log(
+          `live client closed after ${client.dropped} dropped readings`,
+        );
+      }
+      Array.from(channels.values()).forEach((channel) => {
+        channel.subscribers.delete(client);
+        if (channel.publishers.delete(client)) {
+          releaseChannel(channel);
+        }
+      });
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    clients.forEach((client) => {
+      if (!client.isAlive) {
+        client.socket.terminate();
+        return;
+      }
+      client.isAlive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
@@ -1,11 +1,65 @@
 import type { Express } from "express";
 import { createServer, type Server } from "node:http";
+import * as fs from "fs";
+import * as path from "path";
+import { setupLiveRelay } from "./live";
+
+const FIRMWARE_FILE_PATTERN = /^[\w.-]+\.bin$/;
+
+function getFirmwareDir(): string {
+  return path.resolve(process.env.FIRMWARE_DIR ?? "firmware");
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
 
+  app.get("/api/firmware", async (_req, res) => {
+    const dir = getFirmwareDir();
+
+    try {
+      const entries = await fs.promises.readdir(dir);
+      const images = await Promise.all(
+        entries
+          .filter((name) => FIRMWARE_FILE_PATTERN.test(name))
+          .map(async (name) => {
+            try {
+              const stat = await fs.promises.stat(path.join(dir, name));
+              return stat.isFile() ? { name, size: stat.size } : null;
+            } catch {
+              return null;
+            }
+          }),
+      );
+      res.json(
+        images
+          .filter((image) => image !== null)
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      );
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return res.json([]);
+      }
+      console.error("Failed to list firmware images:", error);
+      res.status(500).json({ message: "Could not list firmware images" });
+    }
+  });
+
+  app.get("/api/firmware/:name", (req, res) => {
+    const { name } = req.params;
+    if (!FIRMWARE_FILE_PATTERN.test(name)) {
+      return res.status(400).json({ message: "Invalid firmware file name" });
+    }
+
+    res.sendFile(path.join(getFirmwareDir(), name), (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ message: "Firmware image not found" });
+      }
+    });
+  });
+
   const httpServer = createServer(app);
+  setupLiveRelay(httpServer);
 
   return httpServer;
 }
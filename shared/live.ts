@@ -0,0 +1,91 @@
+// Wire protocol for the /api/live WebSocket stream. Every frame is a JSON object
+// with a "type" field; publishers push readings for a device and subscribers
+// receive them as they arrive.
+
+import { z } from "zod";
+
+export const LIVE_STREAM_PATH = "/api/live";
+
+export interface LiveReading {
+  voltage: number;
+  current: number;
+  temperature: number;
+  ph: number;
+  timestamp: number;
+}
+
+export interface LiveDevice {
+  id: string;
+  name: string;
+  publishers: number;
+}
+
+// Sensor channels a publisher does not have are NaN, which JSON encodes as null.
+const sensorValue = z
+  .number()
+  .nullable()
+  .transform((value) => value ?? NaN);
+
+const liveReadingSchema = z.object({
+  voltage: sensorValue,
+  current: sensorValue,
+  temperature: sensorValue,
+  ph: sensorValue,
+  timestamp: z.number().finite(),
+});
+
+const liveClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("list") }),
+  z.object({ type: z.literal("subscribe"), deviceId: z.string().min(1) }),
+  z.object({ type: z.literal("unsubscribe"), deviceId: z.string().min(1) }),
+  z.object({
+    type: z.literal("publish"),
+    deviceId: z.string().min(1),
+    deviceName: z.string().optional(),
+    reading: liveReadingSchema,
+  }),
+]);
+
+export type LiveClientMessage = z.infer<typeof liveClientMessageSchema>;
+
+export type LiveServerMessage =
+  | { type: "devices"; devices: LiveDevice[] }
+  | { type: "subscribed"; deviceId: string; deviceName: string }
+  | { type: "unsubscribed"; deviceId: string; reason?: string }
+  | { type: "reading"; deviceId: string; reading: LiveReading }
+  | { type: "error"; message: string; deviceId?: string };
+
+export function parseLiveMessage<T extends { type: string }>(
+  data: unknown,
+): T | null {
+  if (typeof data !== "string") return null;
+
+  try {
+    const message = JSON.parse(data);
+    return message && typeof message.type === "string" ? (message as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Frames from clients are untrusted, so their shape is checked in full rather
+// than just the "type" field.
+export function parseLiveClientMessage(
+  data: string,
+): { message: LiveClientMessage } | { error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return { error: "Malformed message" };
+  }
+
+  const result = liveClientMessageSchema.safeParse(raw);
+  if (result.success) return { message: result.data };
+
+  const issue = result.error.issues[0];
+  const path = issue.path.join(".");
+  return {
+    error: `Invalid message${path ? ` (${path})` : ""}: ${issue.message}`,
+  };
+}